@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE `StockIssue` (
+    `id` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `department` VARCHAR(191) NOT NULL,
+    `remarks` VARCHAR(191) NULL,
+    `requestedById` VARCHAR(191) NOT NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `StockIssue_warehouseId_idx`(`warehouseId`),
+    INDEX `StockIssue_department_idx`(`department`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `StockIssueLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `issueId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+
+    INDEX `StockIssueLine_issueId_idx`(`issueId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `StockIssue` ADD CONSTRAINT `StockIssue_requestedById_fkey` FOREIGN KEY (`requestedById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockIssue` ADD CONSTRAINT `StockIssue_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockIssue` ADD CONSTRAINT `StockIssue_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockIssueLine` ADD CONSTRAINT `StockIssueLine_issueId_fkey` FOREIGN KEY (`issueId`) REFERENCES `StockIssue`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockIssueLine` ADD CONSTRAINT `StockIssueLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
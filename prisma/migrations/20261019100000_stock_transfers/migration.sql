@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE `StockTransfer` (
+    `id` VARCHAR(191) NOT NULL,
+    `fromWarehouseId` VARCHAR(191) NOT NULL,
+    `toWarehouseId` VARCHAR(191) NOT NULL,
+    `status` ENUM('DRAFT', 'IN_TRANSIT', 'RECEIVED', 'CANCELLED') NOT NULL DEFAULT 'DRAFT',
+    `hasDiscrepancy` BOOLEAN NOT NULL DEFAULT false,
+    `remarks` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `dispatchedById` VARCHAR(191) NULL,
+    `dispatchedAt` DATETIME(3) NULL,
+    `receivedById` VARCHAR(191) NULL,
+    `receivedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `StockTransfer_status_idx`(`status`),
+    INDEX `StockTransfer_fromWarehouseId_idx`(`fromWarehouseId`),
+    INDEX `StockTransfer_toWarehouseId_idx`(`toWarehouseId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `StockTransferLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `transferId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+    `receivedQuantity` DECIMAL(65, 30) NULL,
+
+    INDEX `StockTransferLine_transferId_idx`(`transferId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `StockTransfer` ADD CONSTRAINT `StockTransfer_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockTransfer` ADD CONSTRAINT `StockTransfer_dispatchedById_fkey` FOREIGN KEY (`dispatchedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockTransfer` ADD CONSTRAINT `StockTransfer_receivedById_fkey` FOREIGN KEY (`receivedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockTransfer` ADD CONSTRAINT `StockTransfer_fromWarehouseId_fkey` FOREIGN KEY (`fromWarehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockTransfer` ADD CONSTRAINT `StockTransfer_toWarehouseId_fkey` FOREIGN KEY (`toWarehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockTransferLine` ADD CONSTRAINT `StockTransferLine_transferId_fkey` FOREIGN KEY (`transferId`) REFERENCES `StockTransfer`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockTransferLine` ADD CONSTRAINT `StockTransferLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE `StockAdjustment` (
+    `id` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+    `unitCost` DECIMAL(65, 30) NULL,
+    `reasonCode` ENUM('DAMAGE', 'LOSS', 'FOUND', 'DATA_CORRECTION') NOT NULL,
+    `remarks` VARCHAR(191) NOT NULL,
+    `status` ENUM('PENDING_APPROVAL', 'APPROVED', 'REJECTED') NOT NULL DEFAULT 'PENDING_APPROVAL',
+    `createdById` VARCHAR(191) NOT NULL,
+    `decidedById` VARCHAR(191) NULL,
+    `decidedAt` DATETIME(3) NULL,
+    `decisionRemarks` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `StockAdjustment_status_idx`(`status`),
+    INDEX `StockAdjustment_itemId_warehouseId_idx`(`itemId`, `warehouseId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `StockAdjustment` ADD CONSTRAINT `StockAdjustment_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockAdjustment` ADD CONSTRAINT `StockAdjustment_decidedById_fkey` FOREIGN KEY (`decidedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockAdjustment` ADD CONSTRAINT `StockAdjustment_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockAdjustment` ADD CONSTRAINT `StockAdjustment_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
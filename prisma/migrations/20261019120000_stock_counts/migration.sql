@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE `StockCount` (
+    `id` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `status` ENUM('OPEN', 'FINALISED', 'CANCELLED') NOT NULL DEFAULT 'OPEN',
+    `categoryIds` JSON NULL,
+    `remarks` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `finalisedById` VARCHAR(191) NULL,
+    `finalisedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `StockCount_warehouseId_status_idx`(`warehouseId`, `status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `StockCountLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `countId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `expectedQuantity` DECIMAL(65, 30) NOT NULL,
+    `countedQuantity` DECIMAL(65, 30) NULL,
+    `round` INTEGER NOT NULL DEFAULT 0,
+
+    UNIQUE INDEX `StockCountLine_countId_itemId_key`(`countId`, `itemId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `StockCountEntry` (
+    `id` VARCHAR(191) NOT NULL,
+    `lineId` VARCHAR(191) NOT NULL,
+    `round` INTEGER NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+    `countedById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `StockCountEntry_lineId_idx`(`lineId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `StockCount` ADD CONSTRAINT `StockCount_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockCount` ADD CONSTRAINT `StockCount_finalisedById_fkey` FOREIGN KEY (`finalisedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockCount` ADD CONSTRAINT `StockCount_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockCountLine` ADD CONSTRAINT `StockCountLine_countId_fkey` FOREIGN KEY (`countId`) REFERENCES `StockCount`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockCountLine` ADD CONSTRAINT `StockCountLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockCountEntry` ADD CONSTRAINT `StockCountEntry_countedById_fkey` FOREIGN KEY (`countedById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockCountEntry` ADD CONSTRAINT `StockCountEntry_lineId_fkey` FOREIGN KEY (`lineId`) REFERENCES `StockCountLine`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
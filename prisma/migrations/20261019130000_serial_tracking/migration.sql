@@ -0,0 +1,62 @@
+-- AlterTable
+ALTER TABLE `StockTransferLine` ADD COLUMN `serialNumbers` JSON NULL;
+
+-- AlterTable
+ALTER TABLE `StockAdjustment` ADD COLUMN `serialNumbers` JSON NULL;
+
+-- CreateTable
+CREATE TABLE `SerialUnit` (
+    `id` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `serialNumber` VARCHAR(191) NOT NULL,
+    `status` ENUM('IN_STOCK', 'IN_TRANSIT', 'ISSUED', 'MISSING', 'WRITTEN_OFF') NOT NULL DEFAULT 'IN_STOCK',
+    `warehouseId` VARCHAR(191) NULL,
+    `holderDepartment` VARCHAR(191) NULL,
+    `holderUserId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `SerialUnit_itemId_serialNumber_key`(`itemId`, `serialNumber`),
+    INDEX `SerialUnit_serialNumber_idx`(`serialNumber`),
+    INDEX `SerialUnit_warehouseId_status_idx`(`warehouseId`, `status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `SerialEvent` (
+    `id` VARCHAR(191) NOT NULL,
+    `serialUnitId` VARCHAR(191) NOT NULL,
+    `status` ENUM('IN_STOCK', 'IN_TRANSIT', 'ISSUED', 'MISSING', 'WRITTEN_OFF') NOT NULL,
+    `warehouseId` VARCHAR(191) NULL,
+    `holderDepartment` VARCHAR(191) NULL,
+    `holderUserId` VARCHAR(191) NULL,
+    `referenceType` VARCHAR(191) NOT NULL,
+    `referenceId` VARCHAR(191) NULL,
+    `remarks` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `SerialEvent_serialUnitId_idx`(`serialUnitId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SerialUnit` ADD CONSTRAINT `SerialUnit_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SerialUnit` ADD CONSTRAINT `SerialUnit_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SerialUnit` ADD CONSTRAINT `SerialUnit_holderUserId_fkey` FOREIGN KEY (`holderUserId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SerialEvent` ADD CONSTRAINT `SerialEvent_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SerialEvent` ADD CONSTRAINT `SerialEvent_serialUnitId_fkey` FOREIGN KEY (`serialUnitId`) REFERENCES `SerialUnit`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SerialEvent` ADD CONSTRAINT `SerialEvent_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SerialEvent` ADD CONSTRAINT `SerialEvent_holderUserId_fkey` FOREIGN KEY (`holderUserId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE `Item` ADD COLUMN `isLotControlled` BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE `StockMovement` ADD COLUMN `lotId` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `StockTransferLine` ADD COLUMN `lots` JSON NULL;
+
+-- AlterTable
+ALTER TABLE `StockAdjustment` ADD COLUMN `lotNumber` VARCHAR(191) NULL,
+    ADD COLUMN `expiryDate` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `StockLot` (
+    `id` VARCHAR(191) NOT NULL,
+    `stockLevelId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `lotNumber` VARCHAR(191) NOT NULL,
+    `expiryDate` DATETIME(3) NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL DEFAULT 0.0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `StockLot_itemId_warehouseId_lotNumber_key`(`itemId`, `warehouseId`, `lotNumber`),
+    INDEX `StockLot_expiryDate_idx`(`expiryDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `StockLot` ADD CONSTRAINT `StockLot_stockLevelId_fkey` FOREIGN KEY (`stockLevelId`) REFERENCES `StockLevel`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StockMovement` ADD CONSTRAINT `StockMovement_lotId_fkey` FOREIGN KEY (`lotId`) REFERENCES `StockLot`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `StockLevel` ADD COLUMN `lowStockAlertedAt` DATETIME(3) NULL;
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE `Requisition` (
+    `id` VARCHAR(191) NOT NULL,
+    `department` VARCHAR(191) NOT NULL,
+    `purpose` VARCHAR(191) NOT NULL,
+    `neededBy` DATETIME(3) NULL,
+    `status` ENUM('PENDING_APPROVAL', 'APPROVED', 'REJECTED', 'CANCELLED') NOT NULL DEFAULT 'PENDING_APPROVAL',
+    `requestedById` VARCHAR(191) NOT NULL,
+    `decidedById` VARCHAR(191) NULL,
+    `decidedAt` DATETIME(3) NULL,
+    `decisionRemarks` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `Requisition_status_idx`(`status`),
+    INDEX `Requisition_department_idx`(`department`),
+    INDEX `Requisition_requestedById_idx`(`requestedById`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `RequisitionLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `requisitionId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NULL,
+    `description` VARCHAR(191) NULL,
+    `unit` VARCHAR(191) NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+    `estimatedUnitCost` DECIMAL(65, 30) NULL,
+    `remarks` VARCHAR(191) NULL,
+
+    INDEX `RequisitionLine_requisitionId_idx`(`requisitionId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `RequisitionEvent` (
+    `id` VARCHAR(191) NOT NULL,
+    `requisitionId` VARCHAR(191) NOT NULL,
+    `status` ENUM('PENDING_APPROVAL', 'APPROVED', 'REJECTED', 'CANCELLED') NOT NULL,
+    `remarks` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `RequisitionEvent_requisitionId_idx`(`requisitionId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Requisition` ADD CONSTRAINT `Requisition_requestedById_fkey` FOREIGN KEY (`requestedById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Requisition` ADD CONSTRAINT `Requisition_decidedById_fkey` FOREIGN KEY (`decidedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RequisitionLine` ADD CONSTRAINT `RequisitionLine_requisitionId_fkey` FOREIGN KEY (`requisitionId`) REFERENCES `Requisition`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RequisitionLine` ADD CONSTRAINT `RequisitionLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RequisitionEvent` ADD CONSTRAINT `RequisitionEvent_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RequisitionEvent` ADD CONSTRAINT `RequisitionEvent_requisitionId_fkey` FOREIGN KEY (`requisitionId`) REFERENCES `Requisition`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE `Supplier` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `taxId` VARCHAR(191) NULL,
+    `contactPerson` VARCHAR(191) NULL,
+    `email` VARCHAR(191) NULL,
+    `phone` VARCHAR(191) NULL,
+    `address` VARCHAR(191) NULL,
+    `paymentTermsDays` INTEGER NOT NULL DEFAULT 30,
+    `bankName` VARCHAR(191) NULL,
+    `bankBranch` VARCHAR(191) NULL,
+    `bankAccountName` VARCHAR(191) NULL,
+    `bankAccountNumber` VARCHAR(191) NULL,
+    `status` ENUM('ACTIVE', 'BLOCKED') NOT NULL DEFAULT 'ACTIVE',
+    `blockedReason` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Supplier_taxId_key`(`taxId`),
+    INDEX `Supplier_name_idx`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `_ItemCategoryToSupplier` (
+    `A` VARCHAR(191) NOT NULL,
+    `B` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `_ItemCategoryToSupplier_AB_unique`(`A`, `B`),
+    INDEX `_ItemCategoryToSupplier_B_index`(`B`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `_ItemCategoryToSupplier` ADD CONSTRAINT `_ItemCategoryToSupplier_A_fkey` FOREIGN KEY (`A`) REFERENCES `ItemCategory`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `_ItemCategoryToSupplier` ADD CONSTRAINT `_ItemCategoryToSupplier_B_fkey` FOREIGN KEY (`B`) REFERENCES `Supplier`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
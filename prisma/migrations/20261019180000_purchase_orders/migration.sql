@@ -0,0 +1,91 @@
+-- AlterTable
+ALTER TABLE `Requisition` ADD COLUMN `purchaseOrderId` VARCHAR(191) NULL,
+    MODIFY `status` ENUM('PENDING_APPROVAL', 'APPROVED', 'REJECTED', 'CANCELLED', 'ORDERED') NOT NULL DEFAULT 'PENDING_APPROVAL';
+
+-- AlterTable
+ALTER TABLE `RequisitionEvent` MODIFY `status` ENUM('PENDING_APPROVAL', 'APPROVED', 'REJECTED', 'CANCELLED', 'ORDERED') NOT NULL;
+
+-- CreateTable
+CREATE TABLE `DocumentSequence` (
+    `key` VARCHAR(191) NOT NULL,
+    `lastValue` INTEGER NOT NULL,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`key`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PurchaseOrder` (
+    `id` VARCHAR(191) NOT NULL,
+    `poNumber` VARCHAR(191) NOT NULL,
+    `supplierId` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `status` ENUM('DRAFT', 'SUBMITTED', 'APPROVED', 'SENT', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED', 'CANCELLED') NOT NULL DEFAULT 'DRAFT',
+    `expectedDeliveryDate` DATETIME(3) NULL,
+    `totalAmount` DECIMAL(65, 30) NOT NULL,
+    `remarks` VARCHAR(191) NULL,
+    `sentAt` DATETIME(3) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `PurchaseOrder_poNumber_key`(`poNumber`),
+    INDEX `PurchaseOrder_status_idx`(`status`),
+    INDEX `PurchaseOrder_supplierId_idx`(`supplierId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PurchaseOrderLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `purchaseOrderId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+    `unitPrice` DECIMAL(65, 30) NOT NULL,
+    `receivedQuantity` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    `requisitionLineId` VARCHAR(191) NULL,
+    `remarks` VARCHAR(191) NULL,
+
+    INDEX `PurchaseOrderLine_purchaseOrderId_idx`(`purchaseOrderId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PurchaseOrderEvent` (
+    `id` VARCHAR(191) NOT NULL,
+    `purchaseOrderId` VARCHAR(191) NOT NULL,
+    `status` ENUM('DRAFT', 'SUBMITTED', 'APPROVED', 'SENT', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED', 'CANCELLED') NOT NULL,
+    `remarks` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `PurchaseOrderEvent_purchaseOrderId_idx`(`purchaseOrderId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Requisition` ADD CONSTRAINT `Requisition_purchaseOrderId_fkey` FOREIGN KEY (`purchaseOrderId`) REFERENCES `PurchaseOrder`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrder` ADD CONSTRAINT `PurchaseOrder_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrder` ADD CONSTRAINT `PurchaseOrder_supplierId_fkey` FOREIGN KEY (`supplierId`) REFERENCES `Supplier`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrder` ADD CONSTRAINT `PurchaseOrder_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrderLine` ADD CONSTRAINT `PurchaseOrderLine_purchaseOrderId_fkey` FOREIGN KEY (`purchaseOrderId`) REFERENCES `PurchaseOrder`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrderLine` ADD CONSTRAINT `PurchaseOrderLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrderLine` ADD CONSTRAINT `PurchaseOrderLine_requisitionLineId_fkey` FOREIGN KEY (`requisitionLineId`) REFERENCES `RequisitionLine`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrderEvent` ADD CONSTRAINT `PurchaseOrderEvent_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrderEvent` ADD CONSTRAINT `PurchaseOrderEvent_purchaseOrderId_fkey` FOREIGN KEY (`purchaseOrderId`) REFERENCES `PurchaseOrder`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
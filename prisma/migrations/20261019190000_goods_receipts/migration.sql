@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE `GoodsReceipt` (
+    `id` VARCHAR(191) NOT NULL,
+    `grnNumber` VARCHAR(191) NOT NULL,
+    `purchaseOrderId` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `deliveryNoteNumber` VARCHAR(191) NULL,
+    `remarks` VARCHAR(191) NULL,
+    `receivedById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `GoodsReceipt_grnNumber_key`(`grnNumber`),
+    INDEX `GoodsReceipt_purchaseOrderId_idx`(`purchaseOrderId`),
+    INDEX `GoodsReceipt_warehouseId_idx`(`warehouseId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `GoodsReceiptLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `goodsReceiptId` VARCHAR(191) NOT NULL,
+    `purchaseOrderLineId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `acceptedQuantity` DECIMAL(65, 30) NOT NULL,
+    `rejectedQuantity` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    `rejectionReason` VARCHAR(191) NULL,
+    `serialNumbers` JSON NULL,
+    `lotNumber` VARCHAR(191) NULL,
+    `expiryDate` DATETIME(3) NULL,
+
+    INDEX `GoodsReceiptLine_goodsReceiptId_idx`(`goodsReceiptId`),
+    INDEX `GoodsReceiptLine_purchaseOrderLineId_idx`(`purchaseOrderLineId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `GoodsReceipt` ADD CONSTRAINT `GoodsReceipt_receivedById_fkey` FOREIGN KEY (`receivedById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GoodsReceipt` ADD CONSTRAINT `GoodsReceipt_purchaseOrderId_fkey` FOREIGN KEY (`purchaseOrderId`) REFERENCES `PurchaseOrder`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GoodsReceipt` ADD CONSTRAINT `GoodsReceipt_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GoodsReceiptLine` ADD CONSTRAINT `GoodsReceiptLine_goodsReceiptId_fkey` FOREIGN KEY (`goodsReceiptId`) REFERENCES `GoodsReceipt`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GoodsReceiptLine` ADD CONSTRAINT `GoodsReceiptLine_purchaseOrderLineId_fkey` FOREIGN KEY (`purchaseOrderLineId`) REFERENCES `PurchaseOrderLine`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GoodsReceiptLine` ADD CONSTRAINT `GoodsReceiptLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE `SupplierInvoice` (
+    `id` VARCHAR(191) NOT NULL,
+    `invoiceNumber` VARCHAR(191) NOT NULL,
+    `supplierId` VARCHAR(191) NOT NULL,
+    `purchaseOrderId` VARCHAR(191) NOT NULL,
+    `invoiceDate` DATETIME(3) NOT NULL,
+    `dueDate` DATETIME(3) NOT NULL,
+    `totalAmount` DECIMAL(65, 30) NOT NULL,
+    `status` ENUM('EXCEPTION', 'APPROVED_FOR_PAYMENT', 'REJECTED') NOT NULL,
+    `matchedAt` DATETIME(3) NULL,
+    `remarks` VARCHAR(191) NULL,
+    `capturedById` VARCHAR(191) NOT NULL,
+    `decidedById` VARCHAR(191) NULL,
+    `decidedAt` DATETIME(3) NULL,
+    `decisionRemarks` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `SupplierInvoice_status_idx`(`status`),
+    INDEX `SupplierInvoice_purchaseOrderId_idx`(`purchaseOrderId`),
+    UNIQUE INDEX `SupplierInvoice_supplierId_invoiceNumber_key`(`supplierId`, `invoiceNumber`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `SupplierInvoiceLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `invoiceId` VARCHAR(191) NOT NULL,
+    `purchaseOrderLineId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+    `unitPrice` DECIMAL(65, 30) NOT NULL,
+    `matched` BOOLEAN NOT NULL DEFAULT false,
+    `priceVariance` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    `quantityVariance` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    `matchIssues` JSON NULL,
+
+    INDEX `SupplierInvoiceLine_invoiceId_idx`(`invoiceId`),
+    INDEX `SupplierInvoiceLine_purchaseOrderLineId_idx`(`purchaseOrderLineId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoice` ADD CONSTRAINT `SupplierInvoice_capturedById_fkey` FOREIGN KEY (`capturedById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoice` ADD CONSTRAINT `SupplierInvoice_decidedById_fkey` FOREIGN KEY (`decidedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoice` ADD CONSTRAINT `SupplierInvoice_supplierId_fkey` FOREIGN KEY (`supplierId`) REFERENCES `Supplier`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoice` ADD CONSTRAINT `SupplierInvoice_purchaseOrderId_fkey` FOREIGN KEY (`purchaseOrderId`) REFERENCES `PurchaseOrder`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoiceLine` ADD CONSTRAINT `SupplierInvoiceLine_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `SupplierInvoice`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoiceLine` ADD CONSTRAINT `SupplierInvoiceLine_purchaseOrderLineId_fkey` FOREIGN KEY (`purchaseOrderLineId`) REFERENCES `PurchaseOrderLine`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoiceLine` ADD CONSTRAINT `SupplierInvoiceLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,85 @@
+-- CreateTable
+CREATE TABLE `Rfq` (
+    `id` VARCHAR(191) NOT NULL,
+    `rfqNumber` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `responseDeadline` DATETIME(3) NULL,
+    `status` ENUM('OPEN', 'AWARDED', 'CANCELLED') NOT NULL DEFAULT 'OPEN',
+    `remarks` VARCHAR(191) NULL,
+    `awardedAt` DATETIME(3) NULL,
+    `purchaseOrderId` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Rfq_rfqNumber_key`(`rfqNumber`),
+    UNIQUE INDEX `Rfq_purchaseOrderId_key`(`purchaseOrderId`),
+    INDEX `Rfq_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `RfqLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `rfqId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+
+    INDEX `RfqLine_rfqId_idx`(`rfqId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `RfqSupplier` (
+    `id` VARCHAR(191) NOT NULL,
+    `rfqId` VARCHAR(191) NOT NULL,
+    `supplierId` VARCHAR(191) NOT NULL,
+    `status` ENUM('INVITED', 'QUOTED', 'AWARDED', 'NOT_AWARDED') NOT NULL DEFAULT 'INVITED',
+    `leadTimeDays` INTEGER NULL,
+    `validUntil` DATETIME(3) NULL,
+    `quotedAt` DATETIME(3) NULL,
+    `remarks` VARCHAR(191) NULL,
+    `notAwardedReason` VARCHAR(191) NULL,
+
+    UNIQUE INDEX `RfqSupplier_rfqId_supplierId_key`(`rfqId`, `supplierId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `RfqQuoteLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `rfqSupplierId` VARCHAR(191) NOT NULL,
+    `rfqLineId` VARCHAR(191) NOT NULL,
+    `unitPrice` DECIMAL(65, 30) NOT NULL,
+
+    UNIQUE INDEX `RfqQuoteLine_rfqSupplierId_rfqLineId_key`(`rfqSupplierId`, `rfqLineId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Rfq` ADD CONSTRAINT `Rfq_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Rfq` ADD CONSTRAINT `Rfq_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Rfq` ADD CONSTRAINT `Rfq_purchaseOrderId_fkey` FOREIGN KEY (`purchaseOrderId`) REFERENCES `PurchaseOrder`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RfqLine` ADD CONSTRAINT `RfqLine_rfqId_fkey` FOREIGN KEY (`rfqId`) REFERENCES `Rfq`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RfqLine` ADD CONSTRAINT `RfqLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RfqSupplier` ADD CONSTRAINT `RfqSupplier_rfqId_fkey` FOREIGN KEY (`rfqId`) REFERENCES `Rfq`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RfqSupplier` ADD CONSTRAINT `RfqSupplier_supplierId_fkey` FOREIGN KEY (`supplierId`) REFERENCES `Supplier`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RfqQuoteLine` ADD CONSTRAINT `RfqQuoteLine_rfqSupplierId_fkey` FOREIGN KEY (`rfqSupplierId`) REFERENCES `RfqSupplier`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RfqQuoteLine` ADD CONSTRAINT `RfqQuoteLine_rfqLineId_fkey` FOREIGN KEY (`rfqLineId`) REFERENCES `RfqLine`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
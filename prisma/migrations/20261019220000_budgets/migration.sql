@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE `Requisition` ADD COLUMN `budgetExceeded` BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE `RequisitionLine` ADD COLUMN `categoryId` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `PurchaseOrder` ADD COLUMN `department` VARCHAR(191) NULL,
+    ADD COLUMN `approvedAt` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `Budget` (
+    `id` VARCHAR(191) NOT NULL,
+    `department` VARCHAR(191) NOT NULL,
+    `categoryId` VARCHAR(191) NULL,
+    `periodStart` DATETIME(3) NOT NULL,
+    `periodEnd` DATETIME(3) NOT NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `remarks` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `Budget_department_idx`(`department`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RequisitionLine` ADD CONSTRAINT `RequisitionLine_categoryId_fkey` FOREIGN KEY (`categoryId`) REFERENCES `ItemCategory`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Budget` ADD CONSTRAINT `Budget_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Budget` ADD CONSTRAINT `Budget_categoryId_fkey` FOREIGN KEY (`categoryId`) REFERENCES `ItemCategory`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
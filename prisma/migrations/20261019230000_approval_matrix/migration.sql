@@ -0,0 +1,108 @@
+-- CreateTable
+CREATE TABLE `ApprovalRule` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `documentType` ENUM('REQUISITION', 'PURCHASE_ORDER', 'STOCK_ADJUSTMENT') NOT NULL,
+    `department` VARCHAR(191) NULL,
+    `categoryId` VARCHAR(191) NULL,
+    `minAmount` DECIMAL(65, 30) NULL,
+    `maxAmount` DECIMAL(65, 30) NULL,
+    `priority` INTEGER NOT NULL DEFAULT 0,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `ApprovalRule_documentType_isActive_idx`(`documentType`, `isActive`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ApprovalRuleStep` (
+    `id` VARCHAR(191) NOT NULL,
+    `ruleId` VARCHAR(191) NOT NULL,
+    `sequence` INTEGER NOT NULL,
+    `approverRole` ENUM('ADMIN', 'FINANCE', 'PROCUREMENT', 'STOREKEEPER', 'DEPARTMENT_MANAGER', 'STAFF') NULL,
+    `approverUserId` VARCHAR(191) NULL,
+    `minAmount` DECIMAL(65, 30) NULL,
+
+    UNIQUE INDEX `ApprovalRuleStep_ruleId_sequence_key`(`ruleId`, `sequence`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ApprovalRequest` (
+    `id` VARCHAR(191) NOT NULL,
+    `documentType` ENUM('REQUISITION', 'PURCHASE_ORDER', 'STOCK_ADJUSTMENT') NOT NULL,
+    `documentId` VARCHAR(191) NOT NULL,
+    `ruleId` VARCHAR(191) NULL,
+    `department` VARCHAR(191) NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `status` ENUM('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED') NOT NULL DEFAULT 'PENDING',
+    `currentStep` INTEGER NOT NULL DEFAULT 1,
+    `completedAt` DATETIME(3) NULL,
+    `requestedById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ApprovalRequest_documentType_documentId_idx`(`documentType`, `documentId`),
+    INDEX `ApprovalRequest_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ApprovalStep` (
+    `id` VARCHAR(191) NOT NULL,
+    `requestId` VARCHAR(191) NOT NULL,
+    `sequence` INTEGER NOT NULL,
+    `approverRole` ENUM('ADMIN', 'FINANCE', 'PROCUREMENT', 'STOREKEEPER', 'DEPARTMENT_MANAGER', 'STAFF') NULL,
+    `approverUserId` VARCHAR(191) NULL,
+    `status` ENUM('PENDING', 'APPROVED', 'REJECTED', 'SKIPPED') NOT NULL DEFAULT 'PENDING',
+    `decidedById` VARCHAR(191) NULL,
+    `decidedAt` DATETIME(3) NULL,
+    `remarks` VARCHAR(191) NULL,
+
+    UNIQUE INDEX `ApprovalStep_requestId_sequence_key`(`requestId`, `sequence`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ApprovalRule` ADD CONSTRAINT `ApprovalRule_categoryId_fkey` FOREIGN KEY (`categoryId`) REFERENCES `ItemCategory`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApprovalRuleStep` ADD CONSTRAINT `ApprovalRuleStep_ruleId_fkey` FOREIGN KEY (`ruleId`) REFERENCES `ApprovalRule`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApprovalRuleStep` ADD CONSTRAINT `ApprovalRuleStep_approverUserId_fkey` FOREIGN KEY (`approverUserId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApprovalRequest` ADD CONSTRAINT `ApprovalRequest_requestedById_fkey` FOREIGN KEY (`requestedById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApprovalRequest` ADD CONSTRAINT `ApprovalRequest_ruleId_fkey` FOREIGN KEY (`ruleId`) REFERENCES `ApprovalRule`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApprovalStep` ADD CONSTRAINT `ApprovalStep_requestId_fkey` FOREIGN KEY (`requestId`) REFERENCES `ApprovalRequest`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApprovalStep` ADD CONSTRAINT `ApprovalStep_approverUserId_fkey` FOREIGN KEY (`approverUserId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ApprovalStep` ADD CONSTRAINT `ApprovalStep_decidedById_fkey` FOREIGN KEY (`decidedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: documents already waiting for approval keep the approver they had
+INSERT INTO `ApprovalRequest` (`id`, `documentType`, `documentId`, `department`, `amount`, `requestedById`)
+SELECT UUID(), 'REQUISITION', `r`.`id`, `r`.`department`,
+       COALESCE((SELECT SUM(`l`.`quantity` * COALESCE(`l`.`estimatedUnitCost`, 0)) FROM `RequisitionLine` `l` WHERE `l`.`requisitionId` = `r`.`id`), 0),
+       `r`.`requestedById`
+FROM `Requisition` `r` WHERE `r`.`status` = 'PENDING_APPROVAL';
+
+INSERT INTO `ApprovalRequest` (`id`, `documentType`, `documentId`, `department`, `amount`, `requestedById`)
+SELECT UUID(), 'PURCHASE_ORDER', `id`, `department`, `totalAmount`, `createdById`
+FROM `PurchaseOrder` WHERE `status` = 'SUBMITTED';
+
+INSERT INTO `ApprovalRequest` (`id`, `documentType`, `documentId`, `department`, `amount`, `requestedById`)
+SELECT UUID(), 'STOCK_ADJUSTMENT', `id`, NULL, ABS(`quantity`) * COALESCE(`unitCost`, 0), `createdById`
+FROM `StockAdjustment` WHERE `status` = 'PENDING_APPROVAL';
+
+INSERT INTO `ApprovalStep` (`id`, `requestId`, `sequence`, `approverRole`)
+SELECT UUID(), `id`, 1, IF(`documentType` = 'REQUISITION', 'DEPARTMENT_MANAGER', 'FINANCE')
+FROM `ApprovalRequest`;
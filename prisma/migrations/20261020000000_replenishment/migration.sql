@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE `StockLevel` ADD COLUMN `reorderQuantity` DECIMAL(65, 30) NOT NULL DEFAULT 0.0,
+    ADD COLUMN `maxStock` DECIMAL(65, 30) NULL,
+    ADD COLUMN `preferredSupplierId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `ReplenishmentSuggestion` (
+    `id` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `supplierId` VARCHAR(191) NULL,
+    `onHand` DECIMAL(65, 30) NOT NULL,
+    `onOrder` DECIMAL(65, 30) NOT NULL,
+    `inboundTransfers` DECIMAL(65, 30) NOT NULL,
+    `pendingTransfers` DECIMAL(65, 30) NOT NULL,
+    `reorderLevel` DECIMAL(65, 30) NOT NULL,
+    `suggestedQuantity` DECIMAL(65, 30) NOT NULL,
+    `status` ENUM('OPEN', 'CONFIRMED', 'DISMISSED') NOT NULL DEFAULT 'OPEN',
+    `purchaseOrderId` VARCHAR(191) NULL,
+    `remarks` VARCHAR(191) NULL,
+    `decidedById` VARCHAR(191) NULL,
+    `decidedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `ReplenishmentSuggestion_status_idx`(`status`),
+    INDEX `ReplenishmentSuggestion_itemId_warehouseId_idx`(`itemId`, `warehouseId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `StockLevel` ADD CONSTRAINT `StockLevel_preferredSupplierId_fkey` FOREIGN KEY (`preferredSupplierId`) REFERENCES `Supplier`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplenishmentSuggestion` ADD CONSTRAINT `ReplenishmentSuggestion_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplenishmentSuggestion` ADD CONSTRAINT `ReplenishmentSuggestion_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplenishmentSuggestion` ADD CONSTRAINT `ReplenishmentSuggestion_supplierId_fkey` FOREIGN KEY (`supplierId`) REFERENCES `Supplier`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplenishmentSuggestion` ADD CONSTRAINT `ReplenishmentSuggestion_purchaseOrderId_fkey` FOREIGN KEY (`purchaseOrderId`) REFERENCES `PurchaseOrder`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplenishmentSuggestion` ADD CONSTRAINT `ReplenishmentSuggestion_decidedById_fkey` FOREIGN KEY (`decidedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE `Item` ADD COLUMN `costingMethod` ENUM('WEIGHTED_AVERAGE', 'FIFO') NOT NULL DEFAULT 'WEIGHTED_AVERAGE';
+
+-- AlterTable
+ALTER TABLE `StockLevel` ADD COLUMN `averageCost` DECIMAL(65, 30) NOT NULL DEFAULT 0.0;
+
+-- AlterTable
+ALTER TABLE `StockMovement` ADD COLUMN `unitCost` DECIMAL(65, 30) NULL,
+    ADD COLUMN `totalCost` DECIMAL(65, 30) NULL;
+
+-- AlterTable
+ALTER TABLE `StockTransferLine` ADD COLUMN `unitCost` DECIMAL(65, 30) NULL;
+
+-- CreateTable
+CREATE TABLE `CostLayer` (
+    `id` VARCHAR(191) NOT NULL,
+    `stockLevelId` VARCHAR(191) NOT NULL,
+    `itemId` VARCHAR(191) NOT NULL,
+    `warehouseId` VARCHAR(191) NOT NULL,
+    `movementId` VARCHAR(191) NULL,
+    `unitCost` DECIMAL(65, 30) NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+    `remaining` DECIMAL(65, 30) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `CostLayer_itemId_warehouseId_createdAt_idx`(`itemId`, `warehouseId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CostLayer` ADD CONSTRAINT `CostLayer_stockLevelId_fkey` FOREIGN KEY (`stockLevelId`) REFERENCES `StockLevel`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CostLayer` ADD CONSTRAINT `CostLayer_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CostLayer` ADD CONSTRAINT `CostLayer_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CostLayer` ADD CONSTRAINT `CostLayer_movementId_fkey` FOREIGN KEY (`movementId`) REFERENCES `StockMovement`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: value stock already on hand at the item's latest purchase price
+UPDATE `StockLevel` sl
+SET sl.`averageCost` = COALESCE((
+    SELECT pol.`unitPrice`
+    FROM `PurchaseOrderLine` pol
+    JOIN `PurchaseOrder` po ON po.`id` = pol.`purchaseOrderId`
+    WHERE pol.`itemId` = sl.`itemId`
+      AND po.`status` NOT IN ('DRAFT', 'SUBMITTED', 'CANCELLED')
+    ORDER BY po.`createdAt` DESC
+    LIMIT 1
+), 0);
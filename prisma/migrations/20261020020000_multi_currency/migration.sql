@@ -0,0 +1,41 @@
+-- Existing suppliers and documents are taken to be in the base currency.
+-- Replace 'USD' below with BASE_CURRENCY if it is set to something else.
+
+-- AlterTable
+ALTER TABLE `Supplier` ADD COLUMN `currency` VARCHAR(191) NOT NULL DEFAULT 'USD';
+ALTER TABLE `Supplier` ALTER COLUMN `currency` DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE `PurchaseOrder` ADD COLUMN `currency` VARCHAR(191) NOT NULL DEFAULT 'USD',
+    ADD COLUMN `exchangeRate` DECIMAL(65, 30) NOT NULL DEFAULT 1,
+    ADD COLUMN `baseTotalAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+UPDATE `PurchaseOrder` SET `baseTotalAmount` = `totalAmount`;
+ALTER TABLE `PurchaseOrder` ALTER COLUMN `currency` DROP DEFAULT,
+    ALTER COLUMN `exchangeRate` DROP DEFAULT,
+    ALTER COLUMN `baseTotalAmount` DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE `SupplierInvoice` ADD COLUMN `currency` VARCHAR(191) NOT NULL DEFAULT 'USD',
+    ADD COLUMN `exchangeRate` DECIMAL(65, 30) NOT NULL DEFAULT 1,
+    ADD COLUMN `baseTotalAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+UPDATE `SupplierInvoice` SET `baseTotalAmount` = `totalAmount`;
+ALTER TABLE `SupplierInvoice` ALTER COLUMN `currency` DROP DEFAULT,
+    ALTER COLUMN `exchangeRate` DROP DEFAULT,
+    ALTER COLUMN `baseTotalAmount` DROP DEFAULT;
+
+-- CreateTable
+CREATE TABLE `ExchangeRate` (
+    `id` VARCHAR(191) NOT NULL,
+    `currency` VARCHAR(191) NOT NULL,
+    `rate` DECIMAL(65, 30) NOT NULL,
+    `effectiveDate` DATETIME(3) NOT NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ExchangeRate_currency_effectiveDate_key`(`currency`, `effectiveDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ExchangeRate` ADD CONSTRAINT `ExchangeRate_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE `TaxCode` (
+    `id` VARCHAR(191) NOT NULL,
+    `code` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `rate` DECIMAL(65, 30) NOT NULL,
+    `isInclusive` BOOLEAN NOT NULL DEFAULT false,
+    `isRecoverable` BOOLEAN NOT NULL DEFAULT true,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `TaxCode_code_key`(`code`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `Item` ADD COLUMN `taxCodeId` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `Supplier` ADD COLUMN `taxCodeId` VARCHAR(191) NULL;
+
+-- AlterTable: existing documents carry no tax, so net is the old total
+ALTER TABLE `PurchaseOrder` ADD COLUMN `netAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    ADD COLUMN `taxAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+UPDATE `PurchaseOrder` SET `netAmount` = `totalAmount`;
+ALTER TABLE `PurchaseOrder` ALTER COLUMN `netAmount` DROP DEFAULT,
+    ALTER COLUMN `taxAmount` DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE `PurchaseOrderLine` ADD COLUMN `taxCodeId` VARCHAR(191) NULL,
+    ADD COLUMN `netAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    ADD COLUMN `taxAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+UPDATE `PurchaseOrderLine` SET `netAmount` = `quantity` * `unitPrice`;
+ALTER TABLE `PurchaseOrderLine` ALTER COLUMN `netAmount` DROP DEFAULT,
+    ALTER COLUMN `taxAmount` DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE `SupplierInvoice` ADD COLUMN `netAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    ADD COLUMN `taxAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+UPDATE `SupplierInvoice` SET `netAmount` = `totalAmount`;
+ALTER TABLE `SupplierInvoice` ALTER COLUMN `netAmount` DROP DEFAULT,
+    ALTER COLUMN `taxAmount` DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE `SupplierInvoiceLine` ADD COLUMN `taxCodeId` VARCHAR(191) NULL,
+    ADD COLUMN `netAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    ADD COLUMN `taxAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+UPDATE `SupplierInvoiceLine` SET `netAmount` = `quantity` * `unitPrice`;
+ALTER TABLE `SupplierInvoiceLine` ALTER COLUMN `netAmount` DROP DEFAULT,
+    ALTER COLUMN `taxAmount` DROP DEFAULT;
+
+-- AddForeignKey
+ALTER TABLE `Item` ADD CONSTRAINT `Item_taxCodeId_fkey` FOREIGN KEY (`taxCodeId`) REFERENCES `TaxCode`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Supplier` ADD CONSTRAINT `Supplier_taxCodeId_fkey` FOREIGN KEY (`taxCodeId`) REFERENCES `TaxCode`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PurchaseOrderLine` ADD CONSTRAINT `PurchaseOrderLine_taxCodeId_fkey` FOREIGN KEY (`taxCodeId`) REFERENCES `TaxCode`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoiceLine` ADD CONSTRAINT `SupplierInvoiceLine_taxCodeId_fkey` FOREIGN KEY (`taxCodeId`) REFERENCES `TaxCode`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,90 @@
+-- AlterTable
+ALTER TABLE `SupplierInvoice` ADD COLUMN `paidAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE `SupplierPayment` (
+    `id` VARCHAR(191) NOT NULL,
+    `paymentNumber` VARCHAR(191) NOT NULL,
+    `supplierId` VARCHAR(191) NOT NULL,
+    `paymentDate` DATETIME(3) NOT NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `currency` VARCHAR(191) NOT NULL,
+    `exchangeRate` DECIMAL(65, 30) NOT NULL,
+    `baseAmount` DECIMAL(65, 30) NOT NULL,
+    `reference` VARCHAR(191) NULL,
+    `remarks` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `SupplierPayment_paymentNumber_key`(`paymentNumber`),
+    INDEX `SupplierPayment_supplierId_idx`(`supplierId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `SupplierCredit` (
+    `id` VARCHAR(191) NOT NULL,
+    `supplierId` VARCHAR(191) NOT NULL,
+    `source` ENUM('OVERPAYMENT', 'CREDIT_NOTE') NOT NULL,
+    `paymentId` VARCHAR(191) NULL,
+    `creditNoteNumber` VARCHAR(191) NULL,
+    `creditDate` DATETIME(3) NOT NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `remaining` DECIMAL(65, 30) NOT NULL,
+    `currency` VARCHAR(191) NOT NULL,
+    `exchangeRate` DECIMAL(65, 30) NOT NULL,
+    `baseAmount` DECIMAL(65, 30) NOT NULL,
+    `reason` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `SupplierCredit_paymentId_key`(`paymentId`),
+    UNIQUE INDEX `SupplierCredit_supplierId_creditNoteNumber_key`(`supplierId`, `creditNoteNumber`),
+    INDEX `SupplierCredit_supplierId_remaining_idx`(`supplierId`, `remaining`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `SupplierInvoiceAllocation` (
+    `id` VARCHAR(191) NOT NULL,
+    `invoiceId` VARCHAR(191) NOT NULL,
+    `paymentId` VARCHAR(191) NULL,
+    `creditId` VARCHAR(191) NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `createdById` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `SupplierInvoiceAllocation_invoiceId_idx`(`invoiceId`),
+    INDEX `SupplierInvoiceAllocation_paymentId_idx`(`paymentId`),
+    INDEX `SupplierInvoiceAllocation_creditId_idx`(`creditId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SupplierPayment` ADD CONSTRAINT `SupplierPayment_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierPayment` ADD CONSTRAINT `SupplierPayment_supplierId_fkey` FOREIGN KEY (`supplierId`) REFERENCES `Supplier`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierCredit` ADD CONSTRAINT `SupplierCredit_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierCredit` ADD CONSTRAINT `SupplierCredit_supplierId_fkey` FOREIGN KEY (`supplierId`) REFERENCES `Supplier`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierCredit` ADD CONSTRAINT `SupplierCredit_paymentId_fkey` FOREIGN KEY (`paymentId`) REFERENCES `SupplierPayment`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoiceAllocation` ADD CONSTRAINT `SupplierInvoiceAllocation_createdById_fkey` FOREIGN KEY (`createdById`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoiceAllocation` ADD CONSTRAINT `SupplierInvoiceAllocation_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `SupplierInvoice`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoiceAllocation` ADD CONSTRAINT `SupplierInvoiceAllocation_paymentId_fkey` FOREIGN KEY (`paymentId`) REFERENCES `SupplierPayment`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SupplierInvoiceAllocation` ADD CONSTRAINT `SupplierInvoiceAllocation_creditId_fkey` FOREIGN KEY (`creditId`) REFERENCES `SupplierCredit`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
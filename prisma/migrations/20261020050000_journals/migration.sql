@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE `AccountMapping` (
+    `id` VARCHAR(191) NOT NULL,
+    `account` ENUM('INVENTORY', 'GOODS_RECEIVED_NOT_INVOICED', 'STOCK_IN_TRANSIT', 'STOCK_ISSUES', 'STOCK_ADJUSTMENT', 'OPENING_BALANCE', 'PURCHASE_PRICE_VARIANCE', 'INPUT_TAX', 'ACCOUNTS_PAYABLE', 'BANK', 'FX_DIFFERENCE') NOT NULL,
+    `categoryId` VARCHAR(191) NULL,
+    `warehouseId` VARCHAR(191) NULL,
+    `movementType` ENUM('OPENING', 'IN', 'OUT', 'ADJUSTMENT') NULL,
+    `accountCode` VARCHAR(191) NOT NULL,
+    `description` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `AccountMapping_account_idx`(`account`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `Journal` (
+    `id` VARCHAR(191) NOT NULL,
+    `sourceType` ENUM('STOCK_MOVEMENT', 'SUPPLIER_INVOICE', 'SUPPLIER_PAYMENT', 'SUPPLIER_CREDIT') NOT NULL,
+    `sourceId` VARCHAR(191) NOT NULL,
+    `entryDate` DATETIME(3) NOT NULL,
+    `description` VARCHAR(191) NOT NULL,
+    `exportedAt` DATETIME(3) NULL,
+    `exportBatchId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `Journal_sourceType_sourceId_key`(`sourceType`, `sourceId`),
+    INDEX `Journal_exportedAt_entryDate_idx`(`exportedAt`, `entryDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `JournalLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `journalId` VARCHAR(191) NOT NULL,
+    `account` ENUM('INVENTORY', 'GOODS_RECEIVED_NOT_INVOICED', 'STOCK_IN_TRANSIT', 'STOCK_ISSUES', 'STOCK_ADJUSTMENT', 'OPENING_BALANCE', 'PURCHASE_PRICE_VARIANCE', 'INPUT_TAX', 'ACCOUNTS_PAYABLE', 'BANK', 'FX_DIFFERENCE') NOT NULL,
+    `categoryId` VARCHAR(191) NULL,
+    `warehouseId` VARCHAR(191) NULL,
+    `movementType` ENUM('OPENING', 'IN', 'OUT', 'ADJUSTMENT') NULL,
+    `accountCode` VARCHAR(191) NULL,
+    `debit` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+    `credit` DECIMAL(65, 30) NOT NULL DEFAULT 0,
+
+    INDEX `JournalLine_journalId_idx`(`journalId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `AccountMapping` ADD CONSTRAINT `AccountMapping_categoryId_fkey` FOREIGN KEY (`categoryId`) REFERENCES `ItemCategory`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `AccountMapping` ADD CONSTRAINT `AccountMapping_warehouseId_fkey` FOREIGN KEY (`warehouseId`) REFERENCES `Warehouse`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `JournalLine` ADD CONSTRAINT `JournalLine_journalId_fkey` FOREIGN KEY (`journalId`) REFERENCES `Journal`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `StockTransferLine` ADD COLUMN `discrepancyCost` DECIMAL(65, 30) NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Journal` MODIFY `sourceType` ENUM('STOCK_MOVEMENT', 'SUPPLIER_INVOICE', 'SUPPLIER_PAYMENT', 'SUPPLIER_CREDIT', 'TRANSFER_DISCREPANCY') NOT NULL;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE `PurchaseOrderLine` ADD COLUMN `invoicedQuantity` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+
+-- Backfill: quantities already on invoices that are not rejected
+UPDATE `PurchaseOrderLine` pol
+SET pol.`invoicedQuantity` = COALESCE((
+    SELECT SUM(sil.`quantity`)
+    FROM `SupplierInvoiceLine` sil
+    JOIN `SupplierInvoice` si ON si.`id` = sil.`invoiceId`
+    WHERE sil.`purchaseOrderLineId` = pol.`id`
+      AND si.`status` <> 'REJECTED'
+), 0);
@@ -14,6 +14,25 @@ import authRouter from "./routes/auth.routes";
 import userRouter from "./routes/user.routes";
 import itemRouter from "./routes/item.routes";
 import warehouseRouter from "./routes/warehouse.routes";
+import transferRouter from "./routes/transfer.routes";
+import adjustmentRouter from "./routes/adjustment.routes";
+import stockCountRouter from "./routes/stockCount.routes";
+import serialRouter from "./routes/serial.routes";
+import requisitionRouter from "./routes/requisition.routes";
+import supplierRouter from "./routes/supplier.routes";
+import purchaseOrderRouter from "./routes/purchaseOrder.routes";
+import goodsReceiptRouter from "./routes/goodsReceipt.routes";
+import supplierInvoiceRouter from "./routes/supplierInvoice.routes";
+import rfqRouter from "./routes/rfq.routes";
+import budgetRouter from "./routes/budget.routes";
+import approvalRouter from "./routes/approval.routes";
+import replenishmentRouter from "./routes/replenishment.routes";
+import exchangeRateRouter from "./routes/exchangeRate.routes";
+import taxCodeRouter from "./routes/taxCode.routes";
+import supplierPaymentRouter from "./routes/supplierPayment.routes";
+import supplierCreditRouter from "./routes/supplierCredit.routes";
+import accountMappingRouter from "./routes/accountMapping.routes";
+import journalRouter from "./routes/journal.routes";
 
 
 const app = express();
@@ -62,6 +81,25 @@ app.use("/api/auth", authRouter);
 app.use("/api/users", userRouter);
 app.use("/api/items", itemRouter);
 app.use("/api/warehouses", warehouseRouter);
+app.use("/api/transfers", transferRouter);
+app.use("/api/adjustments", adjustmentRouter);
+app.use("/api/stock-counts", stockCountRouter);
+app.use("/api/serials", serialRouter);
+app.use("/api/requisitions", requisitionRouter);
+app.use("/api/suppliers", supplierRouter);
+app.use("/api/purchase-orders", purchaseOrderRouter);
+app.use("/api/goods-receipts", goodsReceiptRouter);
+app.use("/api/supplier-invoices", supplierInvoiceRouter);
+app.use("/api/rfqs", rfqRouter);
+app.use("/api/budgets", budgetRouter);
+app.use("/api/approvals", approvalRouter);
+app.use("/api/replenishment", replenishmentRouter);
+app.use("/api/exchange-rates", exchangeRateRouter);
+app.use("/api/tax-codes", taxCodeRouter);
+app.use("/api/supplier-payments", supplierPaymentRouter);
+app.use("/api/supplier-credits", supplierCreditRouter);
+app.use("/api/account-mappings", accountMappingRouter);
+app.use("/api/journals", journalRouter);
 
 
 // Error handler
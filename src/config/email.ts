@@ -12,17 +12,19 @@ export const mailTransporter = nodemailer.createTransport({
   }
 });
 
+//Resolves false when email is not configured and nothing was sent
 export async function sendEmail(options: {
   to: string;
   subject: string;
   text?: string;
   html?: string;
-}) {
+  attachments?: { filename: string; content: string; contentType?: string }[];
+}): Promise<boolean> {
   if (!ENV.EMAIL_USER || !ENV.EMAIL_PASS) {
     console.warn(
       "[email] EMAIL_USER or EMAIL_PASS not set. Skipping sendEmail."
     );
-    return;
+    return false;
   }
 
   const info = await mailTransporter.sendMail({
@@ -30,8 +32,10 @@ export async function sendEmail(options: {
     to: options.to,
     subject: options.subject,
     text: options.text,
-    html: options.html
+    html: options.html,
+    attachments: options.attachments
   });
 
   console.log("[email] Sent email:", info.messageId);
+  return true;
 }
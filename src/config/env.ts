@@ -26,5 +26,52 @@ export const ENV = {
   EMAIL_USER: process.env.EMAIL_USER ?? "",
   EMAIL_PASS: process.env.EMAIL_PASS ?? "",
   EMAIL_FROM: process.env.EMAIL_FROM || process.env.EMAIL_USER || "",
-  EMAIL_SECURE: (process.env.EMAIL_SECURE ?? "false").toLowerCase() === "true"
+  EMAIL_SECURE: (process.env.EMAIL_SECURE ?? "false").toLowerCase() === "true",
+
+  // Buyer name printed on purchase orders sent to suppliers
+  COMPANY_NAME: process.env.COMPANY_NAME ?? "Inventory & Procurement System",
+
+  // Currency the books are kept in; documents in other currencies are
+  // converted with the exchange-rate table
+  BASE_CURRENCY: (process.env.BASE_CURRENCY ?? "USD").trim().toUpperCase(),
+
+  // Stock adjustments above either threshold need ADMIN/FINANCE approval
+  ADJUSTMENT_APPROVAL_QUANTITY: parseFloat(
+    process.env.ADJUSTMENT_APPROVAL_QUANTITY ?? "10"
+  ),
+  ADJUSTMENT_APPROVAL_VALUE: parseFloat(
+    process.env.ADJUSTMENT_APPROVAL_VALUE ?? "1000"
+  ),
+
+  // Goods receipts may exceed the ordered quantity by up to this percentage
+  GRN_OVER_DELIVERY_TOLERANCE_PERCENT: parseFloat(
+    process.env.GRN_OVER_DELIVERY_TOLERANCE_PERCENT ?? "5"
+  ),
+
+  // Three-way match tolerances for supplier invoices
+  INVOICE_PRICE_TOLERANCE_PERCENT: parseFloat(
+    process.env.INVOICE_PRICE_TOLERANCE_PERCENT ?? "2"
+  ),
+  INVOICE_QUANTITY_TOLERANCE_PERCENT: parseFloat(
+    process.env.INVOICE_QUANTITY_TOLERANCE_PERCENT ?? "0"
+  ),
+
+  // What happens to requisitions that exceed the remaining budget:
+  // "BLOCK" refuses them, "ESCALATE" lets only an ADMIN approve them
+  BUDGET_OVERRUN_POLICY:
+    (process.env.BUDGET_OVERRUN_POLICY ?? "ESCALATE").toUpperCase() === "BLOCK"
+      ? "BLOCK"
+      : "ESCALATE",
+
+  // How often the reorder alert digest runs; 0 disables it
+  REORDER_ALERT_INTERVAL_MINUTES: parseInt(
+    process.env.REORDER_ALERT_INTERVAL_MINUTES ?? "60",
+    10
+  ),
+
+  // How often replenishment suggestions are recomputed; 0 disables it
+  REPLENISHMENT_INTERVAL_MINUTES: parseInt(
+    process.env.REPLENISHMENT_INTERVAL_MINUTES ?? "360",
+    10
+  )
 };
@@ -0,0 +1,100 @@
+// src/jobs/reorderAlerts.ts
+import prisma from "../config/prisma";
+import { ENV } from "../config/env";
+import { sendEmail } from "../config/email";
+import { findLowStock } from "../utils/stock";
+
+const ALERT_ROLES = ["PROCUREMENT", "STOREKEEPER"] as const;
+
+//Send one digest of item/warehouse pairs that have newly dropped to or
+//below their reorder level. Each pair is alerted once; the flag is cleared
+//when the pair is restocked above its reorder level, re-arming the alert.
+//Pairs are only flagged once an email has actually gone out, so a run with
+//no recipients or no working mail setup is retried on the next interval.
+export async function runReorderAlerts() {
+  // Re-arm pairs that were restocked since their last alert
+  await prisma.stockLevel.updateMany({
+    where: {
+      lowStockAlertedAt: { not: null },
+      quantity: { gt: prisma.stockLevel.fields.reorderLevel }
+    },
+    data: { lowStockAlertedAt: null }
+  });
+
+  const lowStock = await findLowStock(prisma, { lowStockAlertedAt: null });
+  if (lowStock.length === 0) {
+    return;
+  }
+
+  const recipients = await prisma.user.findMany({
+    where: { role: { in: [...ALERT_ROLES] }, isActive: true },
+    select: { email: true, fullName: true }
+  });
+  if (recipients.length === 0) {
+    console.warn("[reorderAlerts] No active users to alert; will retry next run.");
+    return;
+  }
+
+  const lines = lowStock.map(
+    (level) =>
+      `- ${level.item.name}${level.item.sku ? ` (${level.item.sku})` : ""} @ ${level.warehouse.name}: ` +
+      `${level.quantity} ${level.item.unit} on hand, reorder level ${level.reorderLevel}, ` +
+      `short by ${level.shortfall}`
+  );
+
+  let sent = 0;
+  for (const recipient of recipients) {
+    try {
+      const delivered = await sendEmail({
+        to: recipient.email,
+        subject: `Reorder alert: ${lowStock.length} item(s) at or below reorder level`,
+        text: `Hello ${recipient.fullName},
+
+The following items have reached their reorder level:
+
+${lines.join("\n")}
+
+You will not be alerted again for these items until they are restocked.
+
+Inventory & Procurement System`
+      });
+      if (delivered) sent++;
+    } catch (error) {
+      console.error(
+        `[reorderAlerts] Failed to send alert to ${recipient.email}`,
+        error
+      );
+    }
+  }
+
+  if (sent === 0) {
+    console.warn("[reorderAlerts] No alert could be sent; will retry next run.");
+    return;
+  }
+
+  await prisma.stockLevel.updateMany({
+    where: { id: { in: lowStock.map((level) => level.id) } },
+    data: { lowStockAlertedAt: new Date() }
+  });
+
+  console.log(
+    `[reorderAlerts] Alerted ${sent} user(s) about ${lowStock.length} low stock item(s).`
+  );
+}
+
+//Run the digest on the configured interval
+export function startReorderAlertJob() {
+  const minutes = ENV.REORDER_ALERT_INTERVAL_MINUTES;
+  if (!minutes || minutes <= 0) {
+    console.log("[reorderAlerts] Disabled (REORDER_ALERT_INTERVAL_MINUTES=0).");
+    return;
+  }
+
+  const run = () =>
+    runReorderAlerts().catch((error) =>
+      console.error("[reorderAlerts] Run failed", error)
+    );
+
+  setInterval(run, minutes * 60 * 1000).unref();
+  run();
+}
@@ -0,0 +1,106 @@
+// src/jobs/replenishment.ts
+import prisma from "../config/prisma";
+import { ENV } from "../config/env";
+import { ReplenishmentStatus } from "@prisma/client";
+import { pairKey } from "../utils/stock";
+import { OPEN_PO_STATUSES, computeReplenishmentNeeds } from "../utils/replenishment";
+
+//Recompute the OPEN replenishment suggestions: refresh the ones still
+//needed, add new ones and drop those no longer needed. Confirmed and
+//dismissed suggestions are left alone, and hold back a new suggestion for
+//their pair: a confirmed one until its purchase order is received, closed
+//or cancelled, a dismissed one until both the stock on hand and the
+//suggested quantity have changed.
+export async function runReplenishment() {
+  return prisma.$transaction(async (tx) => {
+    const needs = await computeReplenishmentNeeds(tx);
+
+    const open = await tx.replenishmentSuggestion.findMany({
+      where: { status: ReplenishmentStatus.OPEN }
+    });
+    const openByPair = new Map(
+      open.map((suggestion) => [
+        pairKey(suggestion.itemId, suggestion.warehouseId),
+        suggestion
+      ])
+    );
+
+    //Latest decision per pair wins, so an old dismissal no longer counts
+    //once a later suggestion for the pair was confirmed
+    const decided = await tx.replenishmentSuggestion.findMany({
+      where: {
+        status: { in: [ReplenishmentStatus.CONFIRMED, ReplenishmentStatus.DISMISSED] }
+      },
+      include: { purchaseOrder: { select: { status: true } } },
+      orderBy: { decidedAt: "asc" }
+    });
+    const decidedByPair = new Map(
+      decided.map((suggestion) => [
+        pairKey(suggestion.itemId, suggestion.warehouseId),
+        suggestion
+      ])
+    );
+
+    let created = 0;
+    let updated = 0;
+    let held = 0;
+
+    for (const need of needs) {
+      const key = pairKey(need.itemId, need.warehouseId);
+      const existing = openByPair.get(key);
+
+      if (existing) {
+        await tx.replenishmentSuggestion.update({
+          where: { id: existing.id },
+          data: need
+        });
+        openByPair.delete(key);
+        updated++;
+        continue;
+      }
+
+      const previous = decidedByPair.get(key);
+      const isHeld =
+        previous?.status === ReplenishmentStatus.CONFIRMED
+          ? OPEN_PO_STATUSES.some((status) => status === previous.purchaseOrder?.status)
+          : previous?.status === ReplenishmentStatus.DISMISSED &&
+            (previous.onHand.eq(need.onHand) ||
+              previous.suggestedQuantity.eq(need.suggestedQuantity));
+      if (isHeld) {
+        held++;
+      } else {
+        await tx.replenishmentSuggestion.create({ data: need });
+        created++;
+      }
+    }
+
+    const stale = [...openByPair.values()].map((suggestion) => suggestion.id);
+    if (stale.length > 0) {
+      await tx.replenishmentSuggestion.deleteMany({ where: { id: { in: stale } } });
+    }
+
+    console.log(
+      `[replenishment] ${created} new, ${updated} refreshed, ${stale.length} dropped, ` +
+        `${held} held back by a confirmed or dismissed suggestion.`
+    );
+
+    return { created, updated, removed: stale.length, held };
+  });
+}
+
+//Recompute suggestions on the configured interval
+export function startReplenishmentJob() {
+  const minutes = ENV.REPLENISHMENT_INTERVAL_MINUTES;
+  if (!minutes || minutes <= 0) {
+    console.log("[replenishment] Disabled (REPLENISHMENT_INTERVAL_MINUTES=0).");
+    return;
+  }
+
+  const run = () =>
+    runReplenishment().catch((error) =>
+      console.error("[replenishment] Run failed", error)
+    );
+
+  setInterval(run, minutes * 60 * 1000).unref();
+  run();
+}
@@ -20,4 +20,11 @@ export function errorHandler(
         success: false,
         error: message
     });
-}
\ No newline at end of file
+}
+
+//Build an error that errorHandler will turn into the given status code
+export function createApiError(statusCode: number, message: string): ApiError {
+    const err: ApiError = new Error(message);
+    err.statusCode = statusCode;
+    return err;
+}
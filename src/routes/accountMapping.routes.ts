@@ -0,0 +1,346 @@
+// src/routes/accountMapping.routes.ts
+import { Router, Request, Response } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { JournalAccount, StockMovementType } from "@prisma/client";
+
+const router = Router();
+
+const FINANCE_ROLES = ["ADMIN", "FINANCE"];
+
+const MAPPING_INCLUDE = {
+  category: { select: { id: true, name: true } },
+  warehouse: { select: { id: true, name: true } }
+};
+
+/**
+ * @openapi
+ * /api/account-mappings:
+ *   post:
+ *     tags:
+ *       - Account Mappings
+ *     summary: Map a journal account to an account code in the external ledger.
+ *     description: >
+ *       categoryId, warehouseId and movementType are optional and narrow the
+ *       mapping. When a journal line is exported the most specific mapping
+ *       whose set fields all match it is used (a category match outranks a
+ *       warehouse match, which outranks a movement type match); a mapping
+ *       with none of them set is the default for the account.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - account
+ *               - accountCode
+ *             properties:
+ *               account:
+ *                 type: string
+ *                 enum:
+ *                   - INVENTORY
+ *                   - GOODS_RECEIVED_NOT_INVOICED
+ *                   - STOCK_IN_TRANSIT
+ *                   - STOCK_ISSUES
+ *                   - STOCK_ADJUSTMENT
+ *                   - OPENING_BALANCE
+ *                   - PURCHASE_PRICE_VARIANCE
+ *                   - INPUT_TAX
+ *                   - ACCOUNTS_PAYABLE
+ *                   - BANK
+ *                   - FX_DIFFERENCE
+ *               accountCode:
+ *                 type: string
+ *               categoryId:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *               movementType:
+ *                 type: string
+ *                 enum:
+ *                   - OPENING
+ *                   - IN
+ *                   - OUT
+ *                   - ADJUSTMENT
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Mapping added.
+ *       400:
+ *         description: Validation error.
+ *       409:
+ *         description: The same account and dimensions are already mapped.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { account, accountCode, categoryId, warehouseId, movementType, description } =
+      req.body as {
+        account?: string;
+        accountCode?: string;
+        categoryId?: string;
+        warehouseId?: string;
+        movementType?: string;
+        description?: string;
+      };
+
+    if (!Object.values(JournalAccount).includes(account as any)) {
+      return res.status(400).json({
+        success: false,
+        error: `account must be one of ${Object.values(JournalAccount).join(", ")}.`
+      });
+    }
+
+    if (typeof accountCode !== "string" || !accountCode.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "accountCode is required."
+      });
+    }
+
+    if (
+      movementType !== undefined &&
+      !Object.values(StockMovementType).includes(movementType as any)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `movementType must be one of ${Object.values(StockMovementType).join(", ")}.`
+      });
+    }
+
+    if (categoryId && !(await prisma.itemCategory.findUnique({ where: { id: categoryId } }))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid categoryId."
+      });
+    }
+
+    if (warehouseId && !(await prisma.warehouse.findUnique({ where: { id: warehouseId } }))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid warehouseId."
+      });
+    }
+
+    const dimensions = {
+      account: account as JournalAccount,
+      categoryId: categoryId || null,
+      warehouseId: warehouseId || null,
+      movementType: (movementType as StockMovementType) ?? null
+    };
+
+    //Null columns never collide in a unique index, so duplicates are
+    //checked here
+    const duplicate = await prisma.accountMapping.findFirst({ where: dimensions });
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        error: "This account is already mapped for the same category, warehouse and movement type."
+      });
+    }
+
+    const mapping = await prisma.accountMapping.create({
+      data: {
+        ...dimensions,
+        accountCode: accountCode.trim(),
+        description: description?.trim() || null
+      },
+      include: MAPPING_INCLUDE
+    });
+
+    res.status(201).json({
+      success: true,
+      mapping
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/account-mappings:
+ *   get:
+ *     tags:
+ *       - Account Mappings
+ *     summary: List account mappings.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: account
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account mappings.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { account } = req.query as { account?: string };
+
+    if (account && !Object.values(JournalAccount).includes(account as any)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid account."
+      });
+    }
+
+    const mappings = await prisma.accountMapping.findMany({
+      where: account ? { account: account as JournalAccount } : {},
+      include: MAPPING_INCLUDE,
+      orderBy: [{ account: "asc" }, { createdAt: "asc" }]
+    });
+
+    res.json({
+      success: true,
+      mappings
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/account-mappings/{id}:
+ *   patch:
+ *     tags:
+ *       - Account Mappings
+ *     summary: Change the account code or description of a mapping.
+ *     description: Journals already exported keep the code they were exported with.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               accountCode:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Mapping updated.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Mapping not found.
+ */
+router.patch(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { accountCode, description } = req.body as {
+      accountCode?: string;
+      description?: string | null;
+    };
+
+    const data: { accountCode?: string; description?: string | null } = {};
+    if (accountCode !== undefined) {
+      if (typeof accountCode !== "string" || !accountCode.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: "accountCode must be a non-empty string."
+        });
+      }
+      data.accountCode = accountCode.trim();
+    }
+    if (description !== undefined) {
+      data.description = description?.trim() || null;
+    }
+
+    const updated = await prisma.accountMapping.updateMany({
+      where: { id: req.params.id },
+      data
+    });
+
+    if (updated.count === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Account mapping not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      mapping: await prisma.accountMapping.findUnique({
+        where: { id: req.params.id },
+        include: MAPPING_INCLUDE
+      })
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/account-mappings/{id}:
+ *   delete:
+ *     tags:
+ *       - Account Mappings
+ *     summary: Delete an account mapping.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Mapping deleted.
+ *       404:
+ *         description: Mapping not found.
+ */
+router.delete(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const deleted = await prisma.accountMapping.deleteMany({
+      where: { id: req.params.id }
+    });
+
+    if (deleted.count === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Account mapping not found."
+      });
+    }
+
+    res.json({
+      success: true
+    });
+  }
+);
+
+export default router;
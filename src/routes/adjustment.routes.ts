@@ -0,0 +1,665 @@
+// src/routes/adjustment.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import { ENV } from "../config/env";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import {
+  AdjustmentReason,
+  AdjustmentStatus,
+  ApprovalDocumentType,
+  ApprovalRequestStatus,
+  Prisma,
+  SerialStatus,
+  StockMovementType,
+  UserRole
+} from "@prisma/client";
+import { adjustStock } from "../utils/stock";
+import {
+  moveSerials,
+  normaliseSerials,
+  receiveSerials,
+  validateSerials
+} from "../utils/serials";
+import {
+  addLotStock,
+  removeLotStock,
+  toLotReceipt,
+  validateLotPicks,
+  validateLotReceipt
+} from "../utils/lots";
+import {
+  decideApproval,
+  openApproval,
+  planApproval
+} from "../utils/approvals";
+
+const router = Router();
+
+const INVENTORY_ROLES = [
+  "ADMIN",
+  "STOREKEEPER",
+  "PROCUREMENT"
+];
+
+const VIEWER_ROLES = [...INVENTORY_ROLES, "FINANCE"];
+
+const ADJUSTMENT_INCLUDE = {
+  item: true,
+  warehouse: true
+};
+
+//True when an adjustment is large enough to need a second pair of eyes.
+//Only used when no approval rule covers the adjustment.
+function requiresApproval(quantity: number, value: number): boolean {
+  return (
+    Math.abs(quantity) > ENV.ADJUSTMENT_APPROVAL_QUANTITY ||
+    value > ENV.ADJUSTMENT_APPROVAL_VALUE
+  );
+}
+
+//Post the ADJUSTMENT movement for an approved adjustment. For trackable
+//items the named serials are brought into stock or written off as well.
+async function postAdjustment(
+  tx: Prisma.TransactionClient,
+  adjustment: {
+    id: string;
+    itemId: string;
+    warehouseId: string;
+    quantity: Prisma.Decimal;
+    unitCost: Prisma.Decimal | null;
+    reasonCode: AdjustmentReason;
+    remarks: string;
+    serialNumbers: Prisma.JsonValue;
+    lotNumber: string | null;
+    expiryDate: Date | null;
+    item: { isTrackable: boolean; isLotControlled: boolean };
+  },
+  userId: string
+) {
+  const remarks = `${adjustment.reasonCode}: ${adjustment.remarks}`;
+  const posting = {
+    itemId: adjustment.itemId,
+    warehouseId: adjustment.warehouseId,
+    quantity: adjustment.quantity,
+    unitCost: adjustment.unitCost,
+    movementType: StockMovementType.ADJUSTMENT,
+    referenceType: "ADJUSTMENT",
+    referenceId: adjustment.id,
+    remarks,
+    createdById: userId
+  };
+
+  if (!adjustment.item.isLotControlled) {
+    await adjustStock(tx, posting);
+  } else if (adjustment.quantity.gt(0)) {
+    await addLotStock(
+      tx,
+      posting,
+      toLotReceipt(adjustment.lotNumber!, adjustment.expiryDate)
+    );
+  } else {
+    // Named lot, or first-expired-first-out when none was given
+    const quantity = adjustment.quantity.negated();
+    await removeLotStock(
+      tx,
+      { ...posting, quantity },
+      adjustment.lotNumber
+        ? [{ lotNumber: adjustment.lotNumber, quantity: quantity.toNumber() }]
+        : undefined
+    );
+  }
+
+  if (!adjustment.item.isTrackable) {
+    return;
+  }
+
+  const serialPosting = {
+    itemId: adjustment.itemId,
+    serialNumbers: adjustment.serialNumbers as string[],
+    referenceType: "ADJUSTMENT",
+    referenceId: adjustment.id,
+    remarks,
+    createdById: userId
+  };
+
+  if (adjustment.quantity.gt(0)) {
+    await receiveSerials(tx, adjustment.warehouseId, serialPosting);
+  } else {
+    await moveSerials(
+      tx,
+      { status: SerialStatus.IN_STOCK, warehouseId: adjustment.warehouseId },
+      { status: SerialStatus.WRITTEN_OFF, warehouseId: null },
+      serialPosting
+    );
+  }
+}
+
+/**
+ * @openapi
+ * /api/adjustments:
+ *   post:
+ *     tags:
+ *       - Adjustments
+ *     summary: Post a stock adjustment.
+ *     description: >
+ *       Positive quantities add stock, negative quantities remove it.
+ *       Adjustments that need no approval under the approval matrix are
+ *       applied immediately; the others stay PENDING_APPROVAL until every
+ *       step approves. Without a matching rule, adjustments above the
+ *       configured quantity/value thresholds need one FINANCE approval.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemId
+ *               - warehouseId
+ *               - quantity
+ *               - reasonCode
+ *               - remarks
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *               quantity:
+ *                 type: number
+ *               unitCost:
+ *                 type: number
+ *                 description: >
+ *                   Defaults to the current average cost of the item in the
+ *                   warehouse, which also values the adjustment for approval.
+ *               reasonCode:
+ *                 type: string
+ *                 enum:
+ *                   - DAMAGE
+ *                   - LOSS
+ *                   - FOUND
+ *                   - DATA_CORRECTION
+ *               remarks:
+ *                 type: string
+ *               serialNumbers:
+ *                 type: array
+ *                 description: >
+ *                   Required for trackable items, one per unit: serials found
+ *                   (positive) or written off (negative).
+ *                 items:
+ *                   type: string
+ *               lotNumber:
+ *                 type: string
+ *                 description: >
+ *                   Lot-controlled items. Required for positive adjustments;
+ *                   negative ones use first-expired-first-out when omitted.
+ *               expiryDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       201:
+ *         description: Adjustment created (applied or pending approval).
+ *       400:
+ *         description: Validation error or insufficient stock.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const {
+      itemId,
+      warehouseId,
+      quantity,
+      unitCost,
+      reasonCode,
+      remarks,
+      serialNumbers,
+      lotNumber,
+      expiryDate
+    } = req.body as {
+      itemId?: string;
+      warehouseId?: string;
+      quantity?: number;
+      unitCost?: number;
+      reasonCode?: string;
+      remarks?: string;
+      serialNumbers?: string[];
+      lotNumber?: string;
+      expiryDate?: string;
+    };
+
+    if (!itemId || !warehouseId || quantity === undefined || !reasonCode) {
+      return res.status(400).json({
+        success: false,
+        error: "itemId, warehouseId, quantity and reasonCode are required."
+      });
+    }
+
+    if (!remarks || !remarks.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "remarks are required for stock adjustments."
+      });
+    }
+
+    if (typeof quantity !== "number" || !quantity) {
+      return res.status(400).json({
+        success: false,
+        error: "quantity must be a non-zero number."
+      });
+    }
+
+    if (unitCost !== undefined && (typeof unitCost !== "number" || unitCost < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "unitCost cannot be negative."
+      });
+    }
+
+    if (!Object.values(AdjustmentReason).includes(reasonCode as any)) {
+      return res.status(400).json({
+        success: false,
+        error: `reasonCode must be one of ${Object.values(AdjustmentReason).join(", ")}.`
+      });
+    }
+
+    const item = await prisma.item.findUnique({ where: { id: itemId } });
+    if (!item || !item.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive itemId."
+      });
+    }
+
+    const serialError = validateSerials(
+      item,
+      Math.abs(quantity),
+      serialNumbers,
+      "body"
+    );
+    if (serialError) {
+      return res.status(400).json({
+        success: false,
+        error: serialError
+      });
+    }
+
+    // Negative lot adjustments may name the lot; positive ones must
+    const lotError =
+      item.isLotControlled && quantity < 0
+        ? validateLotPicks(
+            item,
+            -quantity,
+            lotNumber === undefined
+              ? undefined
+              : [{ lotNumber, quantity: -quantity }],
+            "body"
+          )
+        : validateLotReceipt(item, lotNumber, expiryDate, "body");
+    if (lotError) {
+      return res.status(400).json({
+        success: false,
+        error: lotError
+      });
+    }
+
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: warehouseId }
+    });
+    if (!warehouse || !warehouse.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive warehouseId."
+      });
+    }
+
+    //Valued on the server when no unit cost is given, so leaving it out
+    //cannot slip an adjustment past the value threshold
+    const level = await prisma.stockLevel.findUnique({
+      where: { itemId_warehouseId: { itemId, warehouseId } },
+      select: { averageCost: true }
+    });
+    const value =
+      Math.abs(quantity) * (unitCost ?? level?.averageCost.toNumber() ?? 0);
+
+    const approvalContext = {
+      documentType: ApprovalDocumentType.STOCK_ADJUSTMENT,
+      department: null,
+      categoryIds: [item.categoryId],
+      amount: value
+    };
+    const plan = await planApproval(
+      prisma,
+      approvalContext,
+      requiresApproval(quantity, value) ? [{ approverRole: UserRole.FINANCE }] : []
+    );
+    const needsApproval = plan.steps.length > 0;
+
+    try {
+      const adjustment = await prisma.$transaction(async (tx) => {
+        const created = await tx.stockAdjustment.create({
+          data: {
+            itemId,
+            warehouseId,
+            quantity,
+            unitCost: unitCost ?? null,
+            reasonCode: reasonCode as AdjustmentReason,
+            remarks: remarks.trim(),
+            serialNumbers: item.isTrackable
+              ? normaliseSerials(serialNumbers)
+              : Prisma.DbNull,
+            lotNumber: lotNumber?.trim() || null,
+            expiryDate: quantity > 0 && expiryDate ? new Date(expiryDate) : null,
+            status: needsApproval
+              ? AdjustmentStatus.PENDING_APPROVAL
+              : AdjustmentStatus.APPROVED,
+            createdById: req.user!.id
+          },
+          include: ADJUSTMENT_INCLUDE
+        });
+
+        if (needsApproval) {
+          await openApproval(
+            tx,
+            { ...approvalContext, documentId: created.id, requestedById: req.user!.id },
+            plan
+          );
+        } else {
+          await postAdjustment(tx, created, req.user!.id);
+        }
+
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        adjustment
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/adjustments:
+ *   get:
+ *     tags:
+ *       - Adjustments
+ *     summary: List stock adjustments.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - PENDING_APPROVAL
+ *             - APPROVED
+ *             - REJECTED
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of adjustments.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { status, warehouseId, itemId } = req.query as {
+      status?: string;
+      warehouseId?: string;
+      itemId?: string;
+    };
+
+    const where: any = {};
+
+    if (status) {
+      if (!Object.values(AdjustmentStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+    if (warehouseId) where.warehouseId = warehouseId;
+    if (itemId) where.itemId = itemId;
+
+    const adjustments = await prisma.stockAdjustment.findMany({
+      where,
+      include: ADJUSTMENT_INCLUDE,
+      orderBy: { createdAt: "desc" }
+    });
+
+    res.json({
+      success: true,
+      adjustments
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/adjustments/{id}/approve:
+ *   post:
+ *     tags:
+ *       - Adjustments
+ *     summary: Approve the current approval step; the last step applies the adjustment to stock.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Adjustment approved and posted.
+ *       400:
+ *         description: Insufficient stock to apply the adjustment.
+ *       403:
+ *         description: Caller is not the current step's approver or created the adjustment.
+ *       404:
+ *         description: Adjustment not found.
+ *       409:
+ *         description: Adjustment is not pending.
+ */
+router.post(
+  "/:id/approve",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { remarks } = req.body as { remarks?: string };
+
+    const adjustment = await prisma.stockAdjustment.findUnique({
+      where: { id: req.params.id },
+      include: { item: true }
+    });
+
+    if (!adjustment) {
+      return res.status(404).json({
+        success: false,
+        error: "Adjustment not found."
+      });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id },
+      select: { id: true, role: true, department: true }
+    });
+
+    try {
+      const approved = await prisma.$transaction(async (tx) => {
+        const outcome = await decideApproval(
+          tx,
+          ApprovalDocumentType.STOCK_ADJUSTMENT,
+          adjustment.id,
+          user,
+          true,
+          remarks || null
+        );
+
+        // Earlier steps only record the decision; the last one posts
+        if (outcome.status !== ApprovalRequestStatus.APPROVED) {
+          return tx.stockAdjustment.findUniqueOrThrow({
+            where: { id: adjustment.id },
+            include: ADJUSTMENT_INCLUDE
+          });
+        }
+
+        const updated = await tx.stockAdjustment.updateMany({
+          where: {
+            id: adjustment.id,
+            status: AdjustmentStatus.PENDING_APPROVAL
+          },
+          data: {
+            status: AdjustmentStatus.APPROVED,
+            decidedById: user.id,
+            decidedAt: new Date(),
+            decisionRemarks: remarks || null
+          }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "Only pending adjustments can be approved.");
+        }
+
+        await postAdjustment(tx, adjustment, user.id);
+
+        return tx.stockAdjustment.findUniqueOrThrow({
+          where: { id: adjustment.id },
+          include: ADJUSTMENT_INCLUDE
+        });
+      });
+
+      res.json({
+        success: true,
+        adjustment: approved
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/adjustments/{id}/reject:
+ *   post:
+ *     tags:
+ *       - Adjustments
+ *     summary: Reject a pending adjustment at its current approval step.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Adjustment rejected.
+ *       403:
+ *         description: Caller is not the current step's approver or created the adjustment.
+ *       409:
+ *         description: Adjustment is not pending.
+ */
+router.post(
+  "/:id/reject",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { remarks } = req.body as { remarks?: string };
+
+    if (!remarks || !remarks.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "remarks are required when rejecting an adjustment."
+      });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id },
+      select: { id: true, role: true, department: true }
+    });
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await decideApproval(
+          tx,
+          ApprovalDocumentType.STOCK_ADJUSTMENT,
+          req.params.id,
+          user,
+          false,
+          remarks.trim()
+        );
+
+        const updated = await tx.stockAdjustment.updateMany({
+          where: { id: req.params.id, status: AdjustmentStatus.PENDING_APPROVAL },
+          data: {
+            status: AdjustmentStatus.REJECTED,
+            decidedById: user.id,
+            decidedAt: new Date(),
+            decisionRemarks: remarks.trim()
+          }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "Only pending adjustments can be rejected.");
+        }
+      });
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
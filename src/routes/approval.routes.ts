@@ -0,0 +1,587 @@
+// src/routes/approval.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import {
+  ApprovalDocumentType,
+  ApprovalRequestStatus,
+  Prisma,
+  UserRole
+} from "@prisma/client";
+import {
+  APPROVAL_REQUEST_INCLUDE,
+  approvalTrail,
+  canActOnStep
+} from "../utils/approvals";
+
+const router = Router();
+
+const ADMIN_ROLES = ["ADMIN"];
+
+const RULE_INCLUDE = {
+  category: true,
+  steps: {
+    include: { approverUser: { select: { id: true, fullName: true, email: true } } },
+    orderBy: { sequence: "asc" as const }
+  }
+};
+
+interface RuleBody {
+  name?: string;
+  documentType?: string;
+  department?: string | null;
+  categoryId?: string | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  priority?: number;
+  isActive?: boolean;
+  steps?: { approverRole?: string; approverUserId?: string; minAmount?: number }[];
+}
+
+const isAmount = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "number" && value >= 0);
+
+//Validate a rule body and turn it into create data (steps included).
+//Returns an error message instead when the body is invalid.
+async function buildRuleData(
+  body: RuleBody
+): Promise<{ data?: Prisma.ApprovalRuleCreateInput; error?: string }> {
+  const { name, documentType, department, categoryId, minAmount, maxAmount, priority, steps } =
+    body;
+
+  if (!name || !name.trim()) {
+    return { error: "name is required." };
+  }
+
+  if (!Object.values(ApprovalDocumentType).includes(documentType as any)) {
+    return {
+      error: `documentType must be one of ${Object.values(ApprovalDocumentType).join(", ")}.`
+    };
+  }
+
+  if (!isAmount(minAmount) || !isAmount(maxAmount)) {
+    return { error: "minAmount and maxAmount must be non-negative numbers." };
+  }
+  if (typeof minAmount === "number" && typeof maxAmount === "number" && maxAmount <= minAmount) {
+    return { error: "maxAmount must be greater than minAmount." };
+  }
+
+  if (priority !== undefined && !Number.isInteger(priority)) {
+    return { error: "priority must be a whole number." };
+  }
+
+  if (categoryId) {
+    const category = await prisma.itemCategory.findUnique({ where: { id: categoryId } });
+    if (!category || !category.isActive) {
+      return { error: "Invalid or inactive categoryId." };
+    }
+  }
+
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return { error: "steps must be a non-empty array." };
+  }
+
+  for (const [index, step] of steps.entries()) {
+    if (!step || typeof step !== "object" || !step.approverRole === !step.approverUserId) {
+      return {
+        error: `steps[${index}] needs exactly one of approverRole or approverUserId.`
+      };
+    }
+    if (step.approverRole && !Object.values(UserRole).includes(step.approverRole as any)) {
+      return {
+        error: `steps[${index}].approverRole must be one of ${Object.values(UserRole).join(", ")}.`
+      };
+    }
+    if (!isAmount(step.minAmount)) {
+      return { error: `steps[${index}].minAmount must be a non-negative number.` };
+    }
+  }
+
+  const userIds = [
+    ...new Set(steps.filter((step) => step.approverUserId).map((step) => step.approverUserId!))
+  ];
+  const activeUsers = await prisma.user.count({
+    where: { id: { in: userIds }, isActive: true }
+  });
+  if (activeUsers !== userIds.length) {
+    return { error: "One or more approverUserIds are invalid or inactive." };
+  }
+
+  return {
+    data: {
+      name: name.trim(),
+      documentType: documentType as ApprovalDocumentType,
+      department: department?.trim() || null,
+      category: categoryId ? { connect: { id: categoryId } } : undefined,
+      minAmount: minAmount ?? null,
+      maxAmount: maxAmount ?? null,
+      priority: priority ?? 0,
+      isActive: body.isActive ?? true,
+      steps: {
+        create: steps.map((step, index) => ({
+          sequence: index + 1,
+          approverRole: (step.approverRole as UserRole) ?? null,
+          approverUser: step.approverUserId
+            ? { connect: { id: step.approverUserId } }
+            : undefined,
+          minAmount: step.minAmount ?? null
+        }))
+      }
+    }
+  };
+}
+
+//Attach the document each approval is for, so approvers can decide
+//without access to every document list
+async function withDocuments<T extends { documentType: ApprovalDocumentType; documentId: string }>(
+  requests: T[]
+) {
+  const idsOf = (type: ApprovalDocumentType) =>
+    requests.filter((r) => r.documentType === type).map((r) => r.documentId);
+
+  const requisitions = await prisma.requisition.findMany({
+    where: { id: { in: idsOf(ApprovalDocumentType.REQUISITION) } },
+    include: { lines: { include: { item: true } } }
+  });
+  const purchaseOrders = await prisma.purchaseOrder.findMany({
+    where: { id: { in: idsOf(ApprovalDocumentType.PURCHASE_ORDER) } },
+    include: { supplier: true, lines: { include: { item: true } } }
+  });
+  const adjustments = await prisma.stockAdjustment.findMany({
+    where: { id: { in: idsOf(ApprovalDocumentType.STOCK_ADJUSTMENT) } },
+    include: { item: true, warehouse: true }
+  });
+
+  const documents = new Map<string, unknown>(
+    [...requisitions, ...purchaseOrders, ...adjustments].map((d) => [d.id, d])
+  );
+
+  return requests.map((request) => ({
+    ...request,
+    document: documents.get(request.documentId) ?? null
+  }));
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ApprovalRuleInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - documentType
+ *         - steps
+ *       properties:
+ *         name:
+ *           type: string
+ *         documentType:
+ *           type: string
+ *           enum:
+ *             - REQUISITION
+ *             - PURCHASE_ORDER
+ *             - STOCK_ADJUSTMENT
+ *         department:
+ *           type: string
+ *           description: Only documents of this department; omit for all.
+ *         categoryId:
+ *           type: string
+ *           description: Only documents with a line in this category; omit for all.
+ *         minAmount:
+ *           type: number
+ *           description: Inclusive lower bound of the amount band.
+ *         maxAmount:
+ *           type: number
+ *           description: Exclusive upper bound of the amount band.
+ *         priority:
+ *           type: integer
+ *           description: Higher wins when several rules match.
+ *         isActive:
+ *           type: boolean
+ *         steps:
+ *           type: array
+ *           description: >
+ *             Approvers in order. DEPARTMENT_MANAGER means a manager of the
+ *             document's department.
+ *           items:
+ *             type: object
+ *             properties:
+ *               approverRole:
+ *                 type: string
+ *               approverUserId:
+ *                 type: string
+ *               minAmount:
+ *                 type: number
+ *                 description: Step only applies when the amount exceeds this.
+ */
+
+/**
+ * @openapi
+ * /api/approvals/rules:
+ *   post:
+ *     tags:
+ *       - Approvals
+ *     summary: Create an approval rule (ADMIN only).
+ *     description: >
+ *       Documents with no matching rule use the built-in default: the
+ *       department manager for requisitions, FINANCE for purchase orders
+ *       and for adjustments above the configured thresholds.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApprovalRuleInput'
+ *     responses:
+ *       201:
+ *         description: Rule created.
+ *       400:
+ *         description: Validation error.
+ */
+router.post(
+  "/rules",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(ADMIN_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { data, error } = await buildRuleData(req.body as RuleBody);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    try {
+      const rule = await prisma.approvalRule.create({
+        data: data!,
+        include: RULE_INCLUDE
+      });
+
+      res.status(201).json({
+        success: true,
+        rule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/approvals/rules:
+ *   get:
+ *     tags:
+ *       - Approvals
+ *     summary: List approval rules (ADMIN only).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: documentType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of rules.
+ */
+router.get(
+  "/rules",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(ADMIN_ROLES),
+  async (req: Request, res: Response) => {
+    const { documentType, isActive } = req.query as {
+      documentType?: string;
+      isActive?: string;
+    };
+
+    const where: any = {};
+
+    if (documentType) {
+      if (!Object.values(ApprovalDocumentType).includes(documentType as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid documentType."
+        });
+      }
+      where.documentType = documentType;
+    }
+    if (isActive !== undefined) where.isActive = isActive === "true";
+
+    const rules = await prisma.approvalRule.findMany({
+      where,
+      include: RULE_INCLUDE,
+      orderBy: [{ documentType: "asc" }, { priority: "desc" }, { name: "asc" }]
+    });
+
+    res.json({
+      success: true,
+      rules
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/approvals/rules/{id}:
+ *   put:
+ *     tags:
+ *       - Approvals
+ *     summary: Replace an approval rule and its steps (ADMIN only).
+ *     description: Approvals already in progress keep the steps they started with.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApprovalRuleInput'
+ *     responses:
+ *       200:
+ *         description: Rule updated.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Rule not found.
+ */
+router.put(
+  "/rules/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(ADMIN_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const existing = await prisma.approvalRule.findUnique({
+      where: { id: req.params.id }
+    });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: "Approval rule not found."
+      });
+    }
+
+    const { data, error } = await buildRuleData(req.body as RuleBody);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    try {
+      const rule = await prisma.$transaction(async (tx) => {
+        await tx.approvalRuleStep.deleteMany({ where: { ruleId: existing.id } });
+        return tx.approvalRule.update({
+          where: { id: existing.id },
+          data: {
+            ...data!,
+            category: data!.category ?? { disconnect: true }
+          },
+          include: RULE_INCLUDE
+        });
+      });
+
+      res.json({
+        success: true,
+        rule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/approvals/rules/{id}:
+ *   delete:
+ *     tags:
+ *       - Approvals
+ *     summary: Delete an approval rule (ADMIN only).
+ *     description: The trail of approvals that used it is kept.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule deleted.
+ *       404:
+ *         description: Rule not found.
+ */
+router.delete(
+  "/rules/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(ADMIN_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await prisma.approvalRule.delete({ where: { id: req.params.id } });
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2025"
+      ) {
+        return res.status(404).json({
+          success: false,
+          error: "Approval rule not found."
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/approvals/pending:
+ *   get:
+ *     tags:
+ *       - Approvals
+ *     summary: Approvals waiting for the caller.
+ *     description: >
+ *       Pending approvals whose current step the caller may decide, each
+ *       with its document. ADMIN sees every pending approval.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: documentType
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pending approvals.
+ */
+router.get(
+  "/pending",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  async (req: Request, res: Response) => {
+    const { documentType } = req.query as { documentType?: string };
+
+    const where: any = { status: ApprovalRequestStatus.PENDING };
+    if (documentType) {
+      if (!Object.values(ApprovalDocumentType).includes(documentType as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid documentType."
+        });
+      }
+      where.documentType = documentType;
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id },
+      select: { id: true, role: true, department: true }
+    });
+
+    const requests = await prisma.approvalRequest.findMany({
+      where,
+      include: APPROVAL_REQUEST_INCLUDE,
+      orderBy: { createdAt: "asc" }
+    });
+
+    const approvals = requests.filter((request) => {
+      const step = request.steps.find((s) => s.sequence === request.currentStep);
+      return (
+        step !== undefined &&
+        request.requestedById !== user.id &&
+        canActOnStep(user, step, request.department)
+      );
+    });
+
+    res.json({
+      success: true,
+      approvals: await withDocuments(approvals)
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/approvals/{documentType}/{documentId}:
+ *   get:
+ *     tags:
+ *       - Approvals
+ *     summary: Approval trail of a document.
+ *     description: Every approval run of the document with each step's decision.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: documentType
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Approval trail.
+ *       400:
+ *         description: Invalid documentType.
+ */
+router.get(
+  "/:documentType/:documentId",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  async (req: Request, res: Response) => {
+    const { documentType, documentId } = req.params;
+
+    if (!Object.values(ApprovalDocumentType).includes(documentType as any)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid documentType."
+      });
+    }
+
+    res.json({
+      success: true,
+      approvals: await approvalTrail(
+        prisma,
+        documentType as ApprovalDocumentType,
+        documentId
+      )
+    });
+  }
+);
+
+export default router;
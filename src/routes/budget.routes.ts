@@ -0,0 +1,583 @@
+// src/routes/budget.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { Prisma } from "@prisma/client";
+import { budgetSpend } from "../utils/budgets";
+
+const router = Router();
+
+const MANAGER_ROLES = ["ADMIN", "FINANCE"];
+
+const REPORT_ROLES = [...MANAGER_ROLES, "DEPARTMENT_MANAGER"];
+
+const BUDGET_INCLUDE = {
+  category: true,
+  createdBy: { select: { id: true, fullName: true, email: true } }
+};
+
+interface BudgetBody {
+  department?: string;
+  categoryId?: string | null;
+  periodStart?: string;
+  periodEnd?: string;
+  amount?: number;
+  remarks?: string;
+}
+
+//Department managers only ever see their own department's budgets
+async function departmentScope(userId: string): Promise<Prisma.BudgetWhereInput> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { role: true, department: true }
+  });
+  if (user.role !== "DEPARTMENT_MANAGER") {
+    return {};
+  }
+  return { department: user.department ?? "" };
+}
+
+function validatePeriod(periodStart: Date, periodEnd: Date): string | null {
+  if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime())) {
+    return "periodStart and periodEnd must be valid dates.";
+  }
+  if (periodEnd <= periodStart) {
+    return "periodEnd must be after periodStart.";
+  }
+  return null;
+}
+
+//Another budget for the same department and category whose period overlaps
+function findOverlap(
+  department: string,
+  categoryId: string | null,
+  periodStart: Date,
+  periodEnd: Date,
+  excludeId?: string
+) {
+  return prisma.budget.findFirst({
+    where: {
+      department,
+      categoryId,
+      periodStart: { lte: periodEnd },
+      periodEnd: { gte: periodStart },
+      ...(excludeId ? { id: { not: excludeId } } : {})
+    }
+  });
+}
+
+async function withSpend<T extends Prisma.BudgetGetPayload<{}>>(budget: T) {
+  const spend = await budgetSpend(prisma, budget);
+  return {
+    ...budget,
+    ...spend,
+    utilisationPercent: budget.amount.isZero()
+      ? null
+      : spend.committed
+          .plus(spend.actual)
+          .div(budget.amount)
+          .times(100)
+          .toDecimalPlaces(2)
+  };
+}
+
+/**
+ * @openapi
+ * /api/budgets:
+ *   post:
+ *     tags:
+ *       - Budgets
+ *     summary: Set a department budget for a period (ADMIN or FINANCE).
+ *     description: >
+ *       Leave categoryId out for a budget covering every expense category.
+ *       Budgets for the same department and category may not overlap.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - department
+ *               - periodStart
+ *               - periodEnd
+ *               - amount
+ *             properties:
+ *               department:
+ *                 type: string
+ *               categoryId:
+ *                 type: string
+ *               periodStart:
+ *                 type: string
+ *                 format: date
+ *               periodEnd:
+ *                 type: string
+ *                 format: date
+ *               amount:
+ *                 type: number
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Budget created.
+ *       400:
+ *         description: Validation error.
+ *       409:
+ *         description: Overlaps an existing budget.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { department, categoryId, periodStart, periodEnd, amount, remarks } =
+      req.body as BudgetBody;
+
+    if (!department || !department.trim() || !periodStart || !periodEnd) {
+      return res.status(400).json({
+        success: false,
+        error: "department, periodStart and periodEnd are required."
+      });
+    }
+
+    if (typeof amount !== "number" || amount < 0) {
+      return res.status(400).json({
+        success: false,
+        error: "amount must be a non-negative number."
+      });
+    }
+
+    const start = new Date(periodStart);
+    const end = new Date(periodEnd);
+    const periodError = validatePeriod(start, end);
+    if (periodError) {
+      return res.status(400).json({
+        success: false,
+        error: periodError
+      });
+    }
+
+    if (categoryId) {
+      const category = await prisma.itemCategory.findUnique({
+        where: { id: categoryId }
+      });
+      if (!category || !category.isActive) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid or inactive categoryId."
+        });
+      }
+    }
+
+    const overlap = await findOverlap(department.trim(), categoryId || null, start, end);
+    if (overlap) {
+      return res.status(409).json({
+        success: false,
+        error: "A budget for this department and category already covers part of this period."
+      });
+    }
+
+    try {
+      const budget = await prisma.budget.create({
+        data: {
+          department: department.trim(),
+          categoryId: categoryId || null,
+          periodStart: start,
+          periodEnd: end,
+          amount,
+          remarks: remarks || null,
+          createdById: req.user!.id
+        },
+        include: BUDGET_INCLUDE
+      });
+
+      res.status(201).json({
+        success: true,
+        budget
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/budgets:
+ *   get:
+ *     tags:
+ *       - Budgets
+ *     summary: List budgets.
+ *     description: Department managers only see their own department.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: activeOn
+ *         description: Only budgets whose period includes this date.
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: List of budgets.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(REPORT_ROLES),
+  async (req: Request, res: Response) => {
+    const { department, categoryId, activeOn } = req.query as {
+      department?: string;
+      categoryId?: string;
+      activeOn?: string;
+    };
+
+    const where: any = {};
+
+    if (department) where.department = department;
+    if (categoryId) where.categoryId = categoryId;
+    if (activeOn) {
+      const on = new Date(activeOn);
+      if (isNaN(on.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: "activeOn must be a valid date."
+        });
+      }
+      where.periodStart = { lte: on };
+      where.periodEnd = { gte: on };
+    }
+
+    const budgets = await prisma.budget.findMany({
+      where: { AND: [where, await departmentScope(req.user!.id)] },
+      include: BUDGET_INCLUDE,
+      orderBy: [{ department: "asc" }, { periodStart: "desc" }]
+    });
+
+    res.json({
+      success: true,
+      budgets
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/budgets/report:
+ *   get:
+ *     tags:
+ *       - Budgets
+ *     summary: Budget vs commitment vs actual for the budgets in force.
+ *     description: >
+ *       Commitments are approved purchase orders not yet invoiced; actuals
+ *       are matched invoices dated in the budget period. remaining is the
+ *       budget less both. Department managers only see their own department.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: asOf
+ *         description: Report the budgets in force on this date (default today).
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: overOnly
+ *         description: Only budgets with nothing remaining.
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Budget report.
+ */
+router.get(
+  "/report",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(REPORT_ROLES),
+  async (req: Request, res: Response) => {
+    const { department, asOf, overOnly } = req.query as {
+      department?: string;
+      asOf?: string;
+      overOnly?: string;
+    };
+
+    const on = asOf ? new Date(asOf) : new Date();
+    if (isNaN(on.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "asOf must be a valid date."
+      });
+    }
+
+    const where: Prisma.BudgetWhereInput = {
+      periodStart: { lte: on },
+      periodEnd: { gte: on }
+    };
+    if (department) where.department = department;
+
+    const budgets = await prisma.budget.findMany({
+      where: { AND: [where, await departmentScope(req.user!.id)] },
+      include: { category: true },
+      orderBy: [{ department: "asc" }, { categoryId: "asc" }]
+    });
+
+    let rows = [];
+    for (const budget of budgets) {
+      rows.push(await withSpend(budget));
+    }
+    if (overOnly === "true") {
+      rows = rows.filter((row) => row.remaining.lte(0));
+    }
+
+    const zero = new Prisma.Decimal(0);
+    res.json({
+      success: true,
+      asOf: on,
+      totals: {
+        amount: rows.reduce((sum, row) => sum.plus(row.amount), zero),
+        committed: rows.reduce((sum, row) => sum.plus(row.committed), zero),
+        actual: rows.reduce((sum, row) => sum.plus(row.actual), zero),
+        remaining: rows.reduce((sum, row) => sum.plus(row.remaining), zero)
+      },
+      budgets: rows
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/budgets/{id}:
+ *   get:
+ *     tags:
+ *       - Budgets
+ *     summary: Get a budget with its commitments and actual spend.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Budget.
+ *       404:
+ *         description: Budget not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(REPORT_ROLES),
+  async (req: Request, res: Response) => {
+    const budget = await prisma.budget.findFirst({
+      where: { AND: [{ id: req.params.id }, await departmentScope(req.user!.id)] },
+      include: BUDGET_INCLUDE
+    });
+
+    if (!budget) {
+      return res.status(404).json({
+        success: false,
+        error: "Budget not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      budget: await withSpend(budget)
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/budgets/{id}:
+ *   patch:
+ *     tags:
+ *       - Budgets
+ *     summary: Revise a budget's amount, period or remarks (ADMIN or FINANCE).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               periodStart:
+ *                 type: string
+ *                 format: date
+ *               periodEnd:
+ *                 type: string
+ *                 format: date
+ *               amount:
+ *                 type: number
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Budget updated.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Budget not found.
+ *       409:
+ *         description: Overlaps an existing budget.
+ */
+router.patch(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { periodStart, periodEnd, amount, remarks } = req.body as BudgetBody;
+
+    const budget = await prisma.budget.findUnique({
+      where: { id: req.params.id }
+    });
+    if (!budget) {
+      return res.status(404).json({
+        success: false,
+        error: "Budget not found."
+      });
+    }
+
+    if (amount !== undefined && (typeof amount !== "number" || amount < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "amount must be a non-negative number."
+      });
+    }
+
+    const start = periodStart ? new Date(periodStart) : budget.periodStart;
+    const end = periodEnd ? new Date(periodEnd) : budget.periodEnd;
+    const periodError = validatePeriod(start, end);
+    if (periodError) {
+      return res.status(400).json({
+        success: false,
+        error: periodError
+      });
+    }
+
+    const overlap = await findOverlap(
+      budget.department,
+      budget.categoryId,
+      start,
+      end,
+      budget.id
+    );
+    if (overlap) {
+      return res.status(409).json({
+        success: false,
+        error: "A budget for this department and category already covers part of this period."
+      });
+    }
+
+    try {
+      const updated = await prisma.budget.update({
+        where: { id: budget.id },
+        data: {
+          periodStart: start,
+          periodEnd: end,
+          ...(amount !== undefined ? { amount } : {}),
+          ...(remarks !== undefined ? { remarks: remarks || null } : {})
+        },
+        include: BUDGET_INCLUDE
+      });
+
+      res.json({
+        success: true,
+        budget: updated
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/budgets/{id}:
+ *   delete:
+ *     tags:
+ *       - Budgets
+ *     summary: Delete a budget (ADMIN or FINANCE).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Budget deleted.
+ *       404:
+ *         description: Budget not found.
+ */
+router.delete(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await prisma.budget.delete({ where: { id: req.params.id } });
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2025"
+      ) {
+        return res.status(404).json({
+          success: false,
+          error: "Budget not found."
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,312 @@
+// src/routes/exchangeRate.routes.ts
+import { Router, Request, Response, NextFunction, text } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { Prisma } from "@prisma/client";
+import { ENV } from "../config/env";
+import { isValidCurrency, normaliseCurrency, parseRateCsv } from "../utils/currency";
+
+const router = Router();
+
+const MANAGER_ROLES = ["ADMIN", "FINANCE"];
+
+const VIEWER_ROLES = [...MANAGER_ROLES, "PROCUREMENT"];
+
+const RATE_INCLUDE = {
+  createdBy: { select: { id: true, fullName: true, email: true } }
+};
+
+/**
+ * @openapi
+ * /api/exchange-rates:
+ *   post:
+ *     tags:
+ *       - Exchange Rates
+ *     summary: Add an exchange rate.
+ *     description: >
+ *       rate is the number of BASE_CURRENCY units per one unit of currency.
+ *       It applies to documents dated from effectiveDate until the next rate
+ *       for the same currency.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currency
+ *               - rate
+ *               - effectiveDate
+ *             properties:
+ *               currency:
+ *                 type: string
+ *               rate:
+ *                 type: number
+ *               effectiveDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       201:
+ *         description: Rate added.
+ *       400:
+ *         description: Validation error.
+ *       409:
+ *         description: A rate for this currency and date already exists.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { currency, rate, effectiveDate } = req.body as {
+      currency?: string;
+      rate?: number;
+      effectiveDate?: string;
+    };
+
+    if (!isValidCurrency(currency)) {
+      return res.status(400).json({
+        success: false,
+        error: "currency must be a 3-letter currency code."
+      });
+    }
+
+    if (normaliseCurrency(currency) === ENV.BASE_CURRENCY) {
+      return res.status(400).json({
+        success: false,
+        error: `${ENV.BASE_CURRENCY} is the base currency; its rate is always 1.`
+      });
+    }
+
+    if (typeof rate !== "number" || !(rate > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "rate must be a positive number."
+      });
+    }
+
+    const effective = effectiveDate ? new Date(effectiveDate) : null;
+    if (!effective || isNaN(effective.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "effectiveDate must be a valid date."
+      });
+    }
+
+    try {
+      const exchangeRate = await prisma.exchangeRate.create({
+        data: {
+          currency: normaliseCurrency(currency),
+          rate,
+          effectiveDate: effective,
+          createdById: req.user!.id
+        },
+        include: RATE_INCLUDE
+      });
+
+      res.status(201).json({
+        success: true,
+        exchangeRate
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return res.status(409).json({
+          success: false,
+          error: "A rate for this currency and effective date already exists."
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/exchange-rates/import:
+ *   post:
+ *     tags:
+ *       - Exchange Rates
+ *     summary: Load exchange rates from a CSV file.
+ *     description: >
+ *       The body is the CSV itself (Content-Type text/csv) with a header row
+ *       naming the columns currency, rate and effectiveDate. Rates that
+ *       already exist for a currency and date are overwritten. The file is
+ *       loaded all or nothing.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               currency,rate,effectiveDate
+ *               EUR,1.08,2026-10-01
+ *     responses:
+ *       200:
+ *         description: Counts of rates added and overwritten.
+ *       400:
+ *         description: The file could not be read; the error names the line.
+ */
+router.post(
+  "/import",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  text({ type: ["text/csv", "text/plain"], limit: "1mb" }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (typeof req.body !== "string") {
+      return res.status(400).json({
+        success: false,
+        error: "Send the CSV as the request body with Content-Type text/csv."
+      });
+    }
+
+    const parsed = parseRateCsv(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error
+      });
+    }
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        let created = 0;
+        let updated = 0;
+
+        for (const row of parsed.rows) {
+          const key = {
+            currency_effectiveDate: {
+              currency: row.currency,
+              effectiveDate: row.effectiveDate
+            }
+          };
+          const existing = await tx.exchangeRate.findUnique({ where: key });
+
+          await tx.exchangeRate.upsert({
+            where: key,
+            update: { rate: row.rate, createdById: req.user!.id },
+            create: { ...row, createdById: req.user!.id }
+          });
+          if (existing) updated++;
+          else created++;
+        }
+
+        return { created, updated };
+      });
+
+      res.json({
+        success: true,
+        ...result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/exchange-rates:
+ *   get:
+ *     tags:
+ *       - Exchange Rates
+ *     summary: List exchange rates, newest first.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rates.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { currency } = req.query as { currency?: string };
+
+    const exchangeRates = await prisma.exchangeRate.findMany({
+      where: currency ? { currency: normaliseCurrency(currency) } : {},
+      include: RATE_INCLUDE,
+      orderBy: [{ currency: "asc" }, { effectiveDate: "desc" }]
+    });
+
+    res.json({
+      success: true,
+      baseCurrency: ENV.BASE_CURRENCY,
+      exchangeRates
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/exchange-rates/{id}:
+ *   delete:
+ *     tags:
+ *       - Exchange Rates
+ *     summary: Delete an exchange rate.
+ *     description: >
+ *       Documents keep the rate they were converted at, so this only affects
+ *       documents dated afterwards.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate deleted.
+ *       404:
+ *         description: Rate not found.
+ */
+router.delete(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response) => {
+    const deleted = await prisma.exchangeRate.deleteMany({
+      where: { id: req.params.id }
+    });
+
+    if (deleted.count === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Exchange rate not found."
+      });
+    }
+
+    res.json({
+      success: true
+    });
+  }
+);
+
+export default router;
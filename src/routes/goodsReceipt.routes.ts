@@ -0,0 +1,467 @@
+// src/routes/goodsReceipt.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import { ENV } from "../config/env";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import { Prisma, PurchaseOrderStatus, StockMovementType } from "@prisma/client";
+import { addStock } from "../utils/stock";
+import { normaliseSerials, receiveSerials, validateSerials } from "../utils/serials";
+import { addLotStock, toLotReceipt, validateLotReceipt } from "../utils/lots";
+import { nextDocumentNumber } from "../utils/sequence";
+import { transitionPurchaseOrder } from "../utils/purchaseOrders";
+import { costPerUnit } from "../utils/tax";
+
+const router = Router();
+
+const RECEIVER_ROLES = ["ADMIN", "STOREKEEPER"];
+
+const VIEWER_ROLES = [...RECEIVER_ROLES, "PROCUREMENT", "FINANCE"];
+
+//Purchase orders that can take deliveries
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.APPROVED,
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED
+];
+
+const GRN_INCLUDE = {
+  purchaseOrder: { select: { id: true, poNumber: true, status: true } },
+  warehouse: true,
+  receivedBy: { select: { id: true, fullName: true, email: true } },
+  lines: { include: { item: true } }
+};
+
+interface GoodsReceiptLineInput {
+  purchaseOrderLineId: string;
+  quantity: number;
+  rejectedQuantity?: number;
+  rejectionReason?: string;
+  serialNumbers?: string[];
+  lotNumber?: string;
+  expiryDate?: string;
+}
+
+//Shape checks on the delivered lines. Returns an error message or null.
+function validateReceiptLines(lines: unknown): string | null {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return "lines must be a non-empty array.";
+  }
+
+  const seen = new Set<string>();
+  for (const [index, line] of lines.entries()) {
+    if (!line || typeof line.purchaseOrderLineId !== "string" || !line.purchaseOrderLineId) {
+      return `lines[${index}].purchaseOrderLineId is required.`;
+    }
+    if (seen.has(line.purchaseOrderLineId)) {
+      return `lines[${index}] repeats purchase order line ${line.purchaseOrderLineId}.`;
+    }
+    seen.add(line.purchaseOrderLineId);
+
+    if (typeof line.quantity !== "number" || line.quantity < 0) {
+      return `lines[${index}].quantity must be a non-negative number.`;
+    }
+    const rejected = line.rejectedQuantity ?? 0;
+    if (typeof rejected !== "number" || rejected < 0) {
+      return `lines[${index}].rejectedQuantity must be a non-negative number.`;
+    }
+    if (line.quantity + rejected <= 0) {
+      return `lines[${index}] must accept or reject a positive quantity.`;
+    }
+    if (rejected > 0 && (typeof line.rejectionReason !== "string" || !line.rejectionReason.trim())) {
+      return `lines[${index}].rejectionReason is required when rejecting goods.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * @openapi
+ * /api/goods-receipts:
+ *   post:
+ *     tags:
+ *       - Goods Receipts
+ *     summary: Record a delivery against a purchase order (GRN).
+ *     description: >
+ *       Accepted quantities are posted to the purchase order's warehouse as IN
+ *       movements with referenceType PURCHASE_ORDER and the PO id. Rejected or
+ *       damaged quantities are recorded on the GRN only. A line may receive up
+ *       to GRN_OVER_DELIVERY_TOLERANCE_PERCENT more than was ordered. The
+ *       purchase order moves to PARTIALLY_RECEIVED or RECEIVED automatically.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - purchaseOrderId
+ *               - lines
+ *             properties:
+ *               purchaseOrderId:
+ *                 type: string
+ *               deliveryNoteNumber:
+ *                 type: string
+ *               remarks:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - purchaseOrderLineId
+ *                     - quantity
+ *                   properties:
+ *                     purchaseOrderLineId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                       description: Quantity accepted into stock.
+ *                     rejectedQuantity:
+ *                       type: number
+ *                     rejectionReason:
+ *                       type: string
+ *                       description: Required when rejectedQuantity > 0.
+ *                     serialNumbers:
+ *                       type: array
+ *                       description: One per accepted unit; required for trackable items.
+ *                       items:
+ *                         type: string
+ *                     lotNumber:
+ *                       type: string
+ *                       description: Required for lot-controlled items.
+ *                     expiryDate:
+ *                       type: string
+ *                       format: date
+ *     responses:
+ *       201:
+ *         description: Goods receipt recorded.
+ *       400:
+ *         description: Validation error or over-delivery beyond tolerance.
+ *       404:
+ *         description: Purchase order not found.
+ *       409:
+ *         description: Purchase order cannot take deliveries, or was received concurrently.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(RECEIVER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { purchaseOrderId, deliveryNoteNumber, remarks, lines } = req.body as {
+      purchaseOrderId?: string;
+      deliveryNoteNumber?: string;
+      remarks?: string;
+      lines?: GoodsReceiptLineInput[];
+    };
+
+    if (!purchaseOrderId) {
+      return res.status(400).json({
+        success: false,
+        error: "purchaseOrderId is required."
+      });
+    }
+
+    const linesError = validateReceiptLines(lines);
+    if (linesError) {
+      return res.status(400).json({
+        success: false,
+        error: linesError
+      });
+    }
+
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: { lines: { include: { item: true, taxCode: true } } }
+    });
+
+    if (!po) {
+      return res.status(404).json({
+        success: false,
+        error: "Purchase order not found."
+      });
+    }
+
+    if (!RECEIVABLE_STATUSES.includes(po.status)) {
+      return res.status(409).json({
+        success: false,
+        error: `Only ${RECEIVABLE_STATUSES.join(", ")} purchase orders can be received.`
+      });
+    }
+
+    const toleranceFactor = 1 + ENV.GRN_OVER_DELIVERY_TOLERANCE_PERCENT / 100;
+    const poLines = new Map(po.lines.map((line) => [line.id, line]));
+
+    for (const [index, line] of lines!.entries()) {
+      const label = `lines[${index}]`;
+      const poLine = poLines.get(line.purchaseOrderLineId);
+      if (!poLine) {
+        return res.status(400).json({
+          success: false,
+          error: `${label}.purchaseOrderLineId is not a line of this purchase order.`
+        });
+      }
+
+      if (line.quantity === 0) continue;
+
+      const maxQuantity = poLine.quantity.times(toleranceFactor);
+      const newTotal = poLine.receivedQuantity.plus(line.quantity);
+      if (newTotal.gt(maxQuantity)) {
+        return res.status(400).json({
+          success: false,
+          error: `${label} would bring "${poLine.item.name}" to ${newTotal} received against ${poLine.quantity} ordered, beyond the ${ENV.GRN_OVER_DELIVERY_TOLERANCE_PERCENT}% over-delivery tolerance.`
+        });
+      }
+
+      const itemError =
+        validateSerials(poLine.item, line.quantity, line.serialNumbers, label) ??
+        validateLotReceipt(poLine.item, line.lotNumber, line.expiryDate, label);
+      if (itemError) {
+        return res.status(400).json({
+          success: false,
+          error: itemError
+        });
+      }
+    }
+
+    try {
+      const goodsReceipt = await prisma.$transaction(async (tx) => {
+        const grnNumber = await nextDocumentNumber(tx, "GRN");
+        const movementRemarks = remarks ? `${grnNumber}: ${remarks}` : grnNumber;
+
+        const grn = await tx.goodsReceipt.create({
+          data: {
+            grnNumber,
+            purchaseOrderId: po.id,
+            warehouseId: po.warehouseId,
+            deliveryNoteNumber: deliveryNoteNumber || null,
+            remarks: remarks || null,
+            receivedById: req.user!.id,
+            lines: {
+              create: lines!.map((line) => {
+                const item = poLines.get(line.purchaseOrderLineId)!.item;
+                const accepted = line.quantity > 0;
+                return {
+                  purchaseOrderLineId: line.purchaseOrderLineId,
+                  itemId: item.id,
+                  acceptedQuantity: line.quantity,
+                  rejectedQuantity: line.rejectedQuantity ?? 0,
+                  rejectionReason: line.rejectionReason?.trim() || null,
+                  serialNumbers:
+                    accepted && item.isTrackable
+                      ? normaliseSerials(line.serialNumbers)
+                      : Prisma.DbNull,
+                  lotNumber: accepted ? line.lotNumber?.trim() || null : null,
+                  expiryDate:
+                    accepted && line.expiryDate ? new Date(line.expiryDate) : null
+                };
+              })
+            }
+          },
+          include: GRN_INCLUDE
+        });
+
+        for (const line of lines!) {
+          if (line.quantity === 0) continue;
+          const poLine = poLines.get(line.purchaseOrderLineId)!;
+
+          // Conditional increment so two GRNs cannot both use the same tolerance
+          const updated = await tx.purchaseOrderLine.updateMany({
+            where: { id: poLine.id, receivedQuantity: poLine.receivedQuantity },
+            data: { receivedQuantity: { increment: line.quantity } }
+          });
+          if (updated.count === 0) {
+            throw createApiError(
+              409,
+              "The purchase order was received concurrently; retry."
+            );
+          }
+
+          const posting = {
+            itemId: poLine.itemId,
+            warehouseId: po.warehouseId,
+            quantity: line.quantity,
+            movementType: StockMovementType.IN,
+            referenceType: "PURCHASE_ORDER",
+            referenceId: po.id,
+            remarks: movementRemarks,
+            unitCost: costPerUnit(poLine).times(po.exchangeRate),
+            createdById: req.user!.id
+          };
+
+          if (poLine.item.isLotControlled) {
+            await addLotStock(
+              tx,
+              posting,
+              toLotReceipt(line.lotNumber, line.expiryDate)
+            );
+          } else {
+            await addStock(tx, posting);
+          }
+
+          if (poLine.item.isTrackable) {
+            await receiveSerials(tx, po.warehouseId, {
+              itemId: poLine.itemId,
+              serialNumbers: normaliseSerials(line.serialNumbers),
+              referenceType: "PURCHASE_ORDER",
+              referenceId: po.id,
+              remarks: movementRemarks,
+              createdById: req.user!.id
+            });
+          }
+        }
+
+        const receivedLines = await tx.purchaseOrderLine.findMany({
+          where: { purchaseOrderId: po.id }
+        });
+        const fullyReceived = receivedLines.every((line) =>
+          line.receivedQuantity.gte(line.quantity)
+        );
+        const anyReceived = receivedLines.some((line) =>
+          line.receivedQuantity.gt(0)
+        );
+
+        await transitionPurchaseOrder(
+          tx,
+          po.id,
+          RECEIVABLE_STATUSES,
+          fullyReceived
+            ? PurchaseOrderStatus.RECEIVED
+            : anyReceived
+              ? PurchaseOrderStatus.PARTIALLY_RECEIVED
+              : po.status,
+          req.user!.id,
+          grnNumber
+        );
+
+        return grn;
+      });
+
+      res.status(201).json({
+        success: true,
+        goodsReceipt
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/goods-receipts:
+ *   get:
+ *     tags:
+ *       - Goods Receipts
+ *     summary: List goods receipts.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: purchaseOrderId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: hasRejections
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of goods receipts.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { purchaseOrderId, warehouseId, hasRejections } = req.query as {
+      purchaseOrderId?: string;
+      warehouseId?: string;
+      hasRejections?: string;
+    };
+
+    const where: any = {};
+
+    if (purchaseOrderId) where.purchaseOrderId = purchaseOrderId;
+    if (warehouseId) where.warehouseId = warehouseId;
+    if (hasRejections === "true") {
+      where.lines = { some: { rejectedQuantity: { gt: 0 } } };
+    }
+
+    const goodsReceipts = await prisma.goodsReceipt.findMany({
+      where,
+      include: GRN_INCLUDE,
+      orderBy: { createdAt: "desc" }
+    });
+
+    res.json({
+      success: true,
+      goodsReceipts
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/goods-receipts/{id}:
+ *   get:
+ *     tags:
+ *       - Goods Receipts
+ *     summary: Get a goods receipt.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Goods receipt.
+ *       404:
+ *         description: Goods receipt not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const goodsReceipt = await prisma.goodsReceipt.findUnique({
+      where: { id: req.params.id },
+      include: GRN_INCLUDE
+    });
+
+    if (!goodsReceipt) {
+      return res.status(404).json({
+        success: false,
+        error: "Goods receipt not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      goodsReceipt
+    });
+  }
+);
+
+export default router;
@@ -1,4 +1,4 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import prisma from "../config/prisma";
 import {
   authMiddleware,
@@ -6,6 +6,13 @@ import {
   requireNonFirstLogin,
   requireRole
 } from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import {
+  AdjustmentStatus,
+  CostingMethod,
+  StockTransferStatus
+} from "@prisma/client";
+import { changeCostingMethod } from "../utils/costing";
 
 const router = Router();
 
@@ -15,6 +22,8 @@ const INVENTORY_ROLES = [
   "PROCUREMENT"
 ];
 
+const FINANCE_ROLES = ["ADMIN", "FINANCE"];
+
 /**
  * @openapi
  * /api/items/categories:
@@ -149,6 +158,18 @@ router.get(
  *                 type: string
  *               isTrackable:
  *                 type: boolean
+ *               isLotControlled:
+ *                 type: boolean
+ *                 description: Keep stock per lot/batch with expiry dates.
+ *               costingMethod:
+ *                 type: string
+ *                 default: WEIGHTED_AVERAGE
+ *                 enum:
+ *                   - WEIGHTED_AVERAGE
+ *                   - FIFO
+ *               taxCodeId:
+ *                 type: string
+ *                 description: Default tax code for this item on PO lines.
  *               categoryId:
  *                 type: string
  *     responses:
@@ -169,6 +190,9 @@ router.post(
       description,
       unit,
       isTrackable,
+      isLotControlled,
+      costingMethod,
+      taxCodeId,
       categoryId
     } = req.body as {
       name?: string;
@@ -176,6 +200,9 @@ router.post(
       description?: string;
       unit?: string;
       isTrackable?: boolean;
+      isLotControlled?: boolean;
+      costingMethod?: string;
+      taxCodeId?: string;
       categoryId?: string;
     };
 
@@ -186,6 +213,23 @@ router.post(
       });
     }
 
+    if (isTrackable && isLotControlled) {
+      return res.status(400).json({
+        success: false,
+        error: "An item cannot be both trackable and lot-controlled."
+      });
+    }
+
+    if (
+      costingMethod !== undefined &&
+      !Object.values(CostingMethod).includes(costingMethod as any)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `costingMethod must be one of ${Object.values(CostingMethod).join(", ")}.`
+      });
+    }
+
     // Check category exists & active
     const category = await prisma.itemCategory.findUnique({
       where: { id: categoryId }
@@ -198,6 +242,19 @@ router.post(
       });
     }
 
+    if (taxCodeId !== undefined && taxCodeId !== null) {
+      const taxCode =
+        typeof taxCodeId === "string"
+          ? await prisma.taxCode.findUnique({ where: { id: taxCodeId } })
+          : null;
+      if (!taxCode || !taxCode.isActive) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid or inactive taxCodeId."
+        });
+      }
+    }
+
     if (sku) {
       const existingSku = await prisma.item.findUnique({
         where: { sku }
@@ -217,6 +274,9 @@ router.post(
         description: description || null,
         unit,
         isTrackable: Boolean(isTrackable),
+        isLotControlled: Boolean(isLotControlled),
+        costingMethod: (costingMethod as CostingMethod) ?? CostingMethod.WEIGHTED_AVERAGE,
+        taxCodeId: taxCodeId ?? null,
         categoryId
       }
     });
@@ -292,4 +352,304 @@ router.get(
   }
 );
 
+/**
+ * @openapi
+ * /api/items/{id}/costing-method:
+ *   patch:
+ *     tags:
+ *       - Items
+ *     summary: Change how an item's stock is costed.
+ *     description: >
+ *       Stock on hand keeps its value: switching to FIFO opens one cost layer
+ *       per warehouse at the current average cost; switching to
+ *       WEIGHTED_AVERAGE folds the remaining layers into the average.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - costingMethod
+ *             properties:
+ *               costingMethod:
+ *                 type: string
+ *                 enum:
+ *                   - WEIGHTED_AVERAGE
+ *                   - FIFO
+ *     responses:
+ *       200:
+ *         description: Costing method changed.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Item not found.
+ */
+router.patch(
+  "/:id/costing-method",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { costingMethod } = req.body as { costingMethod?: string };
+
+    if (!Object.values(CostingMethod).includes(costingMethod as any)) {
+      return res.status(400).json({
+        success: false,
+        error: `costingMethod must be one of ${Object.values(CostingMethod).join(", ")}.`
+      });
+    }
+
+    const existing = await prisma.item.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: "Item not found."
+      });
+    }
+
+    if (existing.costingMethod === costingMethod) {
+      return res.json({
+        success: true,
+        item: existing
+      });
+    }
+
+    try {
+      const item = await prisma.$transaction((tx) =>
+        changeCostingMethod(tx, existing.id, costingMethod as CostingMethod)
+      );
+
+      res.json({
+        success: true,
+        item
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/items/{id}/lot-control:
+ *   patch:
+ *     tags:
+ *       - Items
+ *     summary: Turn lot control on or off for an item.
+ *     description: >
+ *       Only allowed while the item has no stock in any warehouse, none in
+ *       transit and no adjustment waiting for approval, so every lot balance
+ *       is built from receipts made after the change. Trackable items cannot
+ *       be lot-controlled.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isLotControlled
+ *             properties:
+ *               isLotControlled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Lot control changed.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Item not found.
+ *       409:
+ *         description: The item has stock, stock in transit or pending adjustments.
+ */
+router.patch(
+  "/:id/lot-control",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { isLotControlled } = req.body as { isLotControlled?: boolean };
+
+    if (typeof isLotControlled !== "boolean") {
+      return res.status(400).json({
+        success: false,
+        error: "isLotControlled must be true or false."
+      });
+    }
+
+    const existing = await prisma.item.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: "Item not found."
+      });
+    }
+
+    if (isLotControlled && existing.isTrackable) {
+      return res.status(400).json({
+        success: false,
+        error: "An item cannot be both trackable and lot-controlled."
+      });
+    }
+
+    if (existing.isLotControlled === isLotControlled) {
+      return res.json({
+        success: true,
+        item: existing
+      });
+    }
+
+    try {
+      const item = await prisma.$transaction(async (tx) => {
+        const [inStock, inTransit, pending] = await Promise.all([
+          tx.stockLevel.count({
+            where: { itemId: existing.id, quantity: { not: 0 } }
+          }),
+          tx.stockTransferLine.count({
+            where: {
+              itemId: existing.id,
+              transfer: { status: StockTransferStatus.IN_TRANSIT }
+            }
+          }),
+          tx.stockAdjustment.count({
+            where: { itemId: existing.id, status: AdjustmentStatus.PENDING_APPROVAL }
+          })
+        ]);
+        if (inStock > 0 || inTransit > 0 || pending > 0) {
+          throw createApiError(
+            409,
+            "Lot control can only be changed while the item has no stock, no stock in transit and no pending adjustments."
+          );
+        }
+
+        // Guard on the current flag so concurrent changes cannot both apply
+        const updated = await tx.item.updateMany({
+          where: { id: existing.id, isLotControlled: !isLotControlled },
+          data: { isLotControlled }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "Lot control was changed concurrently; retry.");
+        }
+
+        return tx.item.findUniqueOrThrow({ where: { id: existing.id } });
+      });
+
+      res.json({
+        success: true,
+        item
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/items/{id}/tax-code:
+ *   patch:
+ *     tags:
+ *       - Items
+ *     summary: Set or clear an item's default tax code.
+ *     description: >
+ *       Used for PO lines that do not name a tax code themselves; it takes
+ *       precedence over the supplier's default. Existing documents keep the
+ *       tax they were raised with.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - taxCodeId
+ *             properties:
+ *               taxCodeId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Tax code set.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Item not found.
+ */
+router.patch(
+  "/:id/tax-code",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { taxCodeId } = req.body as { taxCodeId?: string | null };
+
+    if (taxCodeId === undefined || (taxCodeId !== null && typeof taxCodeId !== "string")) {
+      return res.status(400).json({
+        success: false,
+        error: "taxCodeId must be a tax code id or null."
+      });
+    }
+
+    if (taxCodeId !== null) {
+      const taxCode = await prisma.taxCode.findUnique({ where: { id: taxCodeId } });
+      if (!taxCode || !taxCode.isActive) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid or inactive taxCodeId."
+        });
+      }
+    }
+
+    const updated = await prisma.item.updateMany({
+      where: { id: req.params.id },
+      data: { taxCodeId }
+    });
+
+    if (updated.count === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Item not found."
+      });
+    }
+
+    const item = await prisma.item.findUnique({
+      where: { id: req.params.id },
+      include: { taxCode: true }
+    });
+
+    res.json({
+      success: true,
+      item
+    });
+  }
+);
+
 export default router;
\ No newline at end of file
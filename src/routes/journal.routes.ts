@@ -0,0 +1,274 @@
+// src/routes/journal.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { JournalSource, Prisma } from "@prisma/client";
+import { ENV } from "../config/env";
+import { exportJournals, journalsToCsv } from "../utils/journals";
+
+const router = Router();
+
+const FINANCE_ROLES = ["ADMIN", "FINANCE"];
+
+//Parse a from/to period; a plain date for `to` covers the whole day
+function parsePeriod(from?: string, to?: string): { start: Date; end: Date } | null {
+  const start = from ? new Date(from) : null;
+  const end = to ? new Date(to) : null;
+  if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+    return null;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(to!)) {
+    end.setUTCHours(23, 59, 59, 999);
+  }
+  return { start, end };
+}
+
+/**
+ * @openapi
+ * /api/journals:
+ *   get:
+ *     tags:
+ *       - Journals
+ *     summary: List journals generated from stock movements, transfer discrepancies, invoices, payments and credit notes.
+ *     description: >
+ *       Amounts are in BASE_CURRENCY. Account codes are filled in when a
+ *       journal is exported.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: sourceType
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - STOCK_MOVEMENT
+ *             - SUPPLIER_INVOICE
+ *             - SUPPLIER_PAYMENT
+ *             - SUPPLIER_CREDIT
+ *             - TRANSFER_DISCREPANCY
+ *       - in: query
+ *         name: exported
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Journals with their lines, in date order.
+ *       400:
+ *         description: Invalid query.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { from, to, sourceType, exported } = req.query as {
+      from?: string;
+      to?: string;
+      sourceType?: string;
+      exported?: string;
+    };
+
+    const where: Prisma.JournalWhereInput = {};
+
+    if (from || to) {
+      const period = parsePeriod(from, to);
+      if (!period) {
+        return res.status(400).json({
+          success: false,
+          error: "from and to must both be valid dates, with from on or before to."
+        });
+      }
+      where.entryDate = { gte: period.start, lte: period.end };
+    }
+    if (sourceType) {
+      if (!Object.values(JournalSource).includes(sourceType as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid sourceType."
+        });
+      }
+      where.sourceType = sourceType as JournalSource;
+    }
+    if (exported === "true") where.exportedAt = { not: null };
+    if (exported === "false") where.exportedAt = null;
+
+    const journals = await prisma.journal.findMany({
+      where,
+      include: { lines: true },
+      orderBy: [{ entryDate: "asc" }, { createdAt: "asc" }]
+    });
+
+    res.json({
+      success: true,
+      currency: ENV.BASE_CURRENCY,
+      journals
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/journals/export:
+ *   post:
+ *     tags:
+ *       - Journals
+ *     summary: Export the unexported journals of a period and mark them as exported.
+ *     description: >
+ *       Every line gets its account code from the account mappings; if any
+ *       line has no mapping nothing is exported and the error lists what to
+ *       map. Exported journals are not exported again. CSV has one row per
+ *       journal line; JSON returns the journals with their lines.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - from
+ *               - to
+ *             properties:
+ *               from:
+ *                 type: string
+ *                 format: date
+ *               to:
+ *                 type: string
+ *                 format: date
+ *               format:
+ *                 type: string
+ *                 default: json
+ *                 enum:
+ *                   - json
+ *                   - csv
+ *     responses:
+ *       200:
+ *         description: The exported journals.
+ *         content:
+ *           application/json: {}
+ *           text/csv: {}
+ *       400:
+ *         description: Invalid period or format, or unmapped accounts.
+ *       409:
+ *         description: Another export took some of the journals first.
+ */
+router.post(
+  "/export",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { from, to, format = "json" } = req.body as {
+      from?: string;
+      to?: string;
+      format?: string;
+    };
+
+    const period = parsePeriod(from, to);
+    if (!period) {
+      return res.status(400).json({
+        success: false,
+        error: "from and to are required valid dates, with from on or before to."
+      });
+    }
+
+    if (format !== "json" && format !== "csv") {
+      return res.status(400).json({
+        success: false,
+        error: "format must be json or csv."
+      });
+    }
+
+    try {
+      const batchId = randomUUID();
+      const journals = await prisma.$transaction((tx) =>
+        exportJournals(tx, period.start, period.end, batchId)
+      );
+
+      if (format === "csv") {
+        return res
+          .type("text/csv")
+          .attachment(`journals-${batchId}.csv`)
+          .send(journalsToCsv(journals));
+      }
+
+      res.json({
+        success: true,
+        batchId,
+        currency: ENV.BASE_CURRENCY,
+        journals
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/journals/{id}:
+ *   get:
+ *     tags:
+ *       - Journals
+ *     summary: Get a journal with its lines.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Journal.
+ *       404:
+ *         description: Journal not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const journal = await prisma.journal.findUnique({
+      where: { id: req.params.id },
+      include: { lines: true }
+    });
+
+    if (!journal) {
+      return res.status(404).json({
+        success: false,
+        error: "Journal not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      journal
+    });
+  }
+);
+
+export default router;
@@ -0,0 +1,1243 @@
+// src/routes/purchaseOrder.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import {
+  ApprovalDocumentType,
+  ApprovalRequestStatus,
+  Prisma,
+  PurchaseOrderStatus,
+  RequisitionStatus,
+  SupplierStatus,
+  UserRole
+} from "@prisma/client";
+import { findActiveItems, validateStockLines } from "../utils/stock";
+import {
+  PO_INCLUDE,
+  PurchaseOrderHeader,
+  PurchaseOrderLineInput,
+  USER_SUMMARY,
+  createPurchaseOrder,
+  logPurchaseOrderEvent,
+  transitionPurchaseOrder
+} from "../utils/purchaseOrders";
+import {
+  emailPurchaseOrder,
+  renderPurchaseOrderHtml
+} from "../utils/purchaseOrderDocument";
+import {
+  approvalTrail,
+  cancelApproval,
+  decideApproval,
+  openApproval,
+  planApproval
+} from "../utils/approvals";
+
+const router = Router();
+
+const BUYER_ROLES = ["ADMIN", "PROCUREMENT"];
+
+const VIEWER_ROLES = [...BUYER_ROLES, "FINANCE", "STOREKEEPER"];
+
+//Statuses a purchase order can still be cancelled from: nothing received
+const CANCELLABLE_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.DRAFT,
+  PurchaseOrderStatus.SUBMITTED,
+  PurchaseOrderStatus.APPROVED,
+  PurchaseOrderStatus.SENT
+];
+
+const SENDABLE_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.APPROVED,
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED
+];
+
+function isValidPrice(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && isFinite(value);
+}
+
+//Check the supplier and delivery warehouse of a new purchase order.
+//Returns an error message or null.
+async function validateHeader(header: PurchaseOrderHeader): Promise<string | null> {
+  if (!header.supplierId || !header.warehouseId) {
+    return "supplierId and warehouseId are required.";
+  }
+
+  if (
+    header.expectedDeliveryDate !== undefined &&
+    isNaN(new Date(header.expectedDeliveryDate).getTime())
+  ) {
+    return "expectedDeliveryDate must be a valid date.";
+  }
+
+  if (header.department !== undefined && typeof header.department !== "string") {
+    return "department must be a string.";
+  }
+
+  const supplier = await prisma.supplier.findUnique({
+    where: { id: header.supplierId }
+  });
+  if (!supplier || supplier.status !== SupplierStatus.ACTIVE) {
+    return "Invalid or blocked supplierId.";
+  }
+
+  const warehouse = await prisma.warehouse.findUnique({
+    where: { id: header.warehouseId }
+  });
+  if (!warehouse || !warehouse.isActive) {
+    return "Invalid or inactive warehouseId.";
+  }
+
+  return null;
+}
+
+//Find a purchase order or answer 404
+async function findPurchaseOrder(id: string, res: Response) {
+  const po = await prisma.purchaseOrder.findUnique({
+    where: { id },
+    include: PO_INCLUDE
+  });
+  if (!po) {
+    res.status(404).json({
+      success: false,
+      error: "Purchase order not found."
+    });
+  }
+  return po;
+}
+
+//What the approval matrix routes a purchase order by. Orders without a
+//department of their own take it from their requisitions when those all
+//come from one department.
+async function approvalContext(
+  po: Prisma.PurchaseOrderGetPayload<{ include: typeof PO_INCLUDE }>
+) {
+  let department = po.department;
+  if (!department) {
+    const requisitions = await prisma.requisition.findMany({
+      where: { purchaseOrderId: po.id },
+      select: { department: true },
+      distinct: ["department"]
+    });
+    department = requisitions.length === 1 ? requisitions[0].department : null;
+  }
+
+  return {
+    documentType: ApprovalDocumentType.PURCHASE_ORDER,
+    documentId: po.id,
+    department,
+    categoryIds: [...new Set(po.lines.map((line) => line.item.categoryId))],
+    amount: po.baseTotalAmount,
+    requestedById: po.createdById
+  };
+}
+
+//Email the order to the supplier and mark it SENT. Resolves false when it
+//could not be emailed (no supplier email or email not configured).
+async function sendToSupplier(
+  po: Prisma.PurchaseOrderGetPayload<{ include: typeof PO_INCLUDE }>,
+  userId: string
+): Promise<boolean> {
+  if (!(await emailPurchaseOrder(po))) {
+    return false;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const remarks = `Emailed to ${po.supplier.email}`;
+    if (po.status === PurchaseOrderStatus.APPROVED) {
+      await transitionPurchaseOrder(
+        tx,
+        po.id,
+        [PurchaseOrderStatus.APPROVED],
+        PurchaseOrderStatus.SENT,
+        userId,
+        remarks,
+        { sentAt: new Date() }
+      );
+    } else {
+      await tx.purchaseOrder.update({
+        where: { id: po.id },
+        data: { sentAt: new Date() }
+      });
+      await logPurchaseOrderEvent(tx, po.id, po.status, userId, `Re-sent: ${remarks}`);
+    }
+  });
+
+  return true;
+}
+
+/**
+ * @openapi
+ * /api/purchase-orders:
+ *   post:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Create a DRAFT purchase order.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - supplierId
+ *               - warehouseId
+ *               - lines
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *                 description: Delivery warehouse.
+ *               expectedDeliveryDate:
+ *                 type: string
+ *                 format: date
+ *               remarks:
+ *                 type: string
+ *               department:
+ *                 type: string
+ *                 description: Department whose budget the order is charged to.
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - itemId
+ *                     - quantity
+ *                     - unitPrice
+ *                   properties:
+ *                     itemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     unitPrice:
+ *                       type: number
+ *                     taxCodeId:
+ *                       type: string
+ *                       nullable: true
+ *                       description: >
+ *                         Omit to use the item's tax code, else the supplier's;
+ *                         null for no tax.
+ *                     remarks:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Purchase order created, with tax and totals worked out per line.
+ *       400:
+ *         description: Validation error.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { lines, ...header } = req.body as PurchaseOrderHeader & {
+      lines?: PurchaseOrderLineInput[];
+    };
+
+    const linesError = validateStockLines(lines);
+    if (linesError) {
+      return res.status(400).json({
+        success: false,
+        error: linesError
+      });
+    }
+
+    const badPrice = lines!.findIndex((line) => !isValidPrice(line.unitPrice));
+    if (badPrice !== -1) {
+      return res.status(400).json({
+        success: false,
+        error: `lines[${badPrice}].unitPrice must be a non-negative number.`
+      });
+    }
+
+    const badTaxCode = lines!.findIndex(
+      (line) =>
+        line.taxCodeId !== undefined &&
+        line.taxCodeId !== null &&
+        typeof line.taxCodeId !== "string"
+    );
+    if (badTaxCode !== -1) {
+      return res.status(400).json({
+        success: false,
+        error: `lines[${badTaxCode}].taxCodeId must be a tax code id or null.`
+      });
+    }
+
+    const headerError = await validateHeader(header);
+    if (headerError) {
+      return res.status(400).json({
+        success: false,
+        error: headerError
+      });
+    }
+
+    if (!(await findActiveItems(prisma, lines!.map((line) => line.itemId)))) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more lines reference an invalid or inactive itemId."
+      });
+    }
+
+    try {
+      const purchaseOrder = await prisma.$transaction((tx) =>
+        createPurchaseOrder(
+          tx,
+          header,
+          lines!.map(({ itemId, quantity, unitPrice, taxCodeId, remarks }) => ({
+            itemId,
+            quantity,
+            unitPrice,
+            taxCodeId,
+            remarks
+          })),
+          req.user!.id
+        )
+      );
+
+      res.status(201).json({
+        success: true,
+        purchaseOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/from-requisitions:
+ *   post:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Create a DRAFT purchase order from approved requisitions.
+ *     description: >
+ *       Every line of the given requisitions becomes a purchase order line
+ *       and the requisitions move to ORDERED. Catalogue lines keep their
+ *       item; free-text lines must be mapped to an itemId in `lines`.
+ *       unitPrice defaults to the requisition's estimatedUnitCost.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - requisitionIds
+ *               - supplierId
+ *               - warehouseId
+ *             properties:
+ *               requisitionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               supplierId:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *               expectedDeliveryDate:
+ *                 type: string
+ *                 format: date
+ *               remarks:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 description: Per requisition line overrides.
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - requisitionLineId
+ *                   properties:
+ *                     requisitionLineId:
+ *                       type: string
+ *                     itemId:
+ *                       type: string
+ *                     unitPrice:
+ *                       type: number
+ *                     taxCodeId:
+ *                       type: string
+ *                       nullable: true
+ *     responses:
+ *       201:
+ *         description: Purchase order created.
+ *       400:
+ *         description: Validation error, unmapped free-text line or missing price.
+ *       409:
+ *         description: A requisition is not APPROVED (or was ordered concurrently).
+ */
+router.post(
+  "/from-requisitions",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { requisitionIds, lines: overrides, ...header } =
+      req.body as PurchaseOrderHeader & {
+        requisitionIds?: string[];
+        lines?: {
+          requisitionLineId: string;
+          itemId?: string;
+          unitPrice?: number;
+          taxCodeId?: string | null;
+        }[];
+      };
+
+    if (
+      !Array.isArray(requisitionIds) ||
+      requisitionIds.length === 0 ||
+      requisitionIds.some((id) => typeof id !== "string" || !id)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "requisitionIds must be a non-empty array."
+      });
+    }
+
+    if (overrides !== undefined && !Array.isArray(overrides)) {
+      return res.status(400).json({
+        success: false,
+        error: "lines must be an array when given."
+      });
+    }
+
+    const headerError = await validateHeader(header);
+    if (headerError) {
+      return res.status(400).json({
+        success: false,
+        error: headerError
+      });
+    }
+
+    const uniqueIds = [...new Set(requisitionIds)];
+    const requisitions = await prisma.requisition.findMany({
+      where: { id: { in: uniqueIds } },
+      include: { lines: true }
+    });
+
+    const notApproved = uniqueIds.filter(
+      (id) =>
+        !requisitions.some(
+          (requisition) =>
+            requisition.id === id &&
+            requisition.status === RequisitionStatus.APPROVED
+        )
+    );
+    if (notApproved.length > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `Requisition(s) not found or not APPROVED: ${notApproved.join(", ")}.`
+      });
+    }
+
+    const overridesByLine = new Map(
+      (overrides ?? []).map((override) => [override.requisitionLineId, override])
+    );
+
+    const lines: PurchaseOrderLineInput[] = [];
+    for (const requisition of requisitions) {
+      for (const reqLine of requisition.lines) {
+        const override = overridesByLine.get(reqLine.id);
+        const itemId = override?.itemId ?? reqLine.itemId;
+        const unitPrice = override?.unitPrice ?? reqLine.estimatedUnitCost?.toNumber();
+
+        if (!itemId) {
+          return res.status(400).json({
+            success: false,
+            error: `Requisition line ${reqLine.id} ("${reqLine.description}") needs an itemId.`
+          });
+        }
+        if (!isValidPrice(unitPrice)) {
+          return res.status(400).json({
+            success: false,
+            error: `Requisition line ${reqLine.id} needs a non-negative unitPrice.`
+          });
+        }
+
+        lines.push({
+          itemId,
+          quantity: reqLine.quantity.toNumber(),
+          unitPrice,
+          taxCodeId: override?.taxCodeId,
+          remarks: reqLine.remarks ?? undefined,
+          requisitionLineId: reqLine.id
+        });
+      }
+    }
+
+    if (!(await findActiveItems(prisma, lines.map((line) => line.itemId)))) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more lines reference an invalid or inactive itemId."
+      });
+    }
+
+    try {
+      const purchaseOrder = await prisma.$transaction(async (tx) => {
+        const po = await createPurchaseOrder(tx, header, lines, req.user!.id);
+
+        const ordered = await tx.requisition.updateMany({
+          where: { id: { in: uniqueIds }, status: RequisitionStatus.APPROVED },
+          data: { status: RequisitionStatus.ORDERED, purchaseOrderId: po.id }
+        });
+        if (ordered.count !== uniqueIds.length) {
+          throw createApiError(409, "A requisition was changed concurrently; retry.");
+        }
+
+        await tx.requisitionEvent.createMany({
+          data: uniqueIds.map((requisitionId) => ({
+            requisitionId,
+            status: RequisitionStatus.ORDERED,
+            remarks: `Ordered on ${po.poNumber}`,
+            createdById: req.user!.id
+          }))
+        });
+
+        return po;
+      });
+
+      res.status(201).json({
+        success: true,
+        purchaseOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders:
+ *   get:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: List purchase orders.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - DRAFT
+ *             - SUBMITTED
+ *             - APPROVED
+ *             - SENT
+ *             - PARTIALLY_RECEIVED
+ *             - RECEIVED
+ *             - CLOSED
+ *             - CANCELLED
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of purchase orders.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { status, supplierId, warehouseId } = req.query as {
+      status?: string;
+      supplierId?: string;
+      warehouseId?: string;
+    };
+
+    const where: any = {};
+
+    if (status) {
+      if (!Object.values(PurchaseOrderStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+    if (supplierId) where.supplierId = supplierId;
+    if (warehouseId) where.warehouseId = warehouseId;
+
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      where,
+      include: PO_INCLUDE,
+      orderBy: { createdAt: "desc" }
+    });
+
+    res.json({
+      success: true,
+      purchaseOrders
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/{id}:
+ *   get:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Get a purchase order with its requisitions, goods receipts, status history and approval trail.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order.
+ *       404:
+ *         description: Purchase order not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...PO_INCLUDE,
+        requisitions: { select: { id: true, department: true, purpose: true } },
+        goodsReceipts: {
+          select: { id: true, grnNumber: true, createdAt: true },
+          orderBy: { createdAt: "asc" }
+        },
+        events: {
+          include: { createdBy: USER_SUMMARY },
+          orderBy: { createdAt: "asc" }
+        }
+      }
+    });
+
+    if (!purchaseOrder) {
+      return res.status(404).json({
+        success: false,
+        error: "Purchase order not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      purchaseOrder,
+      approvals: await approvalTrail(
+        prisma,
+        ApprovalDocumentType.PURCHASE_ORDER,
+        purchaseOrder.id
+      )
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/{id}/document:
+ *   get:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Printable HTML version of the purchase order.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: HTML document.
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Purchase order not found.
+ */
+router.get(
+  "/:id/document",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const po = await findPurchaseOrder(req.params.id, res);
+    if (!po) return;
+
+    res.type("html").send(renderPurchaseOrderHtml(po));
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/{id}/submit:
+ *   post:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Submit a DRAFT purchase order for approval.
+ *     description: >
+ *       The order is routed through the approval matrix (by default, one
+ *       FINANCE approval). When the matching rule needs no approval at this
+ *       amount, it is approved and sent to the supplier straight away.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: >
+ *           Purchase order submitted; `approvalRequired` is false when it
+ *           was approved on submission, and `emailed` then tells whether it was sent.
+ *       404:
+ *         description: Purchase order not found.
+ *       409:
+ *         description: Purchase order is not a DRAFT.
+ */
+router.post(
+  "/:id/submit",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const po = await findPurchaseOrder(req.params.id, res);
+    if (!po) return;
+
+    const context = await approvalContext(po);
+    const plan = await planApproval(prisma, context, [
+      { approverRole: UserRole.FINANCE }
+    ]);
+    const approvalRequired = plan.steps.length > 0;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await transitionPurchaseOrder(
+          tx,
+          po.id,
+          [PurchaseOrderStatus.DRAFT],
+          PurchaseOrderStatus.SUBMITTED,
+          req.user!.id
+        );
+
+        if (approvalRequired) {
+          await openApproval(tx, context, plan);
+        } else {
+          await transitionPurchaseOrder(
+            tx,
+            po.id,
+            [PurchaseOrderStatus.SUBMITTED],
+            PurchaseOrderStatus.APPROVED,
+            req.user!.id,
+            "No approval required by the approval matrix.",
+            { approvedAt: new Date() }
+          );
+        }
+      });
+
+      let emailed = false;
+      if (!approvalRequired) {
+        try {
+          emailed = await sendToSupplier(
+            { ...po, status: PurchaseOrderStatus.APPROVED },
+            req.user!.id
+          );
+        } catch (error) {
+          console.error("[purchaseOrders] Failed to email purchase order", error);
+        }
+      }
+
+      res.json({
+        success: true,
+        approvalRequired,
+        emailed
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/{id}/approve:
+ *   post:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Approve the current approval step of a submitted purchase order.
+ *     description: >
+ *       Once the last step approves, the order is APPROVED and, when the
+ *       supplier has an email address and email is configured, sent straight
+ *       away (status SENT); otherwise it stays APPROVED and can be sent later.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Step approved; `emailed` tells whether the approved order was sent.
+ *       400:
+ *         description: Supplier is blocked.
+ *       403:
+ *         description: Caller is not the current step's approver or created the order.
+ *       404:
+ *         description: Purchase order not found.
+ *       409:
+ *         description: Purchase order is not SUBMITTED.
+ */
+router.post(
+  "/:id/approve",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { remarks } = req.body as { remarks?: string };
+
+    const po = await findPurchaseOrder(req.params.id, res);
+    if (!po) return;
+
+    if (po.supplier.status !== SupplierStatus.ACTIVE) {
+      return res.status(400).json({
+        success: false,
+        error: "Supplier is blocked."
+      });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id },
+      select: { id: true, role: true, department: true }
+    });
+
+    try {
+      const approved = await prisma.$transaction(async (tx) => {
+        const outcome = await decideApproval(
+          tx,
+          ApprovalDocumentType.PURCHASE_ORDER,
+          po.id,
+          user,
+          true,
+          remarks || null
+        );
+
+        if (outcome.status !== ApprovalRequestStatus.APPROVED) {
+          await logPurchaseOrderEvent(
+            tx,
+            po.id,
+            PurchaseOrderStatus.SUBMITTED,
+            user.id,
+            `Approval step ${outcome.sequence} of ${outcome.totalSteps} approved.` +
+              (remarks ? ` ${remarks}` : "")
+          );
+          return false;
+        }
+
+        await transitionPurchaseOrder(
+          tx,
+          po.id,
+          [PurchaseOrderStatus.SUBMITTED],
+          PurchaseOrderStatus.APPROVED,
+          user.id,
+          remarks || null,
+          { approvedAt: new Date() }
+        );
+        return true;
+      });
+
+      let emailed = false;
+      if (approved) {
+        try {
+          emailed = await sendToSupplier(
+            { ...po, status: PurchaseOrderStatus.APPROVED },
+            user.id
+          );
+        } catch (error) {
+          // Approval stands; the order can be re-sent via /send
+          console.error("[purchaseOrders] Failed to email purchase order", error);
+        }
+      }
+
+      const purchaseOrder = await prisma.purchaseOrder.findUniqueOrThrow({
+        where: { id: po.id },
+        include: PO_INCLUDE
+      });
+
+      res.json({
+        success: true,
+        emailed,
+        purchaseOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/{id}/reject:
+ *   post:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Reject a submitted purchase order back to DRAFT at its current approval step.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order returned to DRAFT.
+ *       400:
+ *         description: remarks missing.
+ *       403:
+ *         description: Caller is not the current step's approver or created the order.
+ *       404:
+ *         description: Purchase order not found.
+ *       409:
+ *         description: Purchase order is not SUBMITTED.
+ */
+router.post(
+  "/:id/reject",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { remarks } = req.body as { remarks?: string };
+
+    if (!remarks || !remarks.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "remarks are required when rejecting a purchase order."
+      });
+    }
+
+    const po = await findPurchaseOrder(req.params.id, res);
+    if (!po) return;
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id },
+      select: { id: true, role: true, department: true }
+    });
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await decideApproval(
+          tx,
+          ApprovalDocumentType.PURCHASE_ORDER,
+          po.id,
+          user,
+          false,
+          remarks.trim()
+        );
+
+        await transitionPurchaseOrder(
+          tx,
+          po.id,
+          [PurchaseOrderStatus.SUBMITTED],
+          PurchaseOrderStatus.DRAFT,
+          user.id,
+          `Rejected: ${remarks.trim()}`
+        );
+      });
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/{id}/send:
+ *   post:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Email (or re-email) an approved purchase order to the supplier.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order emailed; APPROVED orders become SENT.
+ *       400:
+ *         description: Supplier is blocked or has no email address.
+ *       404:
+ *         description: Purchase order not found.
+ *       409:
+ *         description: Purchase order has not been approved or is finished.
+ *       503:
+ *         description: Email is not configured.
+ */
+router.post(
+  "/:id/send",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const po = await findPurchaseOrder(req.params.id, res);
+    if (!po) return;
+
+    if (!SENDABLE_STATUSES.includes(po.status)) {
+      return res.status(409).json({
+        success: false,
+        error: `Only ${SENDABLE_STATUSES.join(", ")} purchase orders can be sent.`
+      });
+    }
+
+    if (po.supplier.status !== SupplierStatus.ACTIVE || !po.supplier.email) {
+      return res.status(400).json({
+        success: false,
+        error: "Supplier is blocked or has no email address."
+      });
+    }
+
+    try {
+      if (!(await sendToSupplier(po, req.user!.id))) {
+        return res.status(503).json({
+          success: false,
+          error: "Email is not configured."
+        });
+      }
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/{id}/close:
+ *   post:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Close a received or partially received purchase order.
+ *     description: >
+ *       Closing a partially received order cancels the undelivered balance.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order closed.
+ *       404:
+ *         description: Purchase order not found.
+ *       409:
+ *         description: Purchase order has not been received.
+ */
+router.post(
+  "/:id/close",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { remarks } = req.body as { remarks?: string };
+
+    const po = await findPurchaseOrder(req.params.id, res);
+    if (!po) return;
+
+    try {
+      await prisma.$transaction((tx) =>
+        transitionPurchaseOrder(
+          tx,
+          po.id,
+          [PurchaseOrderStatus.PARTIALLY_RECEIVED, PurchaseOrderStatus.RECEIVED],
+          PurchaseOrderStatus.CLOSED,
+          req.user!.id,
+          remarks || null
+        )
+      );
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/purchase-orders/{id}/cancel:
+ *   post:
+ *     tags:
+ *       - Purchase Orders
+ *     summary: Cancel a purchase order before anything is received.
+ *     description: >
+ *       Requisitions ordered on this purchase order go back to APPROVED so
+ *       they can be ordered again.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order cancelled.
+ *       400:
+ *         description: reason missing.
+ *       404:
+ *         description: Purchase order not found.
+ *       409:
+ *         description: Goods have already been received.
+ */
+router.post(
+  "/:id/cancel",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { reason } = req.body as { reason?: string };
+
+    if (!reason || !reason.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "reason is required to cancel a purchase order."
+      });
+    }
+
+    const po = await findPurchaseOrder(req.params.id, res);
+    if (!po) return;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await transitionPurchaseOrder(
+          tx,
+          po.id,
+          CANCELLABLE_STATUSES,
+          PurchaseOrderStatus.CANCELLED,
+          req.user!.id,
+          reason.trim()
+        );
+        await cancelApproval(tx, ApprovalDocumentType.PURCHASE_ORDER, po.id);
+
+        const requisitions = await tx.requisition.findMany({
+          where: { purchaseOrderId: po.id, status: RequisitionStatus.ORDERED },
+          select: { id: true }
+        });
+        if (requisitions.length === 0) return;
+
+        await tx.requisition.updateMany({
+          where: { id: { in: requisitions.map((r) => r.id) } },
+          data: { status: RequisitionStatus.APPROVED, purchaseOrderId: null }
+        });
+        await tx.requisitionEvent.createMany({
+          data: requisitions.map((requisition) => ({
+            requisitionId: requisition.id,
+            status: RequisitionStatus.APPROVED,
+            remarks: `${po.poNumber} cancelled: ${reason.trim()}`,
+            createdById: req.user!.id
+          }))
+        });
+      });
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,467 @@
+// src/routes/replenishment.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import {
+  PurchaseOrderStatus,
+  ReplenishmentStatus,
+  SupplierStatus
+} from "@prisma/client";
+import { runReplenishment } from "../jobs/replenishment";
+import { PurchaseOrderLineInput, createPurchaseOrder } from "../utils/purchaseOrders";
+
+const router = Router();
+
+const BUYER_ROLES = ["ADMIN", "PROCUREMENT"];
+
+const VIEWER_ROLES = [...BUYER_ROLES, "STOREKEEPER"];
+
+const SUGGESTION_INCLUDE = {
+  item: true,
+  warehouse: true,
+  supplier: true
+};
+
+//Last price paid to a supplier for an item, from its latest purchase order
+async function lastPrice(itemId: string, supplierId: string) {
+  const line = await prisma.purchaseOrderLine.findFirst({
+    where: {
+      itemId,
+      purchaseOrder: { supplierId, status: { not: PurchaseOrderStatus.CANCELLED } }
+    },
+    orderBy: { purchaseOrder: { createdAt: "desc" } }
+  });
+  return line?.unitPrice.toNumber();
+}
+
+/**
+ * @openapi
+ * /api/replenishment/run:
+ *   post:
+ *     tags:
+ *       - Replenishment
+ *     summary: Recompute replenishment suggestions now.
+ *     description: >
+ *       The same computation also runs every REPLENISHMENT_INTERVAL_MINUTES.
+ *       Open suggestions are refreshed, added or dropped; confirmed and
+ *       dismissed ones are kept. No new suggestion is made for a pair while
+ *       its latest confirmed suggestion's purchase order is still open, or
+ *       while its latest dismissed suggestion has the same stock on hand or
+ *       suggested quantity.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Counts of new, refreshed, dropped and held back suggestions.
+ */
+router.post(
+  "/run",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await runReplenishment();
+
+      res.json({
+        success: true,
+        ...result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/replenishment/suggestions:
+ *   get:
+ *     tags:
+ *       - Replenishment
+ *     summary: List replenishment suggestions grouped by supplier and warehouse.
+ *     description: >
+ *       Each group is what one draft purchase order would contain once
+ *       confirmed. Suggestions without a preferred supplier form their own
+ *       group per warehouse (supplier null).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           default: OPEN
+ *           enum:
+ *             - OPEN
+ *             - CONFIRMED
+ *             - DISMISSED
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Suggestions, grouped.
+ */
+router.get(
+  "/suggestions",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { status, warehouseId, supplierId } = req.query as {
+      status?: string;
+      warehouseId?: string;
+      supplierId?: string;
+    };
+
+    const where: any = { status: ReplenishmentStatus.OPEN };
+
+    if (status) {
+      if (!Object.values(ReplenishmentStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+    if (warehouseId) where.warehouseId = warehouseId;
+    if (supplierId) where.supplierId = supplierId;
+
+    const suggestions = await prisma.replenishmentSuggestion.findMany({
+      where,
+      include: SUGGESTION_INCLUDE,
+      orderBy: [{ warehouse: { name: "asc" } }, { item: { name: "asc" } }]
+    });
+
+    const groups = new Map<
+      string,
+      {
+        supplier: (typeof suggestions)[number]["supplier"];
+        warehouse: (typeof suggestions)[number]["warehouse"];
+        suggestions: typeof suggestions;
+      }
+    >();
+    for (const suggestion of suggestions) {
+      const key = `${suggestion.supplierId ?? ""}|${suggestion.warehouseId}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          supplier: suggestion.supplier,
+          warehouse: suggestion.warehouse,
+          suggestions: []
+        });
+      }
+      groups.get(key)!.suggestions.push(suggestion);
+    }
+
+    res.json({
+      success: true,
+      groups: [...groups.values()]
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/replenishment/suggestions/confirm:
+ *   post:
+ *     tags:
+ *       - Replenishment
+ *     summary: Confirm open suggestions into draft purchase orders.
+ *     description: >
+ *       One DRAFT purchase order is created per supplier and warehouse.
+ *       Suggestions without a preferred supplier need supplierId. Quantities
+ *       and prices may be overridden per suggestion; the price defaults to
+ *       the last price paid to the supplier for the item.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - suggestionIds
+ *             properties:
+ *               suggestionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               supplierId:
+ *                 type: string
+ *                 description: Supplier for suggestions without a preferred one.
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - suggestionId
+ *                   properties:
+ *                     suggestionId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     unitPrice:
+ *                       type: number
+ *     responses:
+ *       201:
+ *         description: Draft purchase orders created.
+ *       400:
+ *         description: Validation error, missing supplier or price.
+ *       409:
+ *         description: A suggestion is no longer open.
+ */
+router.post(
+  "/suggestions/confirm",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { suggestionIds, supplierId, lines: overrides } = req.body as {
+      suggestionIds?: string[];
+      supplierId?: string;
+      lines?: { suggestionId: string; quantity?: number; unitPrice?: number }[];
+    };
+
+    if (
+      !Array.isArray(suggestionIds) ||
+      suggestionIds.length === 0 ||
+      suggestionIds.some((id) => typeof id !== "string" || !id)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "suggestionIds must be a non-empty array."
+      });
+    }
+
+    if (
+      overrides !== undefined &&
+      (!Array.isArray(overrides) ||
+        overrides.some(
+          (override) =>
+            typeof override?.suggestionId !== "string" ||
+            !override.suggestionId ||
+            (override.quantity !== undefined && typeof override.quantity !== "number") ||
+            (override.unitPrice !== undefined && typeof override.unitPrice !== "number")
+        ))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "lines must be an array of { suggestionId, quantity?, unitPrice? } when given."
+      });
+    }
+
+    const uniqueIds = [...new Set(suggestionIds)];
+    const suggestions = await prisma.replenishmentSuggestion.findMany({
+      where: { id: { in: uniqueIds }, status: ReplenishmentStatus.OPEN },
+      include: SUGGESTION_INCLUDE
+    });
+    if (suggestions.length !== uniqueIds.length) {
+      return res.status(409).json({
+        success: false,
+        error: "One or more suggestions are not found or no longer open."
+      });
+    }
+
+    const overridesById = new Map(
+      (overrides ?? []).map((override) => [override.suggestionId, override])
+    );
+
+    const groups = new Map<
+      string,
+      { supplierId: string; warehouseId: string; ids: string[]; lines: PurchaseOrderLineInput[] }
+    >();
+
+    for (const suggestion of suggestions) {
+      const override = overridesById.get(suggestion.id);
+      const lineSupplierId = suggestion.supplierId ?? supplierId;
+
+      if (!lineSupplierId) {
+        return res.status(400).json({
+          success: false,
+          error: `"${suggestion.item.name}" has no preferred supplier; give supplierId.`
+        });
+      }
+
+      const quantity = override?.quantity ?? suggestion.suggestedQuantity.toNumber();
+      if (typeof quantity !== "number" || !(quantity > 0)) {
+        return res.status(400).json({
+          success: false,
+          error: `Quantity for "${suggestion.item.name}" must be a positive number.`
+        });
+      }
+
+      const unitPrice =
+        override?.unitPrice ?? (await lastPrice(suggestion.itemId, lineSupplierId));
+      if (typeof unitPrice !== "number" || unitPrice < 0) {
+        return res.status(400).json({
+          success: false,
+          error: `"${suggestion.item.name}" has no previous price from this supplier; give unitPrice.`
+        });
+      }
+
+      const key = `${lineSupplierId}|${suggestion.warehouseId}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          supplierId: lineSupplierId,
+          warehouseId: suggestion.warehouseId,
+          ids: [],
+          lines: []
+        });
+      }
+      const group = groups.get(key)!;
+      group.ids.push(suggestion.id);
+      group.lines.push({ itemId: suggestion.itemId, quantity, unitPrice });
+    }
+
+    const supplierIds = [...new Set([...groups.values()].map((g) => g.supplierId))];
+    const activeSuppliers = await prisma.supplier.count({
+      where: { id: { in: supplierIds }, status: SupplierStatus.ACTIVE }
+    });
+    if (activeSuppliers !== supplierIds.length) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more suppliers are invalid or blocked."
+      });
+    }
+
+    try {
+      const purchaseOrders = await prisma.$transaction(async (tx) => {
+        const created = [];
+
+        for (const group of groups.values()) {
+          const po = await createPurchaseOrder(
+            tx,
+            {
+              supplierId: group.supplierId,
+              warehouseId: group.warehouseId,
+              remarks: "Raised from replenishment suggestions"
+            },
+            group.lines,
+            req.user!.id
+          );
+
+          const confirmed = await tx.replenishmentSuggestion.updateMany({
+            where: { id: { in: group.ids }, status: ReplenishmentStatus.OPEN },
+            data: {
+              status: ReplenishmentStatus.CONFIRMED,
+              purchaseOrderId: po.id,
+              decidedById: req.user!.id,
+              decidedAt: new Date()
+            }
+          });
+          if (confirmed.count !== group.ids.length) {
+            throw createApiError(409, "A suggestion was changed concurrently; retry.");
+          }
+
+          created.push(po);
+        }
+
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        purchaseOrders
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/replenishment/suggestions/dismiss:
+ *   post:
+ *     tags:
+ *       - Replenishment
+ *     summary: Dismiss open suggestions.
+ *     description: >
+ *       Dismissed suggestions stay on record. The pair is only suggested
+ *       again once both its stock on hand and its suggested quantity have
+ *       changed, and it still needs stock.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - suggestionIds
+ *               - remarks
+ *             properties:
+ *               suggestionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Suggestions dismissed.
+ *       400:
+ *         description: Validation error.
+ */
+router.post(
+  "/suggestions/dismiss",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response) => {
+    const { suggestionIds, remarks } = req.body as {
+      suggestionIds?: string[];
+      remarks?: string;
+    };
+
+    if (!Array.isArray(suggestionIds) || suggestionIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "suggestionIds must be a non-empty array."
+      });
+    }
+
+    if (!remarks || !remarks.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "remarks are required when dismissing suggestions."
+      });
+    }
+
+    const dismissed = await prisma.replenishmentSuggestion.updateMany({
+      where: { id: { in: suggestionIds }, status: ReplenishmentStatus.OPEN },
+      data: {
+        status: ReplenishmentStatus.DISMISSED,
+        remarks: remarks.trim(),
+        decidedById: req.user!.id,
+        decidedAt: new Date()
+      }
+    });
+
+    res.json({
+      success: true,
+      dismissed: dismissed.count
+    });
+  }
+);
+
+export default router;
@@ -0,0 +1,821 @@
+// src/routes/requisition.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import { ENV } from "../config/env";
+import {
+  ApprovalDocumentType,
+  ApprovalRequestStatus,
+  Item,
+  Prisma,
+  RequisitionStatus,
+  UserRole
+} from "@prisma/client";
+import { findActiveItems } from "../utils/stock";
+import { BudgetLine, BudgetOverrun, findBudgetOverruns } from "../utils/budgets";
+import {
+  approvalTrail,
+  cancelApproval,
+  decideApproval,
+  escalateApproval,
+  openApproval,
+  planApproval
+} from "../utils/approvals";
+
+const router = Router();
+
+const REQUESTER_ROLES = ["ADMIN", "DEPARTMENT_MANAGER", "STAFF"];
+
+const VIEWER_ROLES = [...REQUESTER_ROLES, "PROCUREMENT"];
+
+const USER_SUMMARY = { select: { id: true, fullName: true, email: true } };
+
+const REQUISITION_INCLUDE = {
+  lines: { include: { item: true } },
+  requestedBy: USER_SUMMARY,
+  decidedBy: USER_SUMMARY
+};
+
+interface RequisitionLineInput {
+  itemId?: string;
+  description?: string;
+  unit?: string;
+  quantity: number;
+  estimatedUnitCost?: number;
+  categoryId?: string;
+  remarks?: string;
+}
+
+//Each line is either a catalogue item (itemId) or free-text goods
+//(description + unit). Returns an error message or null.
+function validateRequisitionLines(lines: unknown): string | null {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return "lines must be a non-empty array.";
+  }
+
+  for (const [index, line] of lines.entries()) {
+    if (!line || typeof line !== "object") {
+      return `lines[${index}] must be an object.`;
+    }
+    if (line.itemId !== undefined) {
+      if (typeof line.itemId !== "string" || !line.itemId) {
+        return `lines[${index}].itemId must be a non-empty string.`;
+      }
+    } else if (
+      typeof line.description !== "string" ||
+      !line.description.trim() ||
+      typeof line.unit !== "string" ||
+      !line.unit.trim()
+    ) {
+      return `lines[${index}] needs an itemId, or a description and unit for free-text goods.`;
+    }
+    if (typeof line.quantity !== "number" || !(line.quantity > 0)) {
+      return `lines[${index}].quantity must be a positive number.`;
+    }
+    if (
+      line.estimatedUnitCost !== undefined &&
+      (typeof line.estimatedUnitCost !== "number" || line.estimatedUnitCost < 0)
+    ) {
+      return `lines[${index}].estimatedUnitCost cannot be negative.`;
+    }
+    if (
+      line.categoryId !== undefined &&
+      (line.itemId !== undefined || typeof line.categoryId !== "string" || !line.categoryId)
+    ) {
+      return `lines[${index}].categoryId is only for free-text lines and must be a non-empty string.`;
+    }
+  }
+
+  return null;
+}
+
+//Requisitions a user may see: ADMIN sees all, PROCUREMENT the approved
+//(and ordered) ones, managers their department and everyone else their own.
+function visibleTo(user: {
+  id: string;
+  role: string;
+  department: string | null;
+}): Prisma.RequisitionWhereInput {
+  switch (user.role) {
+    case "ADMIN":
+      return {};
+    case "PROCUREMENT":
+      return {
+        status: { in: [RequisitionStatus.APPROVED, RequisitionStatus.ORDERED] }
+      };
+    case "DEPARTMENT_MANAGER":
+      return user.department
+        ? { department: user.department }
+        : { requestedById: user.id };
+    default:
+      return { requestedById: user.id };
+  }
+}
+
+//Estimated value of each line for budget checks. Lines without an
+//estimated unit cost count as zero.
+function toBudgetLines(
+  lines: {
+    categoryId: string | null;
+    quantity: Prisma.Decimal.Value;
+    estimatedUnitCost?: Prisma.Decimal.Value | null;
+  }[]
+): BudgetLine[] {
+  return lines.map((line) => ({
+    categoryId: line.categoryId,
+    amount: new Prisma.Decimal(line.estimatedUnitCost ?? 0).times(line.quantity)
+  }));
+}
+
+function loadUser(id: string) {
+  return prisma.user.findUniqueOrThrow({
+    where: { id },
+    select: { id: true, role: true, department: true }
+  });
+}
+
+function logEvent(
+  tx: Prisma.TransactionClient,
+  requisitionId: string,
+  status: RequisitionStatus,
+  createdById: string,
+  remarks?: string | null
+) {
+  return tx.requisitionEvent.create({
+    data: { requisitionId, status, createdById, remarks: remarks ?? null }
+  });
+}
+
+//Decide the current approval step of a pending requisition. The
+//requisition becomes APPROVED once the last step approves and REJECTED as
+//soon as any step rejects; who may act is up to the approval matrix.
+async function decide(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  approve: boolean
+) {
+  const { remarks } = req.body as { remarks?: string };
+
+  if (!approve && (!remarks || !remarks.trim())) {
+    return res.status(400).json({
+      success: false,
+      error: "remarks are required when rejecting a requisition."
+    });
+  }
+
+  const requisition = await prisma.requisition.findUnique({
+    where: { id: req.params.id },
+    include: { lines: { include: { item: true } } }
+  });
+
+  if (!requisition) {
+    return res.status(404).json({
+      success: false,
+      error: "Requisition not found."
+    });
+  }
+
+  const user = await loadUser(req.user!.id);
+
+  //Re-check the budget at approval: spending may have moved since it was raised
+  let overruns: BudgetOverrun[] = [];
+  if (approve) {
+    overruns = await findBudgetOverruns(
+      prisma,
+      requisition.department,
+      toBudgetLines(
+        requisition.lines.map((line) => ({
+          categoryId: line.item ? line.item.categoryId : line.categoryId,
+          quantity: line.quantity,
+          estimatedUnitCost: line.estimatedUnitCost
+        }))
+      )
+    );
+
+    if (overruns.length > 0 && ENV.BUDGET_OVERRUN_POLICY === "BLOCK") {
+      return res.status(400).json({
+        success: false,
+        error: "This requisition exceeds the remaining budget.",
+        overruns
+      });
+    }
+  }
+
+  const budgetExceeded = requisition.budgetExceeded || overruns.length > 0;
+
+  try {
+    const decided = await prisma.$transaction(async (tx) => {
+      if (overruns.length > 0 && user.role !== "ADMIN") {
+        await escalateApproval(
+          tx,
+          ApprovalDocumentType.REQUISITION,
+          requisition.id,
+          UserRole.ADMIN
+        );
+      }
+
+      const outcome = await decideApproval(
+        tx,
+        ApprovalDocumentType.REQUISITION,
+        requisition.id,
+        user,
+        approve,
+        remarks?.trim()
+      );
+
+      if (outcome.status === ApprovalRequestStatus.PENDING) {
+        await tx.requisition.update({
+          where: { id: requisition.id },
+          data: { budgetExceeded }
+        });
+        await logEvent(
+          tx,
+          requisition.id,
+          RequisitionStatus.PENDING_APPROVAL,
+          user.id,
+          `Approval step ${outcome.sequence} of ${outcome.totalSteps} approved.` +
+            (remarks?.trim() ? ` ${remarks.trim()}` : "")
+        );
+      } else {
+        const status =
+          outcome.status === ApprovalRequestStatus.APPROVED
+            ? RequisitionStatus.APPROVED
+            : RequisitionStatus.REJECTED;
+
+        const updated = await tx.requisition.updateMany({
+          where: {
+            id: requisition.id,
+            status: RequisitionStatus.PENDING_APPROVAL
+          },
+          data: {
+            status,
+            decidedById: user.id,
+            decidedAt: new Date(),
+            decisionRemarks: remarks?.trim() || null,
+            budgetExceeded
+          }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "Only pending requisitions can be decided.");
+        }
+
+        await logEvent(tx, requisition.id, status, user.id, remarks?.trim());
+      }
+
+      return tx.requisition.findUniqueOrThrow({
+        where: { id: requisition.id },
+        include: REQUISITION_INCLUDE
+      });
+    });
+
+    res.json({
+      success: true,
+      requisition: decided
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @openapi
+ * /api/requisitions:
+ *   post:
+ *     tags:
+ *       - Requisitions
+ *     summary: Raise a purchase requisition for the caller's department.
+ *     description: >
+ *       Lines reference a catalogue item by itemId, or describe free-text
+ *       goods with description and unit (and optionally the expense
+ *       categoryId). The requisition starts PENDING_APPROVAL and goes through
+ *       the approval matrix (by default, the department manager). Requisitions
+ *       whose estimated cost exceeds a remaining department budget are
+ *       refused or, depending on BUDGET_OVERRUN_POLICY, flagged
+ *       budgetExceeded and escalated to an ADMIN.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - purpose
+ *               - lines
+ *             properties:
+ *               purpose:
+ *                 type: string
+ *               neededBy:
+ *                 type: string
+ *                 format: date
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - quantity
+ *                   properties:
+ *                     itemId:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     unit:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     estimatedUnitCost:
+ *                       type: number
+ *                     categoryId:
+ *                       type: string
+ *                       description: Expense category of a free-text line.
+ *                     remarks:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Requisition raised.
+ *       400:
+ *         description: Validation error, caller has no department or budget exceeded under the BLOCK policy.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(REQUESTER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { purpose, neededBy, lines } = req.body as {
+      purpose?: string;
+      neededBy?: string;
+      lines?: RequisitionLineInput[];
+    };
+
+    if (!purpose || !purpose.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "purpose is required."
+      });
+    }
+
+    if (neededBy !== undefined && isNaN(new Date(neededBy).getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "neededBy must be a valid date."
+      });
+    }
+
+    const linesError = validateRequisitionLines(lines);
+    if (linesError) {
+      return res.status(400).json({
+        success: false,
+        error: linesError
+      });
+    }
+
+    const user = await loadUser(req.user!.id);
+    if (!user.department) {
+      return res.status(400).json({
+        success: false,
+        error: "Your account has no department; ask an administrator to set one."
+      });
+    }
+
+    const catalogueIds = lines!
+      .filter((line) => line.itemId !== undefined)
+      .map((line) => line.itemId!);
+    const items =
+      catalogueIds.length > 0
+        ? await findActiveItems(prisma, catalogueIds)
+        : new Map<string, Item>();
+    if (!items) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more lines reference an invalid or inactive itemId."
+      });
+    }
+
+    const categoryIds = [
+      ...new Set(
+        lines!.filter((line) => line.categoryId).map((line) => line.categoryId!)
+      )
+    ];
+    const activeCategories = await prisma.itemCategory.count({
+      where: { id: { in: categoryIds }, isActive: true }
+    });
+    if (activeCategories !== categoryIds.length) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more lines reference an invalid or inactive categoryId."
+      });
+    }
+
+    const budgetLines = toBudgetLines(
+      lines!.map((line) => ({
+        categoryId: line.itemId
+          ? items.get(line.itemId)!.categoryId
+          : line.categoryId ?? null,
+        quantity: line.quantity,
+        estimatedUnitCost: line.estimatedUnitCost
+      }))
+    );
+    const overruns = await findBudgetOverruns(prisma, user.department, budgetLines);
+
+    if (overruns.length > 0 && ENV.BUDGET_OVERRUN_POLICY === "BLOCK") {
+      return res.status(400).json({
+        success: false,
+        error: "This requisition exceeds the remaining budget.",
+        overruns
+      });
+    }
+
+    const approvalContext = {
+      documentType: ApprovalDocumentType.REQUISITION,
+      department: user.department,
+      categoryIds: [
+        ...new Set(
+          budgetLines.filter((line) => line.categoryId).map((line) => line.categoryId!)
+        )
+      ],
+      amount: budgetLines.reduce(
+        (sum, line) => sum.plus(line.amount),
+        new Prisma.Decimal(0)
+      )
+    };
+    const plan = await planApproval(prisma, approvalContext, [
+      { approverRole: UserRole.DEPARTMENT_MANAGER }
+    ]);
+    if (overruns.length > 0) {
+      plan.steps.push({ approverRole: UserRole.ADMIN });
+    }
+
+    try {
+      const requisition = await prisma.$transaction(async (tx) => {
+        const created = await tx.requisition.create({
+          data: {
+            department: user.department!,
+            status:
+              plan.steps.length > 0
+                ? RequisitionStatus.PENDING_APPROVAL
+                : RequisitionStatus.APPROVED,
+            purpose: purpose.trim(),
+            neededBy: neededBy ? new Date(neededBy) : null,
+            requestedById: user.id,
+            budgetExceeded: overruns.length > 0,
+            lines: {
+              create: lines!.map((line) => ({
+                itemId: line.itemId ?? null,
+                description: line.description?.trim() || null,
+                unit: line.itemId ? null : line.unit!.trim(),
+                quantity: line.quantity,
+                estimatedUnitCost: line.estimatedUnitCost ?? null,
+                categoryId: line.itemId ? null : line.categoryId ?? null,
+                remarks: line.remarks || null
+              }))
+            }
+          },
+          include: REQUISITION_INCLUDE
+        });
+
+        if (plan.steps.length > 0) {
+          await openApproval(
+            tx,
+            { ...approvalContext, documentId: created.id, requestedById: user.id },
+            plan
+          );
+        }
+
+        await logEvent(
+          tx,
+          created.id,
+          created.status,
+          user.id,
+          plan.steps.length === 0
+            ? "No approval required by the approval matrix."
+            : created.budgetExceeded
+              ? "Exceeds remaining budget; escalated to ADMIN approval."
+              : null
+        );
+
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        requisition
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/requisitions:
+ *   get:
+ *     tags:
+ *       - Requisitions
+ *     summary: List requisitions visible to the caller.
+ *     description: >
+ *       ADMIN sees every requisition, PROCUREMENT only approved and ordered ones,
+ *       department managers their department's and other users their own.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - PENDING_APPROVAL
+ *             - APPROVED
+ *             - REJECTED
+ *             - CANCELLED
+ *             - ORDERED
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of requisitions.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { status, department } = req.query as {
+      status?: string;
+      department?: string;
+    };
+
+    const where: any = {};
+
+    if (status) {
+      if (!Object.values(RequisitionStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+    if (department) where.department = department;
+
+    const user = await loadUser(req.user!.id);
+
+    const requisitions = await prisma.requisition.findMany({
+      where: { AND: [where, visibleTo(user)] },
+      include: REQUISITION_INCLUDE,
+      orderBy: { createdAt: "desc" }
+    });
+
+    res.json({
+      success: true,
+      requisitions
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/requisitions/{id}:
+ *   get:
+ *     tags:
+ *       - Requisitions
+ *     summary: Get a requisition with its status history and approval trail.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Requisition and events, oldest first.
+ *       404:
+ *         description: Requisition not found or not visible to the caller.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const user = await loadUser(req.user!.id);
+
+    const requisition = await prisma.requisition.findFirst({
+      where: { AND: [{ id: req.params.id }, visibleTo(user)] },
+      include: {
+        ...REQUISITION_INCLUDE,
+        events: {
+          include: { createdBy: USER_SUMMARY },
+          orderBy: { createdAt: "asc" }
+        }
+      }
+    });
+
+    if (!requisition) {
+      return res.status(404).json({
+        success: false,
+        error: "Requisition not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      requisition,
+      approvals: await approvalTrail(
+        prisma,
+        ApprovalDocumentType.REQUISITION,
+        requisition.id
+      )
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/requisitions/{id}/approve:
+ *   post:
+ *     tags:
+ *       - Requisitions
+ *     summary: Approve the current approval step of a pending requisition.
+ *     description: >
+ *       The requisition is APPROVED once the last step of its approval route
+ *       approves. The department budget is checked again; requisitions over
+ *       the remaining budget are refused or escalated to an ADMIN depending
+ *       on BUDGET_OVERRUN_POLICY.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Step approved; the requisition is APPROVED after the last step.
+ *       400:
+ *         description: Requisition exceeds the remaining budget (BLOCK policy).
+ *       403:
+ *         description: Caller is not the current step's approver or raised it.
+ *       404:
+ *         description: Requisition not found.
+ *       409:
+ *         description: Requisition is not pending.
+ */
+router.post(
+  "/:id/approve",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  (req: Request, res: Response, next: NextFunction) =>
+    decide(req, res, next, true)
+);
+
+/**
+ * @openapi
+ * /api/requisitions/{id}/reject:
+ *   post:
+ *     tags:
+ *       - Requisitions
+ *     summary: Reject a pending requisition at its current approval step, with comments.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Requisition rejected.
+ *       400:
+ *         description: remarks missing.
+ *       403:
+ *         description: Caller is not the current step's approver or raised it.
+ *       404:
+ *         description: Requisition not found.
+ *       409:
+ *         description: Requisition is not pending.
+ */
+router.post(
+  "/:id/reject",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  (req: Request, res: Response, next: NextFunction) =>
+    decide(req, res, next, false)
+);
+
+/**
+ * @openapi
+ * /api/requisitions/{id}/cancel:
+ *   post:
+ *     tags:
+ *       - Requisitions
+ *     summary: Withdraw a pending requisition (requester only).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Requisition cancelled.
+ *       409:
+ *         description: Not an existing pending requisition of the caller.
+ */
+router.post(
+  "/:id/cancel",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(REQUESTER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { remarks } = req.body as { remarks?: string };
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const updated = await tx.requisition.updateMany({
+          where: {
+            id: req.params.id,
+            requestedById: req.user!.id,
+            status: RequisitionStatus.PENDING_APPROVAL
+          },
+          data: { status: RequisitionStatus.CANCELLED }
+        });
+        if (updated.count === 0) {
+          throw createApiError(
+            409,
+            "Only your own pending requisitions can be cancelled."
+          );
+        }
+
+        await cancelApproval(tx, ApprovalDocumentType.REQUISITION, req.params.id);
+
+        await logEvent(
+          tx,
+          req.params.id,
+          RequisitionStatus.CANCELLED,
+          req.user!.id,
+          remarks?.trim()
+        );
+      });
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,956 @@
+// src/routes/rfq.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import { ENV } from "../config/env";
+import { sendEmail } from "../config/email";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import {
+  Prisma,
+  RfqStatus,
+  RfqSupplierStatus,
+  SupplierStatus
+} from "@prisma/client";
+import { findActiveItems, validateStockLines } from "../utils/stock";
+import { exchangeRateOn } from "../utils/currency";
+import { nextDocumentNumber } from "../utils/sequence";
+import { USER_SUMMARY, createPurchaseOrder } from "../utils/purchaseOrders";
+
+const router = Router();
+
+const BUYER_ROLES = ["ADMIN", "PROCUREMENT"];
+
+const VIEWER_ROLES = [...BUYER_ROLES, "FINANCE"];
+
+const RFQ_INCLUDE = {
+  warehouse: true,
+  createdBy: USER_SUMMARY,
+  lines: { include: { item: true } },
+  suppliers: { include: { supplier: true, quoteLines: true } }
+};
+
+type RfqWithQuotes = Prisma.RfqGetPayload<{ include: typeof RFQ_INCLUDE }>;
+
+//Side-by-side view of the quotes on an RFQ: per line, every supplier's
+//price with the cheapest flagged; per supplier, totals and terms.
+function buildComparison(rfq: RfqWithQuotes, rates: Map<string, Prisma.Decimal>) {
+  const now = new Date();
+  const quoted = rfq.suppliers.filter((s) => s.quotedAt !== null);
+
+  const lines = rfq.lines.map((line) => {
+    const offers = quoted
+      .map((s) => {
+        const quoteLine = s.quoteLines.find((q) => q.rfqLineId === line.id);
+        return quoteLine
+          ? {
+              supplierId: s.supplierId,
+              currency: s.supplier.currency,
+              unitPrice: quoteLine.unitPrice,
+              lineTotal: quoteLine.unitPrice.times(line.quantity),
+              baseUnitPrice: quoteLine.unitPrice.times(rates.get(s.supplier.currency)!)
+            }
+          : null;
+      })
+      .filter((offer) => offer !== null);
+
+    //Quotes in different currencies are compared in the base currency
+    const lowest = offers.reduce<Prisma.Decimal | null>(
+      (min, offer) =>
+        min === null || offer.baseUnitPrice.lt(min) ? offer.baseUnitPrice : min,
+      null
+    );
+
+    return {
+      rfqLineId: line.id,
+      item: line.item,
+      quantity: line.quantity,
+      offers: offers.map((offer) => ({
+        ...offer,
+        isLowest: lowest !== null && offer.baseUnitPrice.equals(lowest)
+      }))
+    };
+  });
+
+  const suppliers = rfq.suppliers.map((s) => {
+    const total = s.quoteLines.reduce((sum, quoteLine) => {
+      const line = rfq.lines.find((l) => l.id === quoteLine.rfqLineId)!;
+      return sum.plus(quoteLine.unitPrice.times(line.quantity));
+    }, new Prisma.Decimal(0));
+
+    return {
+      supplierId: s.supplierId,
+      supplier: s.supplier,
+      status: s.status,
+      quotedAt: s.quotedAt,
+      leadTimeDays: s.leadTimeDays,
+      validUntil: s.validUntil,
+      isExpired: s.validUntil !== null && s.validUntil < now,
+      coversAllLines: s.quoteLines.length === rfq.lines.length,
+      currency: s.supplier.currency,
+      total: s.quotedAt ? total : null,
+      baseTotal: s.quotedAt ? total.times(rates.get(s.supplier.currency)!) : null,
+      remarks: s.remarks,
+      notAwardedReason: s.notAwardedReason
+    };
+  });
+
+  return { lines, suppliers };
+}
+
+//Invite a supplier by email. Failures are logged, never thrown.
+async function emailInvitation(
+  rfq: RfqWithQuotes,
+  supplier: { name: string; email: string | null }
+): Promise<boolean> {
+  if (!supplier.email) {
+    return false;
+  }
+
+  const items = rfq.lines
+    .map((line) => `- ${line.item.name}: ${line.quantity} ${line.item.unit}`)
+    .join("\n");
+
+  try {
+    return await sendEmail({
+      to: supplier.email,
+      subject: `Request for quotation ${rfq.rfqNumber}: ${rfq.title}`,
+      text: `Dear ${supplier.name},
+
+${ENV.COMPANY_NAME} invites you to quote for the following items, delivered to ${rfq.warehouse.name}:
+
+${items}
+
+Please include unit prices, lead time and how long your quote is valid${
+        rfq.responseDeadline
+          ? `, and reply by ${rfq.responseDeadline.toISOString().slice(0, 10)}`
+          : ""
+      }.
+
+Quote ${rfq.rfqNumber} in your reply.
+
+${ENV.COMPANY_NAME}`
+    });
+  } catch (error) {
+    console.error("[rfq] Failed to email invitation", error);
+    return false;
+  }
+}
+
+/**
+ * @openapi
+ * /api/rfqs:
+ *   post:
+ *     tags:
+ *       - RFQs
+ *     summary: Send a request for quotation for a set of items to several suppliers.
+ *     description: >
+ *       The RFQ opens straight away and invited suppliers with an email
+ *       address are emailed the item list.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - warehouseId
+ *               - supplierIds
+ *               - lines
+ *             properties:
+ *               title:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *                 description: Delivery warehouse for the resulting purchase order.
+ *               responseDeadline:
+ *                 type: string
+ *                 format: date
+ *               remarks:
+ *                 type: string
+ *               supplierIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - itemId
+ *                     - quantity
+ *                   properties:
+ *                     itemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *     responses:
+ *       201:
+ *         description: RFQ created; `emailed` counts suppliers invited by email.
+ *       400:
+ *         description: Validation error.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { title, warehouseId, responseDeadline, remarks, supplierIds, lines } =
+      req.body as {
+        title?: string;
+        warehouseId?: string;
+        responseDeadline?: string;
+        remarks?: string;
+        supplierIds?: string[];
+        lines?: { itemId: string; quantity: number }[];
+      };
+
+    if (!title || !title.trim() || !warehouseId) {
+      return res.status(400).json({
+        success: false,
+        error: "title and warehouseId are required."
+      });
+    }
+
+    if (responseDeadline !== undefined && isNaN(new Date(responseDeadline).getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "responseDeadline must be a valid date."
+      });
+    }
+
+    if (
+      !Array.isArray(supplierIds) ||
+      supplierIds.length === 0 ||
+      supplierIds.some((id) => typeof id !== "string" || !id)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "supplierIds must be a non-empty array."
+      });
+    }
+
+    const linesError = validateStockLines(lines);
+    if (linesError) {
+      return res.status(400).json({
+        success: false,
+        error: linesError
+      });
+    }
+
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: warehouseId }
+    });
+    if (!warehouse || !warehouse.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive warehouseId."
+      });
+    }
+
+    const uniqueSupplierIds = [...new Set(supplierIds)];
+    const activeSuppliers = await prisma.supplier.count({
+      where: { id: { in: uniqueSupplierIds }, status: SupplierStatus.ACTIVE }
+    });
+    if (activeSuppliers !== uniqueSupplierIds.length) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more supplierIds are invalid or blocked."
+      });
+    }
+
+    if (!(await findActiveItems(prisma, lines!.map((line) => line.itemId)))) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more lines reference an invalid or inactive itemId."
+      });
+    }
+
+    try {
+      const rfq = await prisma.$transaction(async (tx) =>
+        tx.rfq.create({
+          data: {
+            rfqNumber: await nextDocumentNumber(tx, "RFQ"),
+            title: title.trim(),
+            warehouseId,
+            responseDeadline: responseDeadline ? new Date(responseDeadline) : null,
+            remarks: remarks || null,
+            createdById: req.user!.id,
+            lines: {
+              create: lines!.map((line) => ({
+                itemId: line.itemId,
+                quantity: line.quantity
+              }))
+            },
+            suppliers: {
+              create: uniqueSupplierIds.map((supplierId) => ({ supplierId }))
+            }
+          },
+          include: RFQ_INCLUDE
+        })
+      );
+
+      let emailed = 0;
+      for (const invitation of rfq.suppliers) {
+        if (await emailInvitation(rfq, invitation.supplier)) {
+          emailed++;
+        }
+      }
+
+      res.status(201).json({
+        success: true,
+        emailed,
+        rfq
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/rfqs:
+ *   get:
+ *     tags:
+ *       - RFQs
+ *     summary: List requests for quotation.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - OPEN
+ *             - AWARDED
+ *             - CANCELLED
+ *       - in: query
+ *         name: supplierId
+ *         description: RFQs this supplier was invited to.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of RFQs.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { status, supplierId } = req.query as {
+      status?: string;
+      supplierId?: string;
+    };
+
+    const where: any = {};
+
+    if (status) {
+      if (!Object.values(RfqStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+    if (supplierId) where.suppliers = { some: { supplierId } };
+
+    const rfqs = await prisma.rfq.findMany({
+      where,
+      include: RFQ_INCLUDE,
+      orderBy: { createdAt: "desc" }
+    });
+
+    res.json({
+      success: true,
+      rfqs
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/rfqs/{id}:
+ *   get:
+ *     tags:
+ *       - RFQs
+ *     summary: Get an RFQ with its invited suppliers and quotes.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: RFQ.
+ *       404:
+ *         description: RFQ not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const rfq = await prisma.rfq.findUnique({
+      where: { id: req.params.id },
+      include: RFQ_INCLUDE
+    });
+
+    if (!rfq) {
+      return res.status(404).json({
+        success: false,
+        error: "RFQ not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      rfq
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/rfqs/{id}/comparison:
+ *   get:
+ *     tags:
+ *       - RFQs
+ *     summary: Side-by-side comparison of the quotes received.
+ *     description: >
+ *       Per line, every quoted unit price and line total with the lowest
+ *       flagged; per supplier, the quote total, lead time, validity and
+ *       whether it covers every line. Quotes are in each supplier's
+ *       currency and compared in the base currency at today's rates.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quote comparison.
+ *       404:
+ *         description: RFQ not found.
+ */
+router.get(
+  "/:id/comparison",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const rfq = await prisma.rfq.findUnique({
+      where: { id: req.params.id },
+      include: RFQ_INCLUDE
+    });
+
+    if (!rfq) {
+      return res.status(404).json({
+        success: false,
+        error: "RFQ not found."
+      });
+    }
+
+    try {
+      const rates = new Map<string, Prisma.Decimal>();
+      for (const { supplier } of rfq.suppliers) {
+        if (!rates.has(supplier.currency)) {
+          rates.set(
+            supplier.currency,
+            await exchangeRateOn(prisma, supplier.currency, new Date())
+          );
+        }
+      }
+
+      res.json({
+        success: true,
+        rfq: {
+          id: rfq.id,
+          rfqNumber: rfq.rfqNumber,
+          title: rfq.title,
+          status: rfq.status
+        },
+        comparison: buildComparison(rfq, rates)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/rfqs/{id}/quotes:
+ *   post:
+ *     tags:
+ *       - RFQs
+ *     summary: Record (or replace) an invited supplier's quote.
+ *     description: Suppliers may quote a subset of the lines.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - supplierId
+ *               - lines
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *               leadTimeDays:
+ *                 type: integer
+ *               validUntil:
+ *                 type: string
+ *                 format: date
+ *               remarks:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - rfqLineId
+ *                     - unitPrice
+ *                   properties:
+ *                     rfqLineId:
+ *                       type: string
+ *                     unitPrice:
+ *                       type: number
+ *     responses:
+ *       200:
+ *         description: Quote recorded.
+ *       400:
+ *         description: Validation error or supplier not invited.
+ *       404:
+ *         description: RFQ not found.
+ *       409:
+ *         description: RFQ is no longer open.
+ */
+router.post(
+  "/:id/quotes",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { supplierId, leadTimeDays, validUntil, remarks, lines } = req.body as {
+      supplierId?: string;
+      leadTimeDays?: number;
+      validUntil?: string;
+      remarks?: string;
+      lines?: { rfqLineId: string; unitPrice: number }[];
+    };
+
+    if (!supplierId) {
+      return res.status(400).json({
+        success: false,
+        error: "supplierId is required."
+      });
+    }
+
+    if (
+      leadTimeDays !== undefined &&
+      (!Number.isInteger(leadTimeDays) || leadTimeDays < 0)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "leadTimeDays must be a non-negative whole number."
+      });
+    }
+
+    if (validUntil !== undefined && isNaN(new Date(validUntil).getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "validUntil must be a valid date."
+      });
+    }
+
+    if (!Array.isArray(lines) || lines.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "lines must be a non-empty array."
+      });
+    }
+
+    const rfq = await prisma.rfq.findUnique({
+      where: { id: req.params.id },
+      include: { lines: true, suppliers: true }
+    });
+
+    if (!rfq) {
+      return res.status(404).json({
+        success: false,
+        error: "RFQ not found."
+      });
+    }
+
+    const invitation = rfq.suppliers.find((s) => s.supplierId === supplierId);
+    if (!invitation) {
+      return res.status(400).json({
+        success: false,
+        error: "This supplier was not invited to the RFQ."
+      });
+    }
+
+    const rfqLineIds = new Set(rfq.lines.map((line) => line.id));
+    const seen = new Set<string>();
+    for (const [index, line] of lines.entries()) {
+      if (!line || !rfqLineIds.has(line.rfqLineId) || seen.has(line.rfqLineId)) {
+        return res.status(400).json({
+          success: false,
+          error: `lines[${index}].rfqLineId must be a distinct line of this RFQ.`
+        });
+      }
+      seen.add(line.rfqLineId);
+      if (typeof line.unitPrice !== "number" || line.unitPrice < 0) {
+        return res.status(400).json({
+          success: false,
+          error: `lines[${index}].unitPrice must be a non-negative number.`
+        });
+      }
+    }
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const updated = await tx.rfq.updateMany({
+          where: { id: rfq.id, status: RfqStatus.OPEN },
+          data: { updatedAt: new Date() }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "Quotes can only be recorded on open RFQs.");
+        }
+
+        await tx.rfqQuoteLine.deleteMany({
+          where: { rfqSupplierId: invitation.id }
+        });
+        await tx.rfqSupplier.update({
+          where: { id: invitation.id },
+          data: {
+            status: RfqSupplierStatus.QUOTED,
+            leadTimeDays: leadTimeDays ?? null,
+            validUntil: validUntil ? new Date(validUntil) : null,
+            quotedAt: new Date(),
+            remarks: remarks || null,
+            quoteLines: {
+              create: lines.map((line) => ({
+                rfqLineId: line.rfqLineId,
+                unitPrice: line.unitPrice
+              }))
+            }
+          }
+        });
+      });
+
+      res.json({
+        success: true,
+        rfq: await prisma.rfq.findUniqueOrThrow({
+          where: { id: rfq.id },
+          include: RFQ_INCLUDE
+        })
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/rfqs/{id}/award:
+ *   post:
+ *     tags:
+ *       - RFQs
+ *     summary: Award the RFQ to one supplier and generate a draft purchase order.
+ *     description: >
+ *       The winning quote must cover every line and still be valid. Every
+ *       other invited supplier is marked NOT_AWARDED with a reason, taken from
+ *       `reasons` or, failing that, `defaultReason`.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - supplierId
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *               reasons:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - supplierId
+ *                     - reason
+ *                   properties:
+ *                     supplierId:
+ *                       type: string
+ *                     reason:
+ *                       type: string
+ *               defaultReason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: RFQ awarded; the draft purchase order is returned.
+ *       400:
+ *         description: Incomplete or expired quote, blocked supplier or missing reasons.
+ *       404:
+ *         description: RFQ not found.
+ *       409:
+ *         description: RFQ is no longer open.
+ */
+router.post(
+  "/:id/award",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { supplierId, reasons, defaultReason } = req.body as {
+      supplierId?: string;
+      reasons?: { supplierId: string; reason: string }[];
+      defaultReason?: string;
+    };
+
+    if (!supplierId) {
+      return res.status(400).json({
+        success: false,
+        error: "supplierId is required."
+      });
+    }
+
+    if (
+      reasons !== undefined &&
+      (!Array.isArray(reasons) ||
+        reasons.some(
+          (r) =>
+            typeof r?.supplierId !== "string" ||
+            !r.supplierId ||
+            typeof r.reason !== "string" ||
+            !r.reason.trim()
+        ))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "reasons must be an array of { supplierId, reason } with a non-empty reason."
+      });
+    }
+
+    if (defaultReason !== undefined && typeof defaultReason !== "string") {
+      return res.status(400).json({
+        success: false,
+        error: "defaultReason must be a string."
+      });
+    }
+
+    const rfq = await prisma.rfq.findUnique({
+      where: { id: req.params.id },
+      include: RFQ_INCLUDE
+    });
+
+    if (!rfq) {
+      return res.status(404).json({
+        success: false,
+        error: "RFQ not found."
+      });
+    }
+
+    const winner = rfq.suppliers.find((s) => s.supplierId === supplierId);
+    if (!winner || winner.status !== RfqSupplierStatus.QUOTED) {
+      return res.status(400).json({
+        success: false,
+        error: "The awarded supplier must have quoted on this RFQ."
+      });
+    }
+
+    if (winner.supplier.status !== SupplierStatus.ACTIVE) {
+      return res.status(400).json({
+        success: false,
+        error: "The awarded supplier is blocked."
+      });
+    }
+
+    if (winner.quoteLines.length !== rfq.lines.length) {
+      return res.status(400).json({
+        success: false,
+        error: "The winning quote does not cover every RFQ line."
+      });
+    }
+
+    if (winner.validUntil && winner.validUntil < new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: "The winning quote has expired."
+      });
+    }
+
+    const reasonBySupplier = new Map(
+      (reasons ?? []).map((r) => [r.supplierId, r.reason.trim()])
+    );
+    const losers = rfq.suppliers.filter((s) => s.id !== winner.id);
+    const missingReason = losers.find(
+      (s) => !(reasonBySupplier.get(s.supplierId) || defaultReason?.trim())
+    );
+    if (missingReason) {
+      return res.status(400).json({
+        success: false,
+        error: `A reason is required for not awarding "${missingReason.supplier.name}".`
+      });
+    }
+
+    try {
+      const purchaseOrder = await prisma.$transaction(async (tx) => {
+        const updated = await tx.rfq.updateMany({
+          where: { id: rfq.id, status: RfqStatus.OPEN },
+          data: { status: RfqStatus.AWARDED, awardedAt: new Date() }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "Only open RFQs can be awarded.");
+        }
+
+        await tx.rfqSupplier.update({
+          where: { id: winner.id },
+          data: { status: RfqSupplierStatus.AWARDED }
+        });
+        for (const loser of losers) {
+          await tx.rfqSupplier.update({
+            where: { id: loser.id },
+            data: {
+              status: RfqSupplierStatus.NOT_AWARDED,
+              notAwardedReason:
+                reasonBySupplier.get(loser.supplierId) || defaultReason!.trim()
+            }
+          });
+        }
+
+        let expectedDeliveryDate: string | undefined;
+        if (winner.leadTimeDays !== null) {
+          const date = new Date();
+          date.setDate(date.getDate() + winner.leadTimeDays);
+          expectedDeliveryDate = date.toISOString();
+        }
+
+        const po = await createPurchaseOrder(
+          tx,
+          {
+            supplierId: winner.supplierId,
+            warehouseId: rfq.warehouseId,
+            expectedDeliveryDate,
+            remarks: `Awarded from ${rfq.rfqNumber}: ${rfq.title}`
+          },
+          rfq.lines.map((line) => ({
+            itemId: line.itemId,
+            quantity: line.quantity.toNumber(),
+            unitPrice: winner.quoteLines
+              .find((q) => q.rfqLineId === line.id)!
+              .unitPrice.toNumber()
+          })),
+          req.user!.id
+        );
+
+        await tx.rfq.update({
+          where: { id: rfq.id },
+          data: { purchaseOrderId: po.id }
+        });
+
+        return po;
+      });
+
+      res.json({
+        success: true,
+        purchaseOrder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/rfqs/{id}/cancel:
+ *   post:
+ *     tags:
+ *       - RFQs
+ *     summary: Cancel an open RFQ.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: RFQ cancelled.
+ *       409:
+ *         description: RFQ is not open.
+ */
+router.post(
+  "/:id/cancel",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(BUYER_ROLES),
+  async (req: Request, res: Response) => {
+    const updated = await prisma.rfq.updateMany({
+      where: { id: req.params.id, status: RfqStatus.OPEN },
+      data: { status: RfqStatus.CANCELLED }
+    });
+
+    if (updated.count === 0) {
+      return res.status(409).json({
+        success: false,
+        error: "Only existing open RFQs can be cancelled."
+      });
+    }
+
+    res.json({
+      success: true
+    });
+  }
+);
+
+export default router;
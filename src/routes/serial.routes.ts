@@ -0,0 +1,173 @@
+// src/routes/serial.routes.ts
+import { Router, Request, Response } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { SerialStatus } from "@prisma/client";
+
+const router = Router();
+
+const INVENTORY_ROLES = [
+  "ADMIN",
+  "STOREKEEPER",
+  "PROCUREMENT"
+];
+
+/**
+ * @openapi
+ * /api/serials:
+ *   get:
+ *     tags:
+ *       - Serials
+ *     summary: List serialised units with their current location or holder.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: serialNumber
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - IN_STOCK
+ *             - IN_TRANSIT
+ *             - ISSUED
+ *             - MISSING
+ *             - WRITTEN_OFF
+ *       - in: query
+ *         name: holderDepartment
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: holderUserId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of serial units.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const {
+      serialNumber,
+      itemId,
+      warehouseId,
+      status,
+      holderDepartment,
+      holderUserId
+    } = req.query as Record<string, string | undefined>;
+
+    const where: any = {};
+
+    if (status) {
+      if (!Object.values(SerialStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+    if (serialNumber) where.serialNumber = serialNumber;
+    if (itemId) where.itemId = itemId;
+    if (warehouseId) where.warehouseId = warehouseId;
+    if (holderDepartment) where.holderDepartment = holderDepartment;
+    if (holderUserId) where.holderUserId = holderUserId;
+
+    const serials = await prisma.serialUnit.findMany({
+      where,
+      include: {
+        item: true,
+        warehouse: true,
+        holderUser: { select: { id: true, fullName: true, email: true } }
+      },
+      orderBy: [{ itemId: "asc" }, { serialNumber: "asc" }]
+    });
+
+    res.json({
+      success: true,
+      serials
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/serials/{id}:
+ *   get:
+ *     tags:
+ *       - Serials
+ *     summary: Get a serial unit with its full movement history.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Serial unit and history, oldest event first.
+ *       404:
+ *         description: Serial not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const serial = await prisma.serialUnit.findUnique({
+      where: { id: req.params.id },
+      include: {
+        item: true,
+        warehouse: true,
+        holderUser: { select: { id: true, fullName: true, email: true } },
+        events: {
+          include: {
+            warehouse: true,
+            holderUser: { select: { id: true, fullName: true, email: true } },
+            createdBy: { select: { id: true, fullName: true, email: true } }
+          },
+          orderBy: { createdAt: "asc" }
+        }
+      }
+    });
+
+    if (!serial) {
+      return res.status(404).json({
+        success: false,
+        error: "Serial not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      serial
+    });
+  }
+);
+
+export default router;
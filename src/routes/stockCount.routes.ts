@@ -0,0 +1,679 @@
+// src/routes/stockCount.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import {
+  Prisma,
+  StockCountStatus,
+  StockMovementType
+} from "@prisma/client";
+import { adjustStock, signedQuantity } from "../utils/stock";
+
+const router = Router();
+
+const INVENTORY_ROLES = [
+  "ADMIN",
+  "STOREKEEPER",
+  "PROCUREMENT"
+];
+
+const APPROVER_ROLES = ["ADMIN", "FINANCE"];
+
+//Net quantity moved per item in the count's warehouse while it was open,
+//other than by its own adjustments. These make the frozen snapshot stale.
+async function netMovementsDuringCount(
+  db: Prisma.TransactionClient,
+  count: {
+    id: string;
+    warehouseId: string;
+    createdAt: Date;
+    finalisedAt: Date | null;
+    lines: { itemId: string }[];
+  }
+): Promise<Map<string, Prisma.Decimal>> {
+  const movements = await db.stockMovement.findMany({
+    where: {
+      warehouseId: count.warehouseId,
+      itemId: { in: count.lines.map((line) => line.itemId) },
+      createdAt: {
+        gte: count.createdAt,
+        ...(count.finalisedAt ? { lte: count.finalisedAt } : {})
+      },
+      NOT: { referenceType: "STOCK_COUNT", referenceId: count.id }
+    },
+    select: { itemId: true, movementType: true, quantity: true }
+  });
+
+  const netDuringCount = new Map<string, Prisma.Decimal>();
+  for (const movement of movements) {
+    const current = netDuringCount.get(movement.itemId) ?? new Prisma.Decimal(0);
+    netDuringCount.set(
+      movement.itemId,
+      current.plus(signedQuantity(movement.movementType, movement.quantity))
+    );
+  }
+  return netDuringCount;
+}
+
+//Variance still to post for a line: the counted quantity against the
+//snapshot plus whatever moved since, so stock that moved during the count
+//is not adjusted a second time
+function lineVariance(
+  line: { countedQuantity: Prisma.Decimal | null; expectedQuantity: Prisma.Decimal },
+  movedDuringCount: Prisma.Decimal | null
+): Prisma.Decimal | null {
+  if (line.countedQuantity === null) {
+    return null;
+  }
+  return line.countedQuantity
+    .minus(line.expectedQuantity)
+    .minus(movedDuringCount ?? 0);
+}
+
+//Build the variance report for a count. Items that moved in the count's
+//warehouse while it was open are flagged: their variance is net of those
+//movements, which assumes they happened before the shelf was counted.
+async function buildVarianceReport(countId: string) {
+  const count = await prisma.stockCount.findUnique({
+    where: { id: countId },
+    include: {
+      warehouse: true,
+      lines: { include: { item: true }, orderBy: { item: { name: "asc" } } }
+    }
+  });
+
+  if (!count) {
+    return null;
+  }
+
+  const netDuringCount = await netMovementsDuringCount(prisma, count);
+
+  const lines = count.lines.map((line) => {
+    const movedDuringCount = netDuringCount.get(line.itemId) ?? null;
+    return {
+      ...line,
+      variance: lineVariance(line, movedDuringCount),
+      movedDuringCount,
+      flagged: movedDuringCount !== null
+    };
+  });
+
+  return {
+    ...count,
+    lines,
+    uncountedLines: lines.filter((line) => line.countedQuantity === null).length,
+    flaggedLines: lines.filter((line) => line.flagged).length
+  };
+}
+
+/**
+ * @openapi
+ * /api/stock-counts:
+ *   post:
+ *     tags:
+ *       - Stock Counts
+ *     summary: Open a stock count session and freeze expected quantities.
+ *     description: >
+ *       Snapshots StockLevel.quantity for every item in the warehouse, or only
+ *       for items in the given categories. A warehouse can have only one open
+ *       count at a time.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - warehouseId
+ *             properties:
+ *               warehouseId:
+ *                 type: string
+ *               categoryIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Count session opened.
+ *       400:
+ *         description: Validation error or nothing to count.
+ *       409:
+ *         description: The warehouse already has an open count.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const { warehouseId, categoryIds, remarks } = req.body as {
+      warehouseId?: string;
+      categoryIds?: string[];
+      remarks?: string;
+    };
+
+    if (!warehouseId) {
+      return res.status(400).json({
+        success: false,
+        error: "warehouseId is required."
+      });
+    }
+
+    if (
+      categoryIds !== undefined &&
+      (!Array.isArray(categoryIds) ||
+        categoryIds.length === 0 ||
+        categoryIds.some((id) => typeof id !== "string"))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "categoryIds must be a non-empty array of ids."
+      });
+    }
+
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: warehouseId }
+    });
+    if (!warehouse || !warehouse.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive warehouseId."
+      });
+    }
+
+    const openCount = await prisma.stockCount.findFirst({
+      where: { warehouseId, status: StockCountStatus.OPEN }
+    });
+    if (openCount) {
+      return res.status(409).json({
+        success: false,
+        error: "This warehouse already has an open stock count."
+      });
+    }
+
+    const stockLevels = await prisma.stockLevel.findMany({
+      where: {
+        warehouseId,
+        ...(categoryIds ? { item: { categoryId: { in: categoryIds } } } : {})
+      }
+    });
+
+    if (stockLevels.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "No stock to count for this warehouse and category selection."
+      });
+    }
+
+    const count = await prisma.stockCount.create({
+      data: {
+        warehouseId,
+        categoryIds: categoryIds ?? Prisma.DbNull,
+        remarks: remarks || null,
+        createdById: req.user!.id,
+        lines: {
+          create: stockLevels.map((level) => ({
+            itemId: level.itemId,
+            expectedQuantity: level.quantity
+          }))
+        }
+      },
+      include: { lines: true }
+    });
+
+    res.status(201).json({
+      success: true,
+      count
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/stock-counts:
+ *   get:
+ *     tags:
+ *       - Stock Counts
+ *     summary: List stock count sessions.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - OPEN
+ *             - FINALISED
+ *             - CANCELLED
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of count sessions.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole([...INVENTORY_ROLES, ...APPROVER_ROLES]),
+  async (req: Request, res: Response) => {
+    const { status, warehouseId } = req.query as {
+      status?: string;
+      warehouseId?: string;
+    };
+
+    const where: any = {};
+
+    if (status) {
+      if (!Object.values(StockCountStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+    if (warehouseId) where.warehouseId = warehouseId;
+
+    const counts = await prisma.stockCount.findMany({
+      where,
+      include: {
+        warehouse: true,
+        _count: { select: { lines: true } }
+      },
+      orderBy: { createdAt: "desc" }
+    });
+
+    res.json({
+      success: true,
+      counts
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/stock-counts/{id}:
+ *   get:
+ *     tags:
+ *       - Stock Counts
+ *     summary: Get a count session with its variance report.
+ *     description: >
+ *       Each line shows expected, counted and variance quantities. Lines whose
+ *       item had movements posted while the count was open are flagged, with
+ *       the net quantity moved in movedDuringCount.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Count session and variance report.
+ *       404:
+ *         description: Count not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole([...INVENTORY_ROLES, ...APPROVER_ROLES]),
+  async (req: Request, res: Response) => {
+    const report = await buildVarianceReport(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: "Stock count not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      count: report
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/stock-counts/{id}/entries:
+ *   post:
+ *     tags:
+ *       - Stock Counts
+ *     summary: Enter counted quantities for an open count.
+ *     description: >
+ *       Counts can be entered in several rounds. Every entry is kept; the
+ *       line's countedQuantity is the one from the highest round entered so far.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lines
+ *             properties:
+ *               round:
+ *                 type: integer
+ *                 default: 1
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - itemId
+ *                     - countedQuantity
+ *                   properties:
+ *                     itemId:
+ *                       type: string
+ *                     countedQuantity:
+ *                       type: number
+ *     responses:
+ *       200:
+ *         description: Counts recorded.
+ *       400:
+ *         description: Validation error.
+ *       409:
+ *         description: Count is not open.
+ */
+router.post(
+  "/:id/entries",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const { round = 1, lines } = req.body as {
+      round?: number;
+      lines?: { itemId?: string; countedQuantity?: number }[];
+    };
+
+    if (!Number.isInteger(round) || round < 1) {
+      return res.status(400).json({
+        success: false,
+        error: "round must be a positive integer."
+      });
+    }
+
+    if (!Array.isArray(lines) || lines.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "lines must be a non-empty array."
+      });
+    }
+
+    const count = await prisma.stockCount.findUnique({
+      where: { id: req.params.id },
+      include: { lines: true }
+    });
+
+    if (!count) {
+      return res.status(404).json({
+        success: false,
+        error: "Stock count not found."
+      });
+    }
+
+    if (count.status !== StockCountStatus.OPEN) {
+      return res.status(409).json({
+        success: false,
+        error: "Counts can only be entered while the session is open."
+      });
+    }
+
+    const linesByItem = new Map(count.lines.map((line) => [line.itemId, line]));
+
+    for (const [index, entry] of lines.entries()) {
+      if (!entry?.itemId || !linesByItem.has(entry.itemId)) {
+        return res.status(400).json({
+          success: false,
+          error: `lines[${index}].itemId is not part of this count.`
+        });
+      }
+      if (
+        typeof entry.countedQuantity !== "number" ||
+        !(entry.countedQuantity >= 0)
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: `lines[${index}].countedQuantity must be zero or more.`
+        });
+      }
+    }
+
+    await prisma.$transaction(
+      lines.flatMap((entry) => {
+        const line = linesByItem.get(entry.itemId!)!;
+        const operations: Prisma.PrismaPromise<unknown>[] = [
+          prisma.stockCountEntry.create({
+            data: {
+              lineId: line.id,
+              round,
+              quantity: entry.countedQuantity!,
+              countedById: req.user!.id
+            }
+          })
+        ];
+        // A late entry for an earlier round must not overwrite a recount
+        if (round >= line.round) {
+          operations.push(
+            prisma.stockCountLine.update({
+              where: { id: line.id },
+              data: { countedQuantity: entry.countedQuantity!, round }
+            })
+          );
+        }
+        return operations;
+      })
+    );
+
+    res.json({
+      success: true,
+      count: await buildVarianceReport(count.id)
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/stock-counts/{id}/finalise:
+ *   post:
+ *     tags:
+ *       - Stock Counts
+ *     summary: Finalise a count and post its variances (ADMIN/FINANCE).
+ *     description: >
+ *       Every line must have been counted. Each non-zero variance, net of
+ *       stock that moved in the warehouse since the count opened, is posted
+ *       as an ADJUSTMENT movement with referenceType STOCK_COUNT and the
+ *       count id.
+ *       Variances on trackable or lot-controlled items are refused: resolve
+ *       them first with adjustments naming the serials or lots concerned.
+ *       Adjustments posted after the count opened reconcile those lines.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Count finalised; returns the final variance report.
+ *       400:
+ *         description: Uncounted lines or insufficient stock for a negative variance.
+ *       404:
+ *         description: Count not found.
+ *       409:
+ *         description: Count is not open.
+ */
+router.post(
+  "/:id/finalise",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(APPROVER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const count = await prisma.stockCount.findUnique({
+      where: { id: req.params.id },
+      include: { lines: { include: { item: true } } }
+    });
+
+    if (!count) {
+      return res.status(404).json({
+        success: false,
+        error: "Stock count not found."
+      });
+    }
+
+    //Serial and lot variances need adjustments naming the units concerned;
+    //once those are posted the movement during the count reconciles the line
+    const netDuringCount = await netMovementsDuringCount(prisma, count);
+    const detailedVariance = count.lines.find(
+      (line) =>
+        (line.item.isTrackable || line.item.isLotControlled) &&
+        !(lineVariance(line, netDuringCount.get(line.itemId) ?? null)?.isZero() ?? true)
+    );
+    if (detailedVariance) {
+      return res.status(400).json({
+        success: false,
+        error: `"${detailedVariance.item.name}" is tracked by ${detailedVariance.item.isTrackable ? "serial" : "lot"}; post an adjustment for its variance before finalising.`
+      });
+    }
+
+    const uncounted = count.lines.filter(
+      (line) => line.countedQuantity === null
+    ).length;
+    if (uncounted > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${uncounted} line(s) have not been counted yet.`
+      });
+    }
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const updated = await tx.stockCount.updateMany({
+          where: { id: count.id, status: StockCountStatus.OPEN },
+          data: {
+            status: StockCountStatus.FINALISED,
+            finalisedById: req.user!.id,
+            finalisedAt: new Date()
+          }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "Only open stock counts can be finalised.");
+        }
+
+        const movedDuringCount = await netMovementsDuringCount(tx, count);
+
+        for (const line of count.lines) {
+          const variance = lineVariance(line, movedDuringCount.get(line.itemId) ?? null)!;
+          if (variance.isZero()) {
+            continue;
+          }
+          if (line.item.isTrackable || line.item.isLotControlled) {
+            throw createApiError(
+              409,
+              `"${line.item.name}" moved while finalising; check its variance and retry.`
+            );
+          }
+
+          await adjustStock(tx, {
+            itemId: line.itemId,
+            warehouseId: count.warehouseId,
+            quantity: variance,
+            movementType: StockMovementType.ADJUSTMENT,
+            referenceType: "STOCK_COUNT",
+            referenceId: count.id,
+            remarks: "Stock count variance",
+            createdById: req.user!.id
+          });
+        }
+      });
+
+      res.json({
+        success: true,
+        count: await buildVarianceReport(count.id)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/stock-counts/{id}/cancel:
+ *   post:
+ *     tags:
+ *       - Stock Counts
+ *     summary: Cancel an open count without posting anything.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Count cancelled.
+ *       409:
+ *         description: Count is not open.
+ */
+router.post(
+  "/:id/cancel",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const updated = await prisma.stockCount.updateMany({
+      where: { id: req.params.id, status: StockCountStatus.OPEN },
+      data: { status: StockCountStatus.CANCELLED }
+    });
+
+    if (updated.count === 0) {
+      return res.status(409).json({
+        success: false,
+        error: "Only existing open stock counts can be cancelled."
+      });
+    }
+
+    res.json({
+      success: true
+    });
+  }
+);
+
+export default router;
@@ -0,0 +1,804 @@
+// src/routes/supplier.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { Prisma, SupplierStatus } from "@prisma/client";
+import { isValidEmail } from "../utils/validation";
+import { supplierScorecards } from "../utils/supplierScorecards";
+import { supplierLedger } from "../utils/payables";
+import { isValidCurrency, normaliseCurrency } from "../utils/currency";
+import { ENV } from "../config/env";
+
+const router = Router();
+
+const MANAGER_ROLES = ["ADMIN", "PROCUREMENT"];
+
+const VIEWER_ROLES = [...MANAGER_ROLES, "STOREKEEPER", "FINANCE"];
+
+const REPORT_ROLES = [...MANAGER_ROLES, "FINANCE"];
+
+const LEDGER_ROLES = ["ADMIN", "FINANCE"];
+
+const OPTIONAL_TEXT_FIELDS = [
+  "contactPerson",
+  "phone",
+  "address",
+  "bankName",
+  "bankBranch",
+  "bankAccountName",
+  "bankAccountNumber"
+] as const;
+
+interface SupplierBody {
+  name?: string;
+  taxId?: string | null;
+  email?: string | null;
+  paymentTermsDays?: number;
+  currency?: string;
+  taxCodeId?: string | null;
+  status?: string;
+  blockedReason?: string | null;
+  categoryIds?: string[];
+  [field: string]: unknown;
+}
+
+//Tax IDs are compared without case or whitespace
+function normaliseTaxId(taxId: string): string {
+  return taxId.replace(/\s+/g, "").toUpperCase();
+}
+
+//Turn a create/update body into Prisma data. On update (`creating` false)
+//only the fields present are touched; null clears an optional field.
+function buildSupplierData(
+  body: SupplierBody,
+  creating: boolean
+): { data?: any; error?: string } {
+  const data: any = {};
+
+  if (body.name !== undefined || creating) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return { error: "name is required." };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.taxId !== undefined) {
+    if (body.taxId !== null && (typeof body.taxId !== "string" || !body.taxId.trim())) {
+      return { error: "taxId must be a non-empty string or null." };
+    }
+    data.taxId = body.taxId === null ? null : normaliseTaxId(body.taxId);
+  }
+
+  if (body.email !== undefined) {
+    if (body.email !== null && (typeof body.email !== "string" || !isValidEmail(body.email))) {
+      return { error: "Invalid email format." };
+    }
+    data.email = body.email === null ? null : body.email.trim();
+  }
+
+  for (const field of OPTIONAL_TEXT_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== "string") {
+      return { error: `${field} must be a string or null.` };
+    }
+    data[field] = value === null ? null : value.trim() || null;
+  }
+
+  if (body.paymentTermsDays !== undefined) {
+    if (!Number.isInteger(body.paymentTermsDays) || body.paymentTermsDays < 0) {
+      return { error: "paymentTermsDays must be a non-negative whole number." };
+    }
+    data.paymentTermsDays = body.paymentTermsDays;
+  }
+
+  if (body.currency !== undefined || creating) {
+    const currency = body.currency ?? ENV.BASE_CURRENCY;
+    if (!isValidCurrency(currency)) {
+      return { error: "currency must be a 3-letter currency code." };
+    }
+    data.currency = normaliseCurrency(currency);
+  }
+
+  if (body.taxCodeId !== undefined) {
+    if (body.taxCodeId !== null && (typeof body.taxCodeId !== "string" || !body.taxCodeId)) {
+      return { error: "taxCodeId must be a tax code id or null." };
+    }
+    data.taxCodeId = body.taxCodeId;
+  }
+
+  if (body.status !== undefined) {
+    if (!Object.values(SupplierStatus).includes(body.status as any)) {
+      return { error: "Invalid status." };
+    }
+    if (body.status === SupplierStatus.BLOCKED) {
+      if (typeof body.blockedReason !== "string" || !body.blockedReason.trim()) {
+        return { error: "blockedReason is required when blocking a supplier." };
+      }
+      data.blockedReason = body.blockedReason.trim();
+    } else {
+      data.blockedReason = null;
+    }
+    data.status = body.status;
+  }
+
+  if (body.categoryIds !== undefined) {
+    if (
+      !Array.isArray(body.categoryIds) ||
+      body.categoryIds.some((id) => typeof id !== "string" || !id)
+    ) {
+      return { error: "categoryIds must be an array of category ids." };
+    }
+  }
+
+  return { data };
+}
+
+//Look for another supplier with the same tax ID or name (names compare
+//case-insensitively through the column collation)
+async function findDuplicate(
+  name: string | undefined,
+  taxId: string | null | undefined,
+  excludeId?: string
+): Promise<string | null> {
+  if (taxId) {
+    const existing = await prisma.supplier.findUnique({ where: { taxId } });
+    if (existing && existing.id !== excludeId) {
+      return `Supplier "${existing.name}" already uses tax ID ${taxId}.`;
+    }
+  }
+
+  if (name) {
+    const existing = await prisma.supplier.findFirst({
+      where: { name, id: excludeId ? { not: excludeId } : undefined }
+    });
+    if (existing) {
+      return `A supplier named "${existing.name}" already exists.`;
+    }
+  }
+
+  return null;
+}
+
+//Check every category id exists and is active
+async function validCategories(categoryIds: string[]): Promise<boolean> {
+  const uniqueIds = [...new Set(categoryIds)];
+  const count = await prisma.itemCategory.count({
+    where: { id: { in: uniqueIds }, isActive: true }
+  });
+  return count === uniqueIds.length;
+}
+
+//A supplier's default tax code must be active when it is assigned
+async function validTaxCode(taxCodeId: string | null | undefined): Promise<boolean> {
+  if (typeof taxCodeId !== "string") return true;
+  const taxCode = await prisma.taxCode.findUnique({ where: { id: taxCodeId } });
+  return Boolean(taxCode?.isActive);
+}
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     SupplierInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         taxId:
+ *           type: string
+ *         contactPerson:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         phone:
+ *           type: string
+ *         address:
+ *           type: string
+ *         paymentTermsDays:
+ *           type: integer
+ *           description: Days after invoice date that payment is due (default 30).
+ *         currency:
+ *           type: string
+ *           description: >
+ *             Currency the supplier quotes and invoices in (default
+ *             BASE_CURRENCY). Only affects purchase orders raised afterwards.
+ *         taxCodeId:
+ *           type: string
+ *           nullable: true
+ *           description: >
+ *             Default tax code for this supplier's PO lines when neither the
+ *             line nor the item names one.
+ *         bankName:
+ *           type: string
+ *         bankBranch:
+ *           type: string
+ *         bankAccountName:
+ *           type: string
+ *         bankAccountNumber:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum:
+ *             - ACTIVE
+ *             - BLOCKED
+ *         blockedReason:
+ *           type: string
+ *           description: Required when status is BLOCKED.
+ *         categoryIds:
+ *           type: array
+ *           description: Item categories the supplier can supply.
+ *           items:
+ *             type: string
+ */
+
+/**
+ * @openapi
+ * /api/suppliers:
+ *   post:
+ *     tags:
+ *       - Suppliers
+ *     summary: Create a supplier.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/SupplierInput'
+ *               - required:
+ *                   - name
+ *     responses:
+ *       201:
+ *         description: Supplier created.
+ *       400:
+ *         description: Validation error.
+ *       409:
+ *         description: A supplier with this name or tax ID already exists.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response) => {
+    const body = req.body as SupplierBody;
+
+    const { data, error } = buildSupplierData(body, true);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    if (body.categoryIds && !(await validCategories(body.categoryIds))) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more categoryIds are invalid or inactive."
+      });
+    }
+
+    if (!(await validTaxCode(data.taxCodeId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive taxCodeId."
+      });
+    }
+
+    const duplicate = await findDuplicate(data.name, data.taxId);
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        error: duplicate
+      });
+    }
+
+    const supplier = await prisma.supplier.create({
+      data: {
+        ...data,
+        categories: body.categoryIds
+          ? { connect: body.categoryIds.map((id) => ({ id })) }
+          : undefined
+      },
+      include: { categories: true }
+    });
+
+    res.status(201).json({
+      success: true,
+      supplier
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/suppliers:
+ *   get:
+ *     tags:
+ *       - Suppliers
+ *     summary: List suppliers.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         description: Matches name or tax ID.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - ACTIVE
+ *             - BLOCKED
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of suppliers.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { search, status, categoryId } = req.query as {
+      search?: string;
+      status?: string;
+      categoryId?: string;
+    };
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search } },
+        { taxId: { contains: normaliseTaxId(search) } }
+      ];
+    }
+
+    if (status) {
+      if (!Object.values(SupplierStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+
+    if (categoryId) {
+      where.categories = { some: { id: categoryId } };
+    }
+
+    const suppliers = await prisma.supplier.findMany({
+      where,
+      include: { categories: true },
+      orderBy: { name: "asc" }
+    });
+
+    res.json({
+      success: true,
+      suppliers
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/suppliers/scorecards:
+ *   get:
+ *     tags:
+ *       - Suppliers
+ *     summary: Supplier performance over the purchase orders placed in a date range.
+ *     description: >
+ *       Per supplier: lead time from placing the order to each goods receipt
+ *       (average and variance, in days), on-time receipts against the
+ *       expected delivery date, fill rate (accepted vs ordered, for orders
+ *       received, closed or overdue), rejection rate at receipt and price
+ *       variance of invoices against the PO price. Rates are fractions
+ *       between 0 and 1, null when there is nothing to measure.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         description: Start of the range (default one year before `to`).
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         description: End of the range, inclusive (default today).
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Supplier scorecards.
+ *       400:
+ *         description: Invalid date range.
+ */
+router.get(
+  "/scorecards",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(REPORT_ROLES),
+  async (req: Request, res: Response) => {
+    const { from, to, supplierId } = req.query as {
+      from?: string;
+      to?: string;
+      supplierId?: string;
+    };
+
+    const end = to ? new Date(to) : new Date();
+    if (isNaN(end.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "to must be a valid date."
+      });
+    }
+    //A plain date covers the whole day
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      end.setUTCHours(23, 59, 59, 999);
+    }
+
+    let start: Date;
+    if (from) {
+      start = new Date(from);
+      if (isNaN(start.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: "from must be a valid date."
+        });
+      }
+    } else {
+      start = new Date(end);
+      start.setUTCFullYear(start.getUTCFullYear() - 1);
+    }
+
+    if (start > end) {
+      return res.status(400).json({
+        success: false,
+        error: "from must be on or before to."
+      });
+    }
+
+    const scorecards = await supplierScorecards(prisma, start, end, supplierId);
+
+    res.json({
+      success: true,
+      from: start,
+      to: end,
+      scorecards
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/suppliers/{id}/ledger:
+ *   get:
+ *     tags:
+ *       - Suppliers
+ *     summary: Running account of what is owed to a supplier.
+ *     description: >
+ *       Approved invoices increase the balance; payments and credit notes
+ *       reduce it. A negative balance is credit held with the supplier.
+ *       Amounts are in one currency, the supplier's by default.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: Earlier entries are summed into the opening balance.
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Opening balance, entries with running balance, closing balance.
+ *       400:
+ *         description: Invalid query.
+ *       404:
+ *         description: Supplier not found.
+ */
+router.get(
+  "/:id/ledger",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(LEDGER_ROLES),
+  async (req: Request, res: Response) => {
+    const { currency, from, to } = req.query as {
+      currency?: string;
+      from?: string;
+      to?: string;
+    };
+
+    if (currency !== undefined && !isValidCurrency(currency)) {
+      return res.status(400).json({
+        success: false,
+        error: "currency must be a 3-letter currency code."
+      });
+    }
+
+    const start = from ? new Date(from) : undefined;
+    const end = to ? new Date(to) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return res.status(400).json({
+        success: false,
+        error: "from and to must be valid dates."
+      });
+    }
+    //A plain date covers the whole day
+    if (end && /^\d{4}-\d{2}-\d{2}$/.test(to!)) {
+      end.setUTCHours(23, 59, 59, 999);
+    }
+
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, name: true, currency: true, paymentTermsDays: true }
+    });
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: "Supplier not found."
+      });
+    }
+
+    const ledger = await supplierLedger(
+      prisma,
+      supplier.id,
+      currency ? normaliseCurrency(currency) : supplier.currency,
+      start,
+      end
+    );
+
+    res.json({
+      success: true,
+      supplier,
+      ...ledger
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/suppliers/{id}:
+ *   get:
+ *     tags:
+ *       - Suppliers
+ *     summary: Get a supplier.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Supplier.
+ *       404:
+ *         description: Supplier not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: req.params.id },
+      include: { categories: true }
+    });
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: "Supplier not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      supplier
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/suppliers/{id}:
+ *   patch:
+ *     tags:
+ *       - Suppliers
+ *     summary: Update a supplier, including blocking or unblocking it.
+ *     description: >
+ *       Only the fields given are changed. categoryIds replaces the full set
+ *       of categories supplied.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SupplierInput'
+ *     responses:
+ *       200:
+ *         description: Supplier updated.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Supplier not found.
+ *       409:
+ *         description: Another supplier has this name or tax ID.
+ */
+router.patch(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const body = req.body as SupplierBody;
+
+    const supplier = await prisma.supplier.findUnique({ where: { id } });
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: "Supplier not found."
+      });
+    }
+
+    const { data, error } = buildSupplierData(body, false);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    if (body.categoryIds && !(await validCategories(body.categoryIds))) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more categoryIds are invalid or inactive."
+      });
+    }
+
+    if (!(await validTaxCode(data.taxCodeId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive taxCodeId."
+      });
+    }
+
+    const duplicate = await findDuplicate(data.name, data.taxId, id);
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        error: duplicate
+      });
+    }
+
+    const updated = await prisma.supplier.update({
+      where: { id },
+      data: {
+        ...data,
+        categories: body.categoryIds
+          ? { set: body.categoryIds.map((categoryId) => ({ id: categoryId })) }
+          : undefined
+      },
+      include: { categories: true }
+    });
+
+    res.json({
+      success: true,
+      supplier: updated
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/suppliers/{id}:
+ *   delete:
+ *     tags:
+ *       - Suppliers
+ *     summary: Delete a supplier that no document refers to (ADMIN only).
+ *     description: Suppliers with procurement history should be blocked instead.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Supplier deleted.
+ *       404:
+ *         description: Supplier not found.
+ *       409:
+ *         description: Supplier is referenced by other records.
+ */
+router.delete(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(["ADMIN"]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await prisma.supplier.delete({ where: { id: req.params.id } });
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === "P2025") {
+          return res.status(404).json({
+            success: false,
+            error: "Supplier not found."
+          });
+        }
+        if (error.code === "P2003") {
+          return res.status(409).json({
+            success: false,
+            error: "Supplier is referenced by other records; block it instead."
+          });
+        }
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
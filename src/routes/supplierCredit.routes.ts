@@ -0,0 +1,355 @@
+// src/routes/supplierCredit.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import { Prisma, SupplierCreditSource } from "@prisma/client";
+import { exchangeRateOn, isValidCurrency, normaliseCurrency } from "../utils/currency";
+import { AllocationInput, allocateToInvoices, validateAllocations } from "../utils/payables";
+import { roundMoney } from "../utils/tax";
+import { postCreditNoteJournal } from "../utils/journals";
+
+const router = Router();
+
+const FINANCE_ROLES = ["ADMIN", "FINANCE"];
+
+const CREDIT_INCLUDE = {
+  supplier: { select: { id: true, name: true } },
+  payment: { select: { id: true, paymentNumber: true, paymentDate: true } },
+  createdBy: { select: { id: true, fullName: true, email: true } },
+  allocations: {
+    include: {
+      invoice: {
+        select: { id: true, invoiceNumber: true, totalAmount: true, paidAmount: true }
+      }
+    }
+  }
+};
+
+/**
+ * @openapi
+ * /api/supplier-credits:
+ *   post:
+ *     tags:
+ *       - Supplier Credits
+ *     summary: Record a credit note received from a supplier.
+ *     description: >
+ *       The credit is carried forward until it is applied to invoices of the
+ *       same supplier and currency. Overpayment credits are created by
+ *       recording a payment, not here.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - supplierId
+ *               - creditNoteNumber
+ *               - creditDate
+ *               - amount
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *               creditNoteNumber:
+ *                 type: string
+ *                 description: The supplier's credit note number.
+ *               creditDate:
+ *                 type: string
+ *                 format: date
+ *               amount:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *                 description: Defaults to the supplier's currency.
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Credit note recorded.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Supplier not found.
+ *       409:
+ *         description: Duplicate credit note number for this supplier.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { supplierId, creditNoteNumber, creditDate, amount, currency, reason } =
+      req.body as {
+        supplierId?: string;
+        creditNoteNumber?: string;
+        creditDate?: string;
+        amount?: number;
+        currency?: string;
+        reason?: string;
+      };
+
+    if (
+      !supplierId ||
+      !creditNoteNumber ||
+      !creditNoteNumber.trim() ||
+      !creditDate ||
+      typeof amount !== "number" ||
+      !(amount > 0)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "supplierId, creditNoteNumber, creditDate and a positive amount are required."
+      });
+    }
+
+    const parsedDate = new Date(creditDate);
+    if (isNaN(parsedDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "creditDate must be a valid date."
+      });
+    }
+
+    if (currency !== undefined && !isValidCurrency(currency)) {
+      return res.status(400).json({
+        success: false,
+        error: "currency must be a 3-letter currency code."
+      });
+    }
+
+    const supplier = await prisma.supplier.findUnique({ where: { id: supplierId } });
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: "Supplier not found."
+      });
+    }
+
+    const creditCurrency = currency ? normaliseCurrency(currency) : supplier.currency;
+    const total = roundMoney(amount);
+
+    try {
+      const credit = await prisma.$transaction(async (tx) => {
+        const exchangeRate = await exchangeRateOn(tx, creditCurrency, parsedDate);
+
+        const created = await tx.supplierCredit.create({
+          data: {
+            supplierId: supplier.id,
+            source: SupplierCreditSource.CREDIT_NOTE,
+            creditNoteNumber: creditNoteNumber.trim(),
+            creditDate: parsedDate,
+            amount: total,
+            remaining: total,
+            currency: creditCurrency,
+            exchangeRate,
+            baseAmount: total.times(exchangeRate),
+            reason: reason?.trim() || null,
+            createdById: req.user!.id
+          },
+          include: CREDIT_INCLUDE
+        });
+        await postCreditNoteJournal(tx, created.id);
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        credit
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return res.status(409).json({
+          success: false,
+          error: "This supplier already has a credit note with this number."
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-credits:
+ *   get:
+ *     tags:
+ *       - Supplier Credits
+ *     summary: List supplier credits.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: open
+ *         description: Only credits with an unapplied balance.
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of credits, oldest first.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { supplierId, open } = req.query as { supplierId?: string; open?: string };
+
+    const where: Prisma.SupplierCreditWhereInput = {};
+    if (supplierId) where.supplierId = supplierId;
+    if (open === "true") where.remaining = { gt: 0 };
+
+    const credits = await prisma.supplierCredit.findMany({
+      where,
+      include: CREDIT_INCLUDE,
+      orderBy: { creditDate: "asc" }
+    });
+
+    res.json({
+      success: true,
+      credits
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-credits/{id}/apply:
+ *   post:
+ *     tags:
+ *       - Supplier Credits
+ *     summary: Apply a supplier credit to approved invoices.
+ *     description: >
+ *       Invoices must be from the same supplier, in the credit's currency and
+ *       APPROVED_FOR_PAYMENT. Any balance left stays on the credit.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - allocations
+ *             properties:
+ *               allocations:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - invoiceId
+ *                     - amount
+ *                   properties:
+ *                     invoiceId:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *     responses:
+ *       200:
+ *         description: Credit applied.
+ *       400:
+ *         description: Validation error, or more than the credit or an invoice balance.
+ *       404:
+ *         description: Credit not found.
+ *       409:
+ *         description: An invoice is not approved for payment.
+ */
+router.post(
+  "/:id/apply",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { allocations } = req.body as { allocations?: AllocationInput[] };
+
+    const allocationsError = validateAllocations(allocations);
+    if (allocationsError || allocations!.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: allocationsError ?? "allocations must not be empty."
+      });
+    }
+
+    const applying = allocations!.reduce(
+      (sum, allocation) => sum.plus(roundMoney(allocation.amount)),
+      new Prisma.Decimal(0)
+    );
+
+    try {
+      const credit = await prisma.$transaction(async (tx) => {
+        const current = await tx.supplierCredit.findUnique({
+          where: { id: req.params.id }
+        });
+        if (!current) {
+          throw createApiError(404, "Credit not found.");
+        }
+        if (applying.gt(current.remaining)) {
+          throw createApiError(
+            400,
+            `Only ${current.remaining.toFixed(2)} ${current.currency} of this credit is left.`
+          );
+        }
+
+        // Conditional decrement so the same credit cannot be applied twice
+        const updated = await tx.supplierCredit.updateMany({
+          where: { id: current.id, remaining: current.remaining },
+          data: { remaining: { decrement: applying } }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "The credit was applied concurrently; retry.");
+        }
+
+        await allocateToInvoices(
+          tx,
+          {
+            supplierId: current.supplierId,
+            currency: current.currency,
+            creditId: current.id,
+            userId: req.user!.id
+          },
+          allocations!
+        );
+
+        return tx.supplierCredit.findUniqueOrThrow({
+          where: { id: current.id },
+          include: CREDIT_INCLUDE
+        });
+      });
+
+      res.json({
+        success: true,
+        credit
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
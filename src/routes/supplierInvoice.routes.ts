@@ -0,0 +1,908 @@
+// src/routes/supplierInvoice.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import {
+  Prisma,
+  PurchaseOrderStatus,
+  SupplierInvoiceStatus
+} from "@prisma/client";
+import {
+  addInvoicedQuantities,
+  matchInvoice,
+  releaseInvoicedQuantities
+} from "../utils/invoiceMatching";
+import { exchangeRateOn, normaliseCurrency } from "../utils/currency";
+import { computeLineTax, documentTotals, loadTaxCodes, pickTaxCode } from "../utils/tax";
+import { agingReport } from "../utils/payables";
+import { postInvoiceJournal } from "../utils/journals";
+import { ENV } from "../config/env";
+
+const router = Router();
+
+const FINANCE_ROLES = ["ADMIN", "FINANCE"];
+
+const VIEWER_ROLES = [...FINANCE_ROLES, "PROCUREMENT"];
+
+//Purchase orders a supplier can invoice against
+const INVOICEABLE_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.APPROVED,
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+  PurchaseOrderStatus.RECEIVED,
+  PurchaseOrderStatus.CLOSED
+];
+
+const INVOICE_INCLUDE = {
+  supplier: true,
+  purchaseOrder: { select: { id: true, poNumber: true, status: true } },
+  capturedBy: { select: { id: true, fullName: true, email: true } },
+  decidedBy: { select: { id: true, fullName: true, email: true } },
+  lines: { include: { item: true, purchaseOrderLine: true, taxCode: true } },
+  allocations: {
+    include: {
+      payment: { select: { id: true, paymentNumber: true, paymentDate: true } },
+      credit: { select: { id: true, source: true, creditNoteNumber: true } }
+    }
+  }
+};
+
+interface InvoiceLineInput {
+  purchaseOrderLineId: string;
+  quantity: number;
+  unitPrice: number;
+  taxCodeId?: string | null;
+}
+
+//Shape checks on invoice lines. Returns an error message or null.
+function validateInvoiceLines(lines: unknown): string | null {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return "lines must be a non-empty array.";
+  }
+
+  const seen = new Set<string>();
+  for (const [index, line] of lines.entries()) {
+    if (!line || typeof line.purchaseOrderLineId !== "string" || !line.purchaseOrderLineId) {
+      return `lines[${index}].purchaseOrderLineId is required.`;
+    }
+    if (seen.has(line.purchaseOrderLineId)) {
+      return `lines[${index}] repeats purchase order line ${line.purchaseOrderLineId}.`;
+    }
+    seen.add(line.purchaseOrderLineId);
+
+    if (typeof line.quantity !== "number" || !(line.quantity > 0)) {
+      return `lines[${index}].quantity must be a positive number.`;
+    }
+    if (typeof line.unitPrice !== "number" || line.unitPrice < 0) {
+      return `lines[${index}].unitPrice must be a non-negative number.`;
+    }
+    if (
+      line.taxCodeId !== undefined &&
+      line.taxCodeId !== null &&
+      typeof line.taxCodeId !== "string"
+    ) {
+      return `lines[${index}].taxCodeId must be a tax code id or null.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * @openapi
+ * /api/supplier-invoices:
+ *   post:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: Capture a supplier invoice against a purchase order and three-way match it.
+ *     description: >
+ *       Each line is matched against the PO line (price and ordered quantity)
+ *       and the quantity received on GRNs, within INVOICE_PRICE_TOLERANCE_PERCENT
+ *       and INVOICE_QUANTITY_TOLERANCE_PERCENT. Fully matched invoices become
+ *       APPROVED_FOR_PAYMENT; others go to the EXCEPTION queue.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - purchaseOrderId
+ *               - invoiceNumber
+ *               - invoiceDate
+ *               - lines
+ *             properties:
+ *               purchaseOrderId:
+ *                 type: string
+ *               invoiceNumber:
+ *                 type: string
+ *                 description: The supplier's invoice number.
+ *               invoiceDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Also picks the exchange rate for foreign-currency invoices.
+ *               currency:
+ *                 type: string
+ *                 description: Optional check; must be the purchase order's currency.
+ *               remarks:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - purchaseOrderLineId
+ *                     - quantity
+ *                     - unitPrice
+ *                   properties:
+ *                     purchaseOrderLineId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     unitPrice:
+ *                       type: number
+ *                     taxCodeId:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Defaults to the PO line's tax code; null for no tax.
+ *     responses:
+ *       201:
+ *         description: Invoice captured; status shows the match outcome.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Purchase order not found.
+ *       409:
+ *         description: Duplicate invoice number for this supplier, or PO not invoiceable.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { purchaseOrderId, invoiceNumber, invoiceDate, currency, remarks, lines } =
+      req.body as {
+        purchaseOrderId?: string;
+        invoiceNumber?: string;
+        invoiceDate?: string;
+        currency?: string;
+        remarks?: string;
+        lines?: InvoiceLineInput[];
+      };
+
+    if (!purchaseOrderId || !invoiceNumber || !invoiceNumber.trim() || !invoiceDate) {
+      return res.status(400).json({
+        success: false,
+        error: "purchaseOrderId, invoiceNumber and invoiceDate are required."
+      });
+    }
+
+    const parsedDate = new Date(invoiceDate);
+    if (isNaN(parsedDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "invoiceDate must be a valid date."
+      });
+    }
+
+    const linesError = validateInvoiceLines(lines);
+    if (linesError) {
+      return res.status(400).json({
+        success: false,
+        error: linesError
+      });
+    }
+
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: { supplier: true, lines: true }
+    });
+
+    if (!po) {
+      return res.status(404).json({
+        success: false,
+        error: "Purchase order not found."
+      });
+    }
+
+    if (!INVOICEABLE_STATUSES.includes(po.status)) {
+      return res.status(409).json({
+        success: false,
+        error: `Only ${INVOICEABLE_STATUSES.join(", ")} purchase orders can be invoiced.`
+      });
+    }
+
+    if (
+      currency !== undefined &&
+      (typeof currency !== "string" || normaliseCurrency(currency) !== po.currency)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `Purchase order ${po.poNumber} is in ${po.currency}; invoices against it must be too.`
+      });
+    }
+
+    const poLines = new Map(po.lines.map((line) => [line.id, line]));
+    const unknown = lines!.findIndex((line) => !poLines.has(line.purchaseOrderLineId));
+    if (unknown !== -1) {
+      return res.status(400).json({
+        success: false,
+        error: `lines[${unknown}].purchaseOrderLineId is not a line of this purchase order.`
+      });
+    }
+
+    const dueDate = new Date(parsedDate);
+    dueDate.setDate(dueDate.getDate() + po.supplier.paymentTermsDays);
+
+    try {
+      const invoice = await prisma.$transaction(async (tx) => {
+        const exchangeRate = await exchangeRateOn(tx, po.currency, parsedDate);
+
+        const taxCodes = await loadTaxCodes(
+          tx,
+          lines!.map((line) => line.taxCodeId),
+          po.lines.map((line) => line.taxCodeId)
+        );
+        const taxedLines = lines!.map((line) => {
+          const poLine = poLines.get(line.purchaseOrderLineId)!;
+          const taxCode = pickTaxCode(taxCodes, line.taxCodeId, poLine.taxCodeId);
+          return {
+            purchaseOrderLineId: line.purchaseOrderLineId,
+            itemId: poLine.itemId,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            taxCodeId: taxCode?.id ?? null,
+            ...computeLineTax(line.quantity, line.unitPrice, taxCode)
+          };
+        });
+        const { netAmount, taxAmount, totalAmount } = documentTotals(taxedLines);
+
+        const created = await tx.supplierInvoice.create({
+          data: {
+            invoiceNumber: invoiceNumber.trim(),
+            supplierId: po.supplierId,
+            purchaseOrderId: po.id,
+            invoiceDate: parsedDate,
+            dueDate,
+            netAmount,
+            taxAmount,
+            totalAmount,
+            currency: po.currency,
+            exchangeRate,
+            baseTotalAmount: totalAmount.times(exchangeRate),
+            status: SupplierInvoiceStatus.EXCEPTION,
+            remarks: remarks || null,
+            capturedById: req.user!.id,
+            lines: { create: taxedLines }
+          }
+        });
+
+        await addInvoicedQuantities(tx, lines!, poLines);
+        await matchInvoice(tx, created.id);
+        await postInvoiceJournal(tx, created.id);
+
+        return tx.supplierInvoice.findUniqueOrThrow({
+          where: { id: created.id },
+          include: INVOICE_INCLUDE
+        });
+      });
+
+      res.status(201).json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return res.status(409).json({
+          success: false,
+          error: `Invoice ${invoiceNumber.trim()} from this supplier is already captured.`
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-invoices:
+ *   get:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: List supplier invoices.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - EXCEPTION
+ *             - APPROVED_FOR_PAYMENT
+ *             - REJECTED
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: purchaseOrderId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of invoices.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { status, supplierId, purchaseOrderId } = req.query as {
+      status?: string;
+      supplierId?: string;
+      purchaseOrderId?: string;
+    };
+
+    const where: any = {};
+
+    if (status) {
+      if (!Object.values(SupplierInvoiceStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+    if (supplierId) where.supplierId = supplierId;
+    if (purchaseOrderId) where.purchaseOrderId = purchaseOrderId;
+
+    const invoices = await prisma.supplierInvoice.findMany({
+      where,
+      include: INVOICE_INCLUDE,
+      orderBy: { invoiceDate: "desc" }
+    });
+
+    res.json({
+      success: true,
+      invoices
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-invoices/exceptions:
+ *   get:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: Exception queue of invoices that failed the three-way match.
+ *     description: >
+ *       Lists only the mismatched lines of each invoice with the PO price,
+ *       ordered and received quantities, and the price/quantity variances.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoices in EXCEPTION, oldest first.
+ */
+router.get(
+  "/exceptions",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (_req: Request, res: Response) => {
+    const invoices = await prisma.supplierInvoice.findMany({
+      where: { status: SupplierInvoiceStatus.EXCEPTION },
+      include: {
+        supplier: true,
+        purchaseOrder: { select: { id: true, poNumber: true, status: true } },
+        lines: {
+          where: { matched: false },
+          include: { item: true, purchaseOrderLine: true }
+        }
+      },
+      orderBy: { invoiceDate: "asc" }
+    });
+
+    res.json({
+      success: true,
+      exceptions: invoices.map((invoice) => ({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceDate: invoice.invoiceDate,
+        totalAmount: invoice.totalAmount,
+        supplier: invoice.supplier,
+        purchaseOrder: invoice.purchaseOrder,
+        matchedAt: invoice.matchedAt,
+        lines: invoice.lines.map((line) => ({
+          id: line.id,
+          item: line.item,
+          invoicedQuantity: line.quantity,
+          invoicedUnitPrice: line.unitPrice,
+          orderedQuantity: line.purchaseOrderLine.quantity,
+          orderedUnitPrice: line.purchaseOrderLine.unitPrice,
+          receivedQuantity: line.purchaseOrderLine.receivedQuantity,
+          priceVariance: line.priceVariance,
+          quantityVariance: line.quantityVariance,
+          amountVariance: line.priceVariance.times(line.quantity),
+          issues: line.matchIssues
+        }))
+      }))
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-invoices/aging:
+ *   get:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: Accounts payable aging by supplier.
+ *     description: >
+ *       Outstanding balances of approved invoices, bucketed by days past the
+ *       due date (invoice date plus the supplier's payment terms): current
+ *       (not yet due), 0-30, 31-60, 61-90 and 90+. Amounts are in
+ *       BASE_CURRENCY at each invoice's rate, with each supplier's unapplied
+ *       credits alongside.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         description: Age balances as they stood on this date (default now).
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Aging per supplier with totals per bucket.
+ *       400:
+ *         description: Invalid date.
+ */
+router.get(
+  "/aging",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { asOf, supplierId } = req.query as { asOf?: string; supplierId?: string };
+
+    const date = asOf ? new Date(asOf) : new Date();
+    if (isNaN(date.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "asOf must be a valid date."
+      });
+    }
+    //A plain date covers the whole day
+    if (asOf && /^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+
+    const aging = await agingReport(prisma, date, supplierId);
+
+    res.json({
+      success: true,
+      currency: ENV.BASE_CURRENCY,
+      ...aging
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-invoices/fx-differences:
+ *   get:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: Realised exchange differences between purchase orders and their invoices.
+ *     description: >
+ *       For foreign-currency invoices dated in the range that are approved
+ *       for payment, the invoiced quantities at the PO price are converted at
+ *       the invoice rate and at the PO rate; the difference is the realised
+ *       FX gain (negative) or loss (positive) in BASE_CURRENCY. Price
+ *       differences are left out; they show as price variance instead.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: FX differences per invoice with totals per currency.
+ *       400:
+ *         description: Invalid date range.
+ */
+router.get(
+  "/fx-differences",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { from, to, currency, supplierId } = req.query as {
+      from?: string;
+      to?: string;
+      currency?: string;
+      supplierId?: string;
+    };
+
+    const start = from ? new Date(from) : null;
+    const end = to ? new Date(to) : null;
+    if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      return res.status(400).json({
+        success: false,
+        error: "from and to are required valid dates, with from on or before to."
+      });
+    }
+
+    const where: Prisma.SupplierInvoiceWhereInput = {
+      status: SupplierInvoiceStatus.APPROVED_FOR_PAYMENT,
+      invoiceDate: { gte: start, lte: end },
+      currency: currency ? normaliseCurrency(currency) : { not: ENV.BASE_CURRENCY }
+    };
+    if (supplierId) where.supplierId = supplierId;
+
+    const invoices = await prisma.supplierInvoice.findMany({
+      where,
+      include: {
+        supplier: { select: { id: true, name: true } },
+        purchaseOrder: { select: { id: true, poNumber: true, exchangeRate: true } },
+        lines: { include: { purchaseOrderLine: { select: { unitPrice: true } } } }
+      },
+      orderBy: { invoiceDate: "asc" }
+    });
+
+    const zero = new Prisma.Decimal(0);
+    const totals = new Map<
+      string,
+      { currency: string; amount: Prisma.Decimal; difference: Prisma.Decimal }
+    >();
+
+    const rows = invoices.map((invoice) => {
+      //Invoiced quantities at the PO price, in the document currency
+      const amount = invoice.lines.reduce(
+        (sum, line) => sum.plus(line.quantity.times(line.purchaseOrderLine.unitPrice)),
+        zero
+      );
+      const atOrderRate = amount.times(invoice.purchaseOrder.exchangeRate);
+      const atInvoiceRate = amount.times(invoice.exchangeRate);
+      const difference = atInvoiceRate.minus(atOrderRate);
+
+      const total = totals.get(invoice.currency) ?? {
+        currency: invoice.currency,
+        amount: zero,
+        difference: zero
+      };
+      total.amount = total.amount.plus(amount);
+      total.difference = total.difference.plus(difference);
+      totals.set(invoice.currency, total);
+
+      return {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceDate: invoice.invoiceDate,
+        status: invoice.status,
+        supplier: invoice.supplier,
+        purchaseOrder: { id: invoice.purchaseOrder.id, poNumber: invoice.purchaseOrder.poNumber },
+        currency: invoice.currency,
+        amount,
+        orderRate: invoice.purchaseOrder.exchangeRate,
+        invoiceRate: invoice.exchangeRate,
+        atOrderRate,
+        atInvoiceRate,
+        difference
+      };
+    });
+
+    res.json({
+      success: true,
+      baseCurrency: ENV.BASE_CURRENCY,
+      totals: [...totals.values()],
+      totalDifference: rows.reduce((sum, row) => sum.plus(row.difference), zero),
+      invoices: rows
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-invoices/{id}:
+ *   get:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: Get a supplier invoice with its match results.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice.
+ *       404:
+ *         description: Invoice not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const invoice = await prisma.supplierInvoice.findUnique({
+      where: { id: req.params.id },
+      include: INVOICE_INCLUDE
+    });
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        error: "Invoice not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      invoice
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-invoices/{id}/rematch:
+ *   post:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: Re-run the three-way match on an exception, e.g. after more goods arrive.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Match re-run; status shows the outcome.
+ *       409:
+ *         description: Invoice is not in EXCEPTION.
+ */
+router.post(
+  "/:id/rematch",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const invoice = await prisma.$transaction(async (tx) => {
+        const current = await tx.supplierInvoice.findUnique({
+          where: { id: req.params.id }
+        });
+        if (!current || current.status !== SupplierInvoiceStatus.EXCEPTION) {
+          throw createApiError(409, "Only invoices in EXCEPTION can be re-matched.");
+        }
+
+        await matchInvoice(tx, current.id);
+        await postInvoiceJournal(tx, current.id);
+
+        return tx.supplierInvoice.findUniqueOrThrow({
+          where: { id: current.id },
+          include: INVOICE_INCLUDE
+        });
+      });
+
+      res.json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+//Resolve an exception by hand: approve it for payment despite the
+//variances, or reject it. The capturer cannot resolve their own invoice.
+async function resolveException(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  status: SupplierInvoiceStatus
+) {
+  const { remarks } = req.body as { remarks?: string };
+
+  if (!remarks || !remarks.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: "remarks are required to resolve an invoice exception."
+    });
+  }
+
+  const invoice = await prisma.supplierInvoice.findUnique({
+    where: { id: req.params.id }
+  });
+
+  if (!invoice) {
+    return res.status(404).json({
+      success: false,
+      error: "Invoice not found."
+    });
+  }
+
+  if (invoice.capturedById === req.user!.id) {
+    return res.status(403).json({
+      success: false,
+      error: "You cannot resolve an invoice you captured."
+    });
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.supplierInvoice.updateMany({
+        where: { id: invoice.id, status: SupplierInvoiceStatus.EXCEPTION },
+        data: {
+          status,
+          decidedById: req.user!.id,
+          decidedAt: new Date(),
+          decisionRemarks: remarks.trim()
+        }
+      });
+      if (updated.count === 0) {
+        throw createApiError(409, "Only invoices in EXCEPTION can be resolved.");
+      }
+      if (status === SupplierInvoiceStatus.REJECTED) {
+        await releaseInvoicedQuantities(tx, invoice.id);
+      }
+      await postInvoiceJournal(tx, invoice.id);
+    });
+
+    res.json({
+      success: true,
+      invoice: await prisma.supplierInvoice.findUniqueOrThrow({
+        where: { id: invoice.id },
+        include: INVOICE_INCLUDE
+      })
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @openapi
+ * /api/supplier-invoices/{id}/approve:
+ *   post:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: Approve an exception for payment despite its variances.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Invoice approved for payment.
+ *       403:
+ *         description: Caller captured the invoice.
+ *       409:
+ *         description: Invoice is not in EXCEPTION.
+ */
+router.post(
+  "/:id/approve",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  (req: Request, res: Response, next: NextFunction) =>
+    resolveException(req, res, next, SupplierInvoiceStatus.APPROVED_FOR_PAYMENT)
+);
+
+/**
+ * @openapi
+ * /api/supplier-invoices/{id}/reject:
+ *   post:
+ *     tags:
+ *       - Supplier Invoices
+ *     summary: Reject an invoice in the exception queue.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Invoice rejected.
+ *       403:
+ *         description: Caller captured the invoice.
+ *       409:
+ *         description: Invoice is not in EXCEPTION.
+ */
+router.post(
+  "/:id/reject",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  (req: Request, res: Response, next: NextFunction) =>
+    resolveException(req, res, next, SupplierInvoiceStatus.REJECTED)
+);
+
+export default router;
@@ -0,0 +1,349 @@
+// src/routes/supplierPayment.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { Prisma, SupplierCreditSource } from "@prisma/client";
+import { nextDocumentNumber } from "../utils/sequence";
+import { exchangeRateOn, isValidCurrency, normaliseCurrency } from "../utils/currency";
+import { AllocationInput, allocateToInvoices, validateAllocations } from "../utils/payables";
+import { roundMoney } from "../utils/tax";
+import { postPaymentJournal } from "../utils/journals";
+
+const router = Router();
+
+const FINANCE_ROLES = ["ADMIN", "FINANCE"];
+
+const PAYMENT_INCLUDE = {
+  supplier: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, fullName: true, email: true } },
+  allocations: {
+    include: {
+      invoice: {
+        select: { id: true, invoiceNumber: true, totalAmount: true, paidAmount: true }
+      }
+    }
+  },
+  credit: true
+};
+
+/**
+ * @openapi
+ * /api/supplier-payments:
+ *   post:
+ *     tags:
+ *       - Supplier Payments
+ *     summary: Record a payment to a supplier.
+ *     description: >
+ *       One payment can settle several invoices, fully or in part. Invoices
+ *       must be APPROVED_FOR_PAYMENT and in the payment currency. Whatever
+ *       is not allocated is kept as an OVERPAYMENT supplier credit that can
+ *       be applied to later invoices.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - supplierId
+ *               - paymentDate
+ *               - amount
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *               paymentDate:
+ *                 type: string
+ *                 format: date
+ *               amount:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *                 description: Defaults to the supplier's currency.
+ *               reference:
+ *                 type: string
+ *                 description: Bank transfer or cheque reference.
+ *               remarks:
+ *                 type: string
+ *               allocations:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - invoiceId
+ *                     - amount
+ *                   properties:
+ *                     invoiceId:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *     responses:
+ *       201:
+ *         description: Payment recorded.
+ *       400:
+ *         description: Validation error, or an allocation exceeds an invoice's balance.
+ *       404:
+ *         description: Supplier not found.
+ *       409:
+ *         description: An invoice is not approved for payment.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { supplierId, paymentDate, amount, currency, reference, remarks, allocations } =
+      req.body as {
+        supplierId?: string;
+        paymentDate?: string;
+        amount?: number;
+        currency?: string;
+        reference?: string;
+        remarks?: string;
+        allocations?: AllocationInput[];
+      };
+
+    if (!supplierId || !paymentDate || typeof amount !== "number" || !(amount > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "supplierId, paymentDate and a positive amount are required."
+      });
+    }
+
+    const parsedDate = new Date(paymentDate);
+    if (isNaN(parsedDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "paymentDate must be a valid date."
+      });
+    }
+
+    if (currency !== undefined && !isValidCurrency(currency)) {
+      return res.status(400).json({
+        success: false,
+        error: "currency must be a 3-letter currency code."
+      });
+    }
+
+    const allocationsError =
+      allocations === undefined ? null : validateAllocations(allocations);
+    if (allocationsError) {
+      return res.status(400).json({
+        success: false,
+        error: allocationsError
+      });
+    }
+
+    const total = roundMoney(amount);
+    const allocated = (allocations ?? []).reduce(
+      (sum, allocation) => sum.plus(roundMoney(allocation.amount)),
+      new Prisma.Decimal(0)
+    );
+    if (allocated.gt(total)) {
+      return res.status(400).json({
+        success: false,
+        error: "Allocations add up to more than the payment amount."
+      });
+    }
+
+    const supplier = await prisma.supplier.findUnique({ where: { id: supplierId } });
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: "Supplier not found."
+      });
+    }
+
+    const paymentCurrency = currency ? normaliseCurrency(currency) : supplier.currency;
+
+    try {
+      const payment = await prisma.$transaction(async (tx) => {
+        const exchangeRate = await exchangeRateOn(tx, paymentCurrency, parsedDate);
+
+        const created = await tx.supplierPayment.create({
+          data: {
+            paymentNumber: await nextDocumentNumber(tx, "PAY", parsedDate),
+            supplierId: supplier.id,
+            paymentDate: parsedDate,
+            amount: total,
+            currency: paymentCurrency,
+            exchangeRate,
+            baseAmount: total.times(exchangeRate),
+            reference: reference?.trim() || null,
+            remarks: remarks?.trim() || null,
+            createdById: req.user!.id
+          }
+        });
+
+        await allocateToInvoices(
+          tx,
+          {
+            supplierId: supplier.id,
+            currency: paymentCurrency,
+            paymentId: created.id,
+            userId: req.user!.id
+          },
+          allocations ?? []
+        );
+
+        const unallocated = total.minus(allocated);
+        if (unallocated.gt(0)) {
+          await tx.supplierCredit.create({
+            data: {
+              supplierId: supplier.id,
+              source: SupplierCreditSource.OVERPAYMENT,
+              paymentId: created.id,
+              creditDate: parsedDate,
+              amount: unallocated,
+              remaining: unallocated,
+              currency: paymentCurrency,
+              exchangeRate,
+              baseAmount: unallocated.times(exchangeRate),
+              reason: `Unallocated part of payment ${created.paymentNumber}`,
+              createdById: req.user!.id
+            }
+          });
+        }
+
+        await postPaymentJournal(tx, created.id);
+
+        return tx.supplierPayment.findUniqueOrThrow({
+          where: { id: created.id },
+          include: PAYMENT_INCLUDE
+        });
+      });
+
+      res.status(201).json({
+        success: true,
+        payment
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-payments:
+ *   get:
+ *     tags:
+ *       - Supplier Payments
+ *     summary: List supplier payments, newest first.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: List of payments.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const { supplierId, from, to } = req.query as {
+      supplierId?: string;
+      from?: string;
+      to?: string;
+    };
+
+    const where: Prisma.SupplierPaymentWhereInput = {};
+    if (supplierId) where.supplierId = supplierId;
+    if (from || to) {
+      const start = from ? new Date(from) : undefined;
+      const end = to ? new Date(to) : undefined;
+      if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+        return res.status(400).json({
+          success: false,
+          error: "from and to must be valid dates."
+        });
+      }
+      where.paymentDate = { gte: start, lte: end };
+    }
+
+    const payments = await prisma.supplierPayment.findMany({
+      where,
+      include: PAYMENT_INCLUDE,
+      orderBy: { paymentDate: "desc" }
+    });
+
+    res.json({
+      success: true,
+      payments
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/supplier-payments/{id}:
+ *   get:
+ *     tags:
+ *       - Supplier Payments
+ *     summary: Get a payment with the invoices it settled.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payment.
+ *       404:
+ *         description: Payment not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(FINANCE_ROLES),
+  async (req: Request, res: Response) => {
+    const payment = await prisma.supplierPayment.findUnique({
+      where: { id: req.params.id },
+      include: PAYMENT_INCLUDE
+    });
+
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        error: "Payment not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      payment
+    });
+  }
+);
+
+export default router;
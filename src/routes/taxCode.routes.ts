@@ -0,0 +1,391 @@
+// src/routes/taxCode.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { Prisma, SupplierInvoiceStatus } from "@prisma/client";
+import { ENV } from "../config/env";
+
+const router = Router();
+
+const MANAGER_ROLES = ["ADMIN", "FINANCE"];
+
+const VIEWER_ROLES = [...MANAGER_ROLES, "PROCUREMENT"];
+
+/**
+ * @openapi
+ * /api/tax-codes:
+ *   post:
+ *     tags:
+ *       - Tax Codes
+ *     summary: Add a tax code.
+ *     description: >
+ *       rate is a percentage. With isInclusive the unit prices on lines using
+ *       the code already contain the tax, which is backed out of them;
+ *       otherwise the tax is added on top. Tax on non-recoverable codes is
+ *       part of the cost of the goods received.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - name
+ *               - rate
+ *             properties:
+ *               code:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               rate:
+ *                 type: number
+ *               isInclusive:
+ *                 type: boolean
+ *                 default: false
+ *               isRecoverable:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Tax code added.
+ *       400:
+ *         description: Validation error.
+ *       409:
+ *         description: The code is already in use.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { code, name, rate, isInclusive, isRecoverable } = req.body as {
+      code?: string;
+      name?: string;
+      rate?: number;
+      isInclusive?: boolean;
+      isRecoverable?: boolean;
+    };
+
+    if (typeof code !== "string" || !code.trim() || typeof name !== "string" || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "code and name are required."
+      });
+    }
+
+    if (typeof rate !== "number" || !(rate >= 0) || rate > 100) {
+      return res.status(400).json({
+        success: false,
+        error: "rate must be a percentage between 0 and 100."
+      });
+    }
+
+    try {
+      const taxCode = await prisma.taxCode.create({
+        data: {
+          code: code.trim().toUpperCase(),
+          name: name.trim(),
+          rate,
+          isInclusive: Boolean(isInclusive),
+          isRecoverable: isRecoverable ?? true
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        taxCode
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return res.status(409).json({
+          success: false,
+          error: "A tax code with this code already exists."
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/tax-codes:
+ *   get:
+ *     tags:
+ *       - Tax Codes
+ *     summary: List tax codes.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Tax codes.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(VIEWER_ROLES),
+  async (req: Request, res: Response) => {
+    const { includeInactive } = req.query as { includeInactive?: string };
+
+    const taxCodes = await prisma.taxCode.findMany({
+      where: includeInactive === "true" ? {} : { isActive: true },
+      orderBy: { code: "asc" }
+    });
+
+    res.json({
+      success: true,
+      taxCodes
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/tax-codes/summary:
+ *   get:
+ *     tags:
+ *       - Tax Codes
+ *     summary: Input tax per tax code for a period, for filing.
+ *     description: >
+ *       Totals the lines of supplier invoices dated in the period that are
+ *       approved for payment, the same invoices whose tax is journalled,
+ *       converted to BASE_CURRENCY at each invoice's rate.
+ *       Tax on recoverable codes is reported separately from tax that is not.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Net and tax amounts per tax code, with period totals.
+ *       400:
+ *         description: Invalid period.
+ */
+router.get(
+  "/summary",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response) => {
+    const { from, to } = req.query as { from?: string; to?: string };
+
+    const start = from ? new Date(from) : null;
+    const end = to ? new Date(to) : null;
+    if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      return res.status(400).json({
+        success: false,
+        error: "from and to are required valid dates, with from on or before to."
+      });
+    }
+    //A plain date for `to` covers the whole day
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to!)) {
+      end.setUTCHours(23, 59, 59, 999);
+    }
+
+    const lines = await prisma.supplierInvoiceLine.findMany({
+      where: {
+        invoice: {
+          status: SupplierInvoiceStatus.APPROVED_FOR_PAYMENT,
+          invoiceDate: { gte: start, lte: end }
+        }
+      },
+      include: {
+        taxCode: true,
+        invoice: { select: { id: true, exchangeRate: true } }
+      }
+    });
+
+    const zero = new Prisma.Decimal(0);
+    const rows = new Map<
+      string,
+      {
+        taxCode: { id: string; code: string; name: string; rate: Prisma.Decimal } | null;
+        isRecoverable: boolean;
+        invoiceIds: Set<string>;
+        netAmount: Prisma.Decimal;
+        taxAmount: Prisma.Decimal;
+      }
+    >();
+
+    for (const line of lines) {
+      const key = line.taxCode?.id ?? "";
+      const row = rows.get(key) ?? {
+        taxCode: line.taxCode
+          ? {
+              id: line.taxCode.id,
+              code: line.taxCode.code,
+              name: line.taxCode.name,
+              rate: line.taxCode.rate
+            }
+          : null,
+        isRecoverable: line.taxCode?.isRecoverable ?? false,
+        invoiceIds: new Set<string>(),
+        netAmount: zero,
+        taxAmount: zero
+      };
+      row.invoiceIds.add(line.invoice.id);
+      row.netAmount = row.netAmount.plus(line.netAmount.times(line.invoice.exchangeRate));
+      row.taxAmount = row.taxAmount.plus(line.taxAmount.times(line.invoice.exchangeRate));
+      rows.set(key, row);
+    }
+
+    const summary = [...rows.values()]
+      .map(({ invoiceIds, netAmount, taxAmount, ...row }) => ({
+        ...row,
+        invoiceCount: invoiceIds.size,
+        netAmount: netAmount.toDecimalPlaces(2),
+        taxAmount: taxAmount.toDecimalPlaces(2)
+      }))
+      .sort((a, b) => (a.taxCode?.code ?? "").localeCompare(b.taxCode?.code ?? ""));
+
+    const totals = summary.reduce(
+      (sum, row) => ({
+        netAmount: sum.netAmount.plus(row.netAmount),
+        recoverableTax: row.isRecoverable
+          ? sum.recoverableTax.plus(row.taxAmount)
+          : sum.recoverableTax,
+        nonRecoverableTax: row.isRecoverable
+          ? sum.nonRecoverableTax
+          : sum.nonRecoverableTax.plus(row.taxAmount)
+      }),
+      { netAmount: zero, recoverableTax: zero, nonRecoverableTax: zero }
+    );
+
+    res.json({
+      success: true,
+      from: start,
+      to: end,
+      currency: ENV.BASE_CURRENCY,
+      summary,
+      totals
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/tax-codes/{id}:
+ *   patch:
+ *     tags:
+ *       - Tax Codes
+ *     summary: Rename a tax code or change whether it is active.
+ *     description: >
+ *       rate, isInclusive and isRecoverable cannot change once a code exists,
+ *       so documents already raised with it and the tax summary stay
+ *       consistent; add a new code instead.
+ *       Inactive codes cannot be put on new lines and are skipped as item or
+ *       supplier defaults.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Tax code updated.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Tax code not found.
+ */
+router.patch(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(MANAGER_ROLES),
+  async (req: Request, res: Response) => {
+    const { name, rate, isInclusive, isRecoverable, isActive } = req.body as {
+      name?: string;
+      rate?: number;
+      isInclusive?: boolean;
+      isRecoverable?: boolean;
+      isActive?: boolean;
+    };
+
+    if (rate !== undefined || isInclusive !== undefined || isRecoverable !== undefined) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "rate, isInclusive and isRecoverable cannot be changed; add a new tax code instead."
+      });
+    }
+
+    const data: Prisma.TaxCodeUpdateManyMutationInput = {};
+    if (name !== undefined) {
+      if (typeof name !== "string" || !name.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: "name must be a non-empty string."
+        });
+      }
+      data.name = name.trim();
+    }
+    if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+    const updated = await prisma.taxCode.updateMany({
+      where: { id: req.params.id },
+      data
+    });
+
+    if (updated.count === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Tax code not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      taxCode: await prisma.taxCode.findUnique({ where: { id: req.params.id } })
+    });
+  }
+);
+
+export default router;
@@ -0,0 +1,851 @@
+// src/routes/transfer.routes.ts
+import { Router, Request, Response, NextFunction } from "express";
+import prisma from "../config/prisma";
+import {
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole
+} from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
+import {
+  Prisma,
+  SerialStatus,
+  StockMovementType,
+  StockTransferStatus
+} from "@prisma/client";
+import {
+  StockLineInput,
+  addStock,
+  findActiveItems,
+  removeStock,
+  validateStockLines
+} from "../utils/stock";
+import {
+  moveSerials,
+  normaliseSerials,
+  validateLineSerials
+} from "../utils/serials";
+import {
+  LotPick,
+  addLotStock,
+  removeLotStock,
+  toLotReceipt,
+  validateLineLots
+} from "../utils/lots";
+import { postTransferDiscrepancyJournal } from "../utils/journals";
+
+const router = Router();
+
+const INVENTORY_ROLES = [
+  "ADMIN",
+  "STOREKEEPER",
+  "PROCUREMENT"
+];
+
+const TRANSFER_INCLUDE = {
+  fromWarehouse: true,
+  toWarehouse: true,
+  lines: { include: { item: true } }
+};
+
+interface DispatchedLot {
+  lotNumber: string;
+  expiryDate: string | null;
+  quantity: number;
+}
+
+//Spread a received quantity over the lots that were dispatched, in
+//dispatch order. Shortages hit the last lots; any surplus goes to the last.
+function splitAcrossLots(lots: DispatchedLot[], received: number) {
+  const split: { lot: DispatchedLot; quantity: number }[] = [];
+  let remaining = new Prisma.Decimal(received);
+
+  lots.forEach((lot, index) => {
+    const isLast = index === lots.length - 1;
+    const quantity = isLast
+      ? remaining
+      : Prisma.Decimal.min(remaining, lot.quantity);
+    if (quantity.gt(0)) {
+      split.push({ lot, quantity: quantity.toNumber() });
+      remaining = remaining.minus(quantity);
+    }
+  });
+
+  return split;
+}
+
+//Attach received - dispatched per line (null until the transfer is received)
+function withDiscrepancies<
+  T extends {
+    lines: { quantity: Prisma.Decimal; receivedQuantity: Prisma.Decimal | null }[];
+  }
+>(transfer: T) {
+  return {
+    ...transfer,
+    lines: transfer.lines.map((line) => ({
+      ...line,
+      discrepancy:
+        line.receivedQuantity === null
+          ? null
+          : line.receivedQuantity.minus(line.quantity)
+    }))
+  };
+}
+
+/**
+ * @openapi
+ * /api/transfers:
+ *   post:
+ *     tags:
+ *       - Transfers
+ *     summary: Create a draft stock transfer between two warehouses.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fromWarehouseId
+ *               - toWarehouseId
+ *               - lines
+ *             properties:
+ *               fromWarehouseId:
+ *                 type: string
+ *               toWarehouseId:
+ *                 type: string
+ *               remarks:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - itemId
+ *                     - quantity
+ *                   properties:
+ *                     itemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     serialNumbers:
+ *                       type: array
+ *                       description: One per unit; required for trackable items.
+ *                       items:
+ *                         type: string
+ *                     lots:
+ *                       type: array
+ *                       description: >
+ *                         Lot-controlled items only. Lots to send; picked
+ *                         first-expired-first-out at dispatch when omitted.
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           lotNumber:
+ *                             type: string
+ *                           quantity:
+ *                             type: number
+ *     responses:
+ *       201:
+ *         description: Transfer created in DRAFT status.
+ *       400:
+ *         description: Validation error.
+ */
+router.post(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const { fromWarehouseId, toWarehouseId, remarks, lines } = req.body as {
+      fromWarehouseId?: string;
+      toWarehouseId?: string;
+      remarks?: string;
+      lines?: StockLineInput[];
+    };
+
+    if (!fromWarehouseId || !toWarehouseId) {
+      return res.status(400).json({
+        success: false,
+        error: "fromWarehouseId and toWarehouseId are required."
+      });
+    }
+
+    if (fromWarehouseId === toWarehouseId) {
+      return res.status(400).json({
+        success: false,
+        error: "Source and destination warehouses must be different."
+      });
+    }
+
+    const linesError = validateStockLines(lines);
+    if (linesError) {
+      return res.status(400).json({
+        success: false,
+        error: linesError
+      });
+    }
+
+    const activeWarehouses = await prisma.warehouse.count({
+      where: { id: { in: [fromWarehouseId, toWarehouseId] }, isActive: true }
+    });
+    if (activeWarehouses !== 2) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive fromWarehouseId or toWarehouseId."
+      });
+    }
+
+    const items = await findActiveItems(
+      prisma,
+      lines!.map((line) => line.itemId)
+    );
+    if (!items) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more lines reference an invalid or inactive itemId."
+      });
+    }
+
+    const serialError = validateLineSerials(lines!, items);
+    if (serialError) {
+      return res.status(400).json({
+        success: false,
+        error: serialError
+      });
+    }
+
+    const lotError = validateLineLots(lines!, items, "OUT");
+    if (lotError) {
+      return res.status(400).json({
+        success: false,
+        error: lotError
+      });
+    }
+
+    const transfer = await prisma.stockTransfer.create({
+      data: {
+        fromWarehouseId,
+        toWarehouseId,
+        remarks: remarks || null,
+        createdById: req.user!.id,
+        lines: {
+          create: lines!.map((line) => ({
+            itemId: line.itemId,
+            quantity: line.quantity,
+            serialNumbers: items.get(line.itemId)!.isTrackable
+              ? normaliseSerials(line.serialNumbers)
+              : Prisma.DbNull,
+            // Manual lot picks until dispatch replaces them with the actual lots
+            lots: line.lots
+              ? line.lots.map((pick) => ({ ...pick }))
+              : Prisma.DbNull
+          }))
+        }
+      },
+      include: TRANSFER_INCLUDE
+    });
+
+    res.status(201).json({
+      success: true,
+      transfer: withDiscrepancies(transfer)
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/transfers:
+ *   get:
+ *     tags:
+ *       - Transfers
+ *     summary: List stock transfers.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - DRAFT
+ *             - IN_TRANSIT
+ *             - RECEIVED
+ *             - CANCELLED
+ *       - in: query
+ *         name: warehouseId
+ *         description: Matches either the source or the destination warehouse.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: hasDiscrepancy
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of transfers.
+ */
+router.get(
+  "/",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const { status, warehouseId, hasDiscrepancy } = req.query as {
+      status?: string;
+      warehouseId?: string;
+      hasDiscrepancy?: string;
+    };
+
+    const where: any = {};
+
+    if (status) {
+      if (!Object.values(StockTransferStatus).includes(status as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status."
+        });
+      }
+      where.status = status;
+    }
+
+    if (warehouseId) {
+      where.OR = [
+        { fromWarehouseId: warehouseId },
+        { toWarehouseId: warehouseId }
+      ];
+    }
+
+    if (hasDiscrepancy !== undefined) {
+      where.hasDiscrepancy = hasDiscrepancy === "true";
+    }
+
+    const transfers = await prisma.stockTransfer.findMany({
+      where,
+      include: TRANSFER_INCLUDE,
+      orderBy: { createdAt: "desc" }
+    });
+
+    res.json({
+      success: true,
+      transfers: transfers.map(withDiscrepancies)
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/transfers/{id}:
+ *   get:
+ *     tags:
+ *       - Transfers
+ *     summary: Get a stock transfer with per-line discrepancies.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transfer details.
+ *       404:
+ *         description: Transfer not found.
+ */
+router.get(
+  "/:id",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id: req.params.id },
+      include: TRANSFER_INCLUDE
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: "Transfer not found."
+      });
+    }
+
+    res.json({
+      success: true,
+      transfer: withDiscrepancies(transfer)
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/transfers/{id}/dispatch:
+ *   post:
+ *     tags:
+ *       - Transfers
+ *     summary: Dispatch a draft transfer from the source warehouse.
+ *     description: >
+ *       Posts an OUT movement per line at the source warehouse and moves the
+ *       transfer to IN_TRANSIT. Fails if any line exceeds the available stock
+ *       or names a serial that is not in stock at the source.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transfer dispatched.
+ *       400:
+ *         description: Insufficient stock.
+ *       404:
+ *         description: Transfer not found.
+ *       409:
+ *         description: Transfer is not in DRAFT status.
+ */
+router.post(
+  "/:id/dispatch",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id: req.params.id },
+      include: { lines: { include: { item: true } } }
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: "Transfer not found."
+      });
+    }
+
+    try {
+      const dispatched = await prisma.$transaction(async (tx) => {
+        // Guard on status so a transfer cannot be dispatched twice
+        const updated = await tx.stockTransfer.updateMany({
+          where: { id: transfer.id, status: StockTransferStatus.DRAFT },
+          data: {
+            status: StockTransferStatus.IN_TRANSIT,
+            dispatchedById: req.user!.id,
+            dispatchedAt: new Date()
+          }
+        });
+        if (updated.count === 0) {
+          throw createApiError(409, "Only DRAFT transfers can be dispatched.");
+        }
+
+        for (const line of transfer.lines) {
+          const posting = {
+            itemId: line.itemId,
+            warehouseId: transfer.fromWarehouseId,
+            quantity: line.quantity,
+            movementType: StockMovementType.OUT,
+            referenceType: "TRANSFER",
+            referenceId: transfer.id,
+            remarks: "Transfer dispatched",
+            createdById: req.user!.id
+          };
+
+          if (line.item.isLotControlled) {
+            const allocations = await removeLotStock(
+              tx,
+              posting,
+              (line.lots as LotPick[] | null) ?? undefined
+            );
+            await tx.stockTransferLine.update({
+              where: { id: line.id },
+              data: {
+                lots: allocations.map((allocation) => ({
+                  lotNumber: allocation.lot.lotNumber,
+                  expiryDate: allocation.lot.expiryDate?.toISOString() ?? null,
+                  quantity: allocation.quantity.toNumber()
+                })),
+                unitCost: allocations
+                  .reduce((sum, allocation) => sum.plus(allocation.cost!), new Prisma.Decimal(0))
+                  .div(line.quantity)
+              }
+            });
+          } else {
+            const movement = await removeStock(tx, posting);
+            await tx.stockTransferLine.update({
+              where: { id: line.id },
+              data: { unitCost: movement.unitCost }
+            });
+          }
+
+          if (line.item.isTrackable) {
+            await moveSerials(
+              tx,
+              {
+                status: SerialStatus.IN_STOCK,
+                warehouseId: transfer.fromWarehouseId
+              },
+              { status: SerialStatus.IN_TRANSIT, warehouseId: null },
+              {
+                itemId: line.itemId,
+                serialNumbers: line.serialNumbers as string[],
+                referenceType: "TRANSFER",
+                referenceId: transfer.id,
+                remarks: "Transfer dispatched",
+                createdById: req.user!.id
+              }
+            );
+          }
+        }
+
+        return tx.stockTransfer.findUniqueOrThrow({
+          where: { id: transfer.id },
+          include: TRANSFER_INCLUDE
+        });
+      });
+
+      res.json({
+        success: true,
+        transfer: withDiscrepancies(dispatched)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/transfers/{id}/receive:
+ *   post:
+ *     tags:
+ *       - Transfers
+ *     summary: Receive an in-transit transfer at the destination warehouse.
+ *     description: >
+ *       Posts an IN movement per line at the destination for the quantity
+ *       actually received. Short and over receipts are accepted and reported
+ *       as discrepancies; the value of the difference at the dispatch cost is
+ *       recorded on the line as discrepancyCost (negative for a shortage)
+ *       and journaled out of stock in transit against stock adjustments.
+ *       Lines not listed are treated as received in full.
+ *       For trackable items, list the serials that arrived; dispatched
+ *       serials not listed are marked MISSING.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - lineId
+ *                   properties:
+ *                     lineId:
+ *                       type: string
+ *                     receivedQuantity:
+ *                       type: number
+ *                       description: Required unless serialNumbers is given.
+ *                     serialNumbers:
+ *                       type: array
+ *                       description: Trackable items only; serials received.
+ *                       items:
+ *                         type: string
+ *     responses:
+ *       200:
+ *         description: Transfer received.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: Transfer not found.
+ *       409:
+ *         description: Transfer is not IN_TRANSIT.
+ */
+router.post(
+  "/:id/receive",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { lines = [] } = req.body as {
+      lines?: {
+        lineId?: string;
+        receivedQuantity?: number;
+        serialNumbers?: string[];
+      }[];
+    };
+
+    if (!Array.isArray(lines)) {
+      return res.status(400).json({
+        success: false,
+        error: "lines must be an array."
+      });
+    }
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id: req.params.id },
+      include: { lines: { include: { item: true } } }
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: "Transfer not found."
+      });
+    }
+
+    // Lines not listed are received in full
+    const received = new Map<string, { quantity: number; serials: string[] }>(
+      transfer.lines.map((line) => [
+        line.id,
+        {
+          quantity: line.quantity.toNumber(),
+          serials: (line.serialNumbers as string[] | null) ?? []
+        }
+      ])
+    );
+
+    for (const [index, entry] of lines.entries()) {
+      const line = transfer.lines.find((l) => l.id === entry?.lineId);
+      if (!line) {
+        return res.status(400).json({
+          success: false,
+          error: `lines[${index}].lineId does not belong to this transfer.`
+        });
+      }
+
+      if (line.item.isTrackable) {
+        const dispatched = (line.serialNumbers as string[] | null) ?? [];
+        const serials = entry.serialNumbers;
+        if (
+          !Array.isArray(serials) ||
+          new Set(serials).size !== serials.length ||
+          serials.some((sn) => !dispatched.includes(sn))
+        ) {
+          return res.status(400).json({
+            success: false,
+            error: `lines[${index}].serialNumbers must list the dispatched serials that arrived.`
+          });
+        }
+        if (
+          entry.receivedQuantity !== undefined &&
+          entry.receivedQuantity !== serials.length
+        ) {
+          return res.status(400).json({
+            success: false,
+            error: `lines[${index}].receivedQuantity must match the number of serials.`
+          });
+        }
+        received.set(line.id, { quantity: serials.length, serials });
+        continue;
+      }
+
+      if (
+        typeof entry.receivedQuantity !== "number" ||
+        !(entry.receivedQuantity >= 0)
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: `lines[${index}].receivedQuantity must be zero or more.`
+        });
+      }
+      received.set(line.id, { quantity: entry.receivedQuantity, serials: [] });
+    }
+
+    const hasDiscrepancy = transfer.lines.some(
+      (line) => !line.quantity.equals(received.get(line.id)!.quantity)
+    );
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        // Guard on status so a transfer cannot be received twice
+        const updated = await tx.stockTransfer.updateMany({
+          where: { id: transfer.id, status: StockTransferStatus.IN_TRANSIT },
+          data: {
+            status: StockTransferStatus.RECEIVED,
+            hasDiscrepancy,
+            receivedById: req.user!.id,
+            receivedAt: new Date()
+          }
+        });
+        if (updated.count === 0) {
+          throw createApiError(
+            409,
+            "Only IN_TRANSIT transfers can be received."
+          );
+        }
+
+        for (const line of transfer.lines) {
+          const { quantity: receivedQuantity, serials } = received.get(line.id)!;
+
+          // Stock lost or gained in transit is valued at what it was
+          // dispatched at
+          const difference = new Prisma.Decimal(receivedQuantity).minus(line.quantity);
+          await tx.stockTransferLine.update({
+            where: { id: line.id },
+            data: {
+              receivedQuantity,
+              discrepancyCost:
+                difference.isZero() || !line.unitCost
+                  ? null
+                  : difference.times(line.unitCost)
+            }
+          });
+          await postTransferDiscrepancyJournal(tx, line.id);
+
+          const posting = {
+            itemId: line.itemId,
+            warehouseId: transfer.toWarehouseId,
+            quantity: receivedQuantity,
+            movementType: StockMovementType.IN,
+            referenceType: "TRANSFER",
+            referenceId: transfer.id,
+            remarks: "Transfer received",
+            unitCost: line.unitCost,
+            createdById: req.user!.id
+          };
+
+          if (line.item.isLotControlled) {
+            const split = splitAcrossLots(
+              line.lots as unknown as DispatchedLot[],
+              receivedQuantity
+            );
+            for (const { lot, quantity } of split) {
+              await addLotStock(
+                tx,
+                { ...posting, quantity },
+                toLotReceipt(lot.lotNumber, lot.expiryDate)
+              );
+            }
+          } else if (receivedQuantity > 0) {
+            await addStock(tx, posting);
+          }
+
+          if (!line.item.isTrackable) {
+            continue;
+          }
+
+          const inTransit = { status: SerialStatus.IN_TRANSIT, warehouseId: null };
+          const missing = ((line.serialNumbers as string[] | null) ?? []).filter(
+            (sn) => !serials.includes(sn)
+          );
+
+          if (serials.length > 0) {
+            await moveSerials(
+              tx,
+              inTransit,
+              {
+                status: SerialStatus.IN_STOCK,
+                warehouseId: transfer.toWarehouseId
+              },
+              {
+                itemId: line.itemId,
+                serialNumbers: serials,
+                referenceType: "TRANSFER",
+                referenceId: transfer.id,
+                remarks: "Transfer received",
+                createdById: req.user!.id
+              }
+            );
+          }
+
+          if (missing.length > 0) {
+            await moveSerials(
+              tx,
+              inTransit,
+              { status: SerialStatus.MISSING, warehouseId: null },
+              {
+                itemId: line.itemId,
+                serialNumbers: missing,
+                referenceType: "TRANSFER",
+                referenceId: transfer.id,
+                remarks: "Not received at destination",
+                createdById: req.user!.id
+              }
+            );
+          }
+        }
+
+        return tx.stockTransfer.findUniqueOrThrow({
+          where: { id: transfer.id },
+          include: TRANSFER_INCLUDE
+        });
+      });
+
+      res.json({
+        success: true,
+        transfer: withDiscrepancies(result)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/transfers/{id}/cancel:
+ *   post:
+ *     tags:
+ *       - Transfers
+ *     summary: Cancel a draft transfer.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transfer cancelled.
+ *       409:
+ *         description: Transfer is not in DRAFT status.
+ */
+router.post(
+  "/:id/cancel",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const updated = await prisma.stockTransfer.updateMany({
+      where: { id: req.params.id, status: StockTransferStatus.DRAFT },
+      data: { status: StockTransferStatus.CANCELLED }
+    });
+
+    if (updated.count === 0) {
+      return res.status(409).json({
+        success: false,
+        error: "Only existing DRAFT transfers can be cancelled."
+      });
+    }
+
+    res.json({
+      success: true
+    });
+  }
+);
+
+export default router;
@@ -1,4 +1,4 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import prisma from "../config/prisma";
 import {
   authMiddleware,
@@ -6,7 +6,40 @@ import {
   requireNonFirstLogin,
   requireRole
 } from "../middleware/auth";
-import { StockMovementType } from "@prisma/client";
+import {
+  Prisma,
+  SerialStatus,
+  StockMovementType,
+  SupplierStatus
+} from "@prisma/client";
+import {
+  StockLineInput,
+  addStock,
+  findActiveItems,
+  findLowStock,
+  ledgerBalance,
+  pairKey,
+  removeStock,
+  replayBalances,
+  signedQuantity,
+  validateStockLines
+} from "../utils/stock";
+import {
+  moveSerials,
+  normaliseSerials,
+  receiveSerials,
+  validateLineSerials,
+  validateSerials
+} from "../utils/serials";
+import {
+  addLotStock,
+  removeLotStock,
+  toLotReceipt,
+  validateLineLots,
+  validateLotReceipt
+} from "../utils/lots";
+import { costInbound, openCostLayer, valueStockLevel } from "../utils/costing";
+import { postStockJournal } from "../utils/journals";
 
 const router = Router();
 
@@ -16,6 +49,80 @@ const INVENTORY_ROLES = [
     "PROCUREMENT"
 ];
 
+//Purchase order deliveries are received through /api/goods-receipts so
+//the order's received quantities and status stay in step with stock
+const RECEIPT_REFERENCE_TYPES = [
+  "DELIVERY_NOTE",
+  "DONATION"
+];
+
+//Rebuild every item/warehouse balance as of a date by replaying the
+//ledger, next to the full-ledger balance and the stored StockLevel.
+async function buildAsOfReport(
+  asOf: Date,
+  filters: { warehouseId?: string; itemId?: string }
+) {
+  const where: { warehouseId?: string; itemId?: string } = {};
+  if (filters.warehouseId) where.warehouseId = filters.warehouseId;
+  if (filters.itemId) where.itemId = filters.itemId;
+
+  const [asOfBalances, ledgerBalances, stockLevels] = await Promise.all([
+    replayBalances(prisma, { ...where, createdAt: { lte: asOf } }),
+    replayBalances(prisma, where),
+    prisma.stockLevel.findMany({ where })
+  ]);
+
+  const storedByPair = new Map(
+    stockLevels.map((level) => [
+      pairKey(level.itemId, level.warehouseId),
+      level.quantity
+    ])
+  );
+
+  const pairs = new Map<string, { itemId: string; warehouseId: string }>();
+  for (const { itemId, warehouseId } of [
+    ...ledgerBalances.values(),
+    ...stockLevels
+  ]) {
+    pairs.set(pairKey(itemId, warehouseId), { itemId, warehouseId });
+  }
+
+  const [items, warehouses] = await Promise.all([
+    prisma.item.findMany({
+      where: { id: { in: [...pairs.values()].map((pair) => pair.itemId) } }
+    }),
+    prisma.warehouse.findMany({
+      where: {
+        id: { in: [...pairs.values()].map((pair) => pair.warehouseId) }
+      }
+    })
+  ]);
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const warehousesById = new Map(warehouses.map((w) => [w.id, w]));
+
+  const zero = new Prisma.Decimal(0);
+  return [...pairs.entries()]
+    .map(([key, { itemId, warehouseId }]) => {
+      const ledgerQuantity = ledgerBalances.get(key)?.quantity ?? zero;
+      const storedQuantity = storedByPair.get(key) ?? null;
+      return {
+        itemId,
+        warehouseId,
+        item: itemsById.get(itemId)!,
+        warehouse: warehousesById.get(warehouseId)!,
+        asOfQuantity: asOfBalances.get(key)?.quantity ?? zero,
+        ledgerQuantity,
+        storedQuantity,
+        mismatch: !ledgerQuantity.equals(storedQuantity ?? zero)
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.warehouse.name.localeCompare(b.warehouse.name) ||
+        a.item.name.localeCompare(b.item.name)
+    );
+}
+
 /**
  * @openapi
  * /api/warehouses:
@@ -136,8 +243,9 @@ router.get(
  *       - Warehouses
  *     summary: Record opening stock for an item in a warehouse.
  *     description: >
- *       Creates or updates the StockLevel and logs a StockMovement of type OPENING.
- *       Intended to be used once when setting up the system.
+ *       Creates the StockLevel and logs a StockMovement of type OPENING.
+ *       Allowed only once per item/warehouse pair; later stock must come in
+ *       through /api/warehouses/receipts.
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -159,9 +267,25 @@ router.get(
  *                 type: number
  *               reorderLevel:
  *                 type: number
+ *               serialNumbers:
+ *                 type: array
+ *                 description: One per unit; required for trackable items.
+ *                 items:
+ *                   type: string
+ *               lotNumber:
+ *                 type: string
+ *                 description: Required for lot-controlled items.
+ *               expiryDate:
+ *                 type: string
+ *                 format: date
+ *               unitCost:
+ *                 type: number
+ *                 description: Cost per unit the opening stock is valued at (default 0).
  *     responses:
  *       200:
  *         description: Opening stock recorded.
+ *       409:
+ *         description: Stock already exists for this item and warehouse.
  */
 router.post(
   "/opening-stock",
@@ -169,12 +293,25 @@ router.post(
   requireAuth,
   requireNonFirstLogin,
   requireRole(INVENTORY_ROLES),
-  async (req: Request, res: Response) => {
-    const { itemId, warehouseId, quantity, reorderLevel } = req.body as {
+  async (req: Request, res: Response, next: NextFunction) => {
+    const {
+      itemId,
+      warehouseId,
+      quantity,
+      reorderLevel,
+      serialNumbers,
+      lotNumber,
+      expiryDate,
+      unitCost
+    } = req.body as {
       itemId?: string;
       warehouseId?: string;
       quantity?: number;
       reorderLevel?: number;
+      serialNumbers?: string[];
+      lotNumber?: string;
+      expiryDate?: string;
+      unitCost?: number;
     };
 
     if (!itemId || !warehouseId || quantity === undefined) {
@@ -191,6 +328,13 @@ router.post(
       });
     }
 
+    if (unitCost !== undefined && (typeof unitCost !== "number" || unitCost < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "unitCost must be a non-negative number."
+      });
+    }
+
     // Ensure item and warehouse exist
     const item = await prisma.item.findUnique({ where: { id: itemId } });
     if (!item || !item.isActive) {
@@ -200,6 +344,22 @@ router.post(
       });
     }
 
+    const serialError = validateSerials(item, quantity, serialNumbers, "body");
+    if (serialError) {
+      return res.status(400).json({
+        success: false,
+        error: serialError
+      });
+    }
+
+    const lotError = validateLotReceipt(item, lotNumber, expiryDate, "body");
+    if (lotError) {
+      return res.status(400).json({
+        success: false,
+        error: lotError
+      });
+    }
+
     const warehouse = await prisma.warehouse.findUnique({
       where: { id: warehouseId }
     });
@@ -210,39 +370,100 @@ router.post(
       });
     }
 
-    // Upsert stock level
-    const stockLevel = await prisma.stockLevel.upsert({
+    const existing = await prisma.stockLevel.findUnique({
       where: {
         itemId_warehouseId: {
           itemId,
           warehouseId
         }
-      },
-      update: {
-        quantity,
-        reorderLevel: reorderLevel ?? 0
-      },
-      create: {
-        itemId,
-        warehouseId,
-        quantity,
-        reorderLevel: reorderLevel ?? 0
       }
     });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error:
+          "Stock already exists for this item in this warehouse. Use a receipt instead."
+      });
+    }
 
-    // Log stock movement
-    await prisma.stockMovement.create({
-      data: {
-        itemId,
-        warehouseId,
-        quantity,
-        movementType: StockMovementType.OPENING,
-        referenceType: "OPENING_STOCK",
-        referenceId: null,
-        remarks: "Opening stock",
-        createdById: req.user!.id
+    let stockLevel;
+    try {
+      stockLevel = await prisma.$transaction(async (tx) => {
+        const cost = await costInbound(
+          tx,
+          itemId,
+          warehouseId,
+          new Prisma.Decimal(quantity),
+          unitCost ?? 0
+        );
+
+        const created = await tx.stockLevel.create({
+          data: {
+            itemId,
+            warehouseId,
+            quantity,
+            reorderLevel: reorderLevel ?? 0,
+            averageCost: cost.averageCost
+          }
+        });
+
+        const lot = item.isLotControlled
+          ? await tx.stockLot.create({
+              data: {
+                stockLevelId: created.id,
+                itemId,
+                warehouseId,
+                quantity,
+                ...toLotReceipt(lotNumber, expiryDate)
+              }
+            })
+          : null;
+
+        const movement = await tx.stockMovement.create({
+          data: {
+            itemId,
+            warehouseId,
+            quantity,
+            lotId: lot?.id ?? null,
+            movementType: StockMovementType.OPENING,
+            referenceType: "OPENING_STOCK",
+            referenceId: null,
+            remarks: "Opening stock",
+            unitCost: cost.unitCost,
+            totalCost: cost.totalCost,
+            createdById: req.user!.id
+          }
+        });
+        await openCostLayer(tx, movement, cost);
+        await postStockJournal(tx, movement);
+
+        if (item.isTrackable) {
+          await receiveSerials(tx, warehouseId, {
+            itemId,
+            serialNumbers: normaliseSerials(serialNumbers),
+            referenceType: "OPENING_STOCK",
+            referenceId: null,
+            remarks: "Opening stock",
+            createdById: req.user!.id
+          });
+        }
+
+        return created;
+      });
+    } catch (error) {
+      // Unique (itemId, warehouseId) hit by a concurrent request
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return res.status(409).json({
+          success: false,
+          error:
+            "Stock already exists for this item in this warehouse. Use a receipt instead."
+        });
       }
-    });
+      return next(error);
+    }
 
     res.json({
       success: true,
@@ -251,6 +472,437 @@ router.post(
   }
 );
 
+/**
+ * @openapi
+ * /api/warehouses/receipts:
+ *   post:
+ *     tags:
+ *       - Warehouses
+ *     summary: Receive stock into a warehouse.
+ *     description: >
+ *       Adds each line to the existing StockLevel (creating it if needed) and
+ *       logs an IN StockMovement carrying the reference type and id, all in
+ *       one transaction.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - warehouseId
+ *               - referenceType
+ *               - referenceId
+ *               - lines
+ *             properties:
+ *               warehouseId:
+ *                 type: string
+ *               referenceType:
+ *                 type: string
+ *                 enum:
+ *                   - DELIVERY_NOTE
+ *                   - DONATION
+ *                 description: Purchase order deliveries go through /api/goods-receipts.
+ *               referenceId:
+ *                 type: string
+ *                 description: Delivery note number, donation reference, etc.
+ *               remarks:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - itemId
+ *                     - quantity
+ *                   properties:
+ *                     itemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     serialNumbers:
+ *                       type: array
+ *                       description: One per unit; required for trackable items.
+ *                       items:
+ *                         type: string
+ *                     lotNumber:
+ *                       type: string
+ *                       description: Required for lot-controlled items.
+ *                     expiryDate:
+ *                       type: string
+ *                       format: date
+ *                     unitCost:
+ *                       type: number
+ *                       description: Cost per unit; defaults to the current average cost.
+ *     responses:
+ *       201:
+ *         description: Stock received.
+ *       400:
+ *         description: Validation error.
+ */
+router.post(
+  "/receipts",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { warehouseId, referenceType, referenceId, remarks, lines } =
+      req.body as {
+        warehouseId?: string;
+        referenceType?: string;
+        referenceId?: string;
+        remarks?: string;
+        lines?: StockLineInput[];
+      };
+
+    if (!warehouseId || !referenceType || !referenceId) {
+      return res.status(400).json({
+        success: false,
+        error: "warehouseId, referenceType and referenceId are required."
+      });
+    }
+
+    if (referenceType === "PURCHASE_ORDER") {
+      return res.status(400).json({
+        success: false,
+        error: "Receive purchase order deliveries through /api/goods-receipts."
+      });
+    }
+
+    if (!RECEIPT_REFERENCE_TYPES.includes(referenceType)) {
+      return res.status(400).json({
+        success: false,
+        error: `referenceType must be one of ${RECEIPT_REFERENCE_TYPES.join(", ")}.`
+      });
+    }
+
+    const linesError = validateStockLines(lines);
+    if (linesError) {
+      return res.status(400).json({
+        success: false,
+        error: linesError
+      });
+    }
+
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: warehouseId }
+    });
+    if (!warehouse || !warehouse.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive warehouseId."
+      });
+    }
+
+    const items = await findActiveItems(
+      prisma,
+      lines!.map((line) => line.itemId)
+    );
+    if (!items) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more lines reference an invalid or inactive itemId."
+      });
+    }
+
+    const serialError = validateLineSerials(lines!, items);
+    if (serialError) {
+      return res.status(400).json({
+        success: false,
+        error: serialError
+      });
+    }
+
+    const lotError = validateLineLots(lines!, items, "IN");
+    if (lotError) {
+      return res.status(400).json({
+        success: false,
+        error: lotError
+      });
+    }
+
+    const costIndex = lines!.findIndex(
+      (line) =>
+        line.unitCost !== undefined &&
+        (typeof line.unitCost !== "number" || line.unitCost < 0)
+    );
+    if (costIndex >= 0) {
+      return res.status(400).json({
+        success: false,
+        error: `lines[${costIndex}].unitCost must be a non-negative number.`
+      });
+    }
+
+    try {
+      const movements = await prisma.$transaction(async (tx) => {
+        const created = [];
+        for (const line of lines!) {
+          const posting = {
+            itemId: line.itemId,
+            warehouseId,
+            quantity: line.quantity,
+            movementType: StockMovementType.IN,
+            referenceType,
+            referenceId,
+            remarks: remarks || null,
+            unitCost: line.unitCost,
+            createdById: req.user!.id
+          };
+          created.push(
+            items.get(line.itemId)!.isLotControlled
+              ? await addLotStock(
+                  tx,
+                  posting,
+                  toLotReceipt(line.lotNumber, line.expiryDate)
+                )
+              : await addStock(tx, posting)
+          );
+
+          if (items.get(line.itemId)!.isTrackable) {
+            await receiveSerials(tx, warehouseId, {
+              itemId: line.itemId,
+              serialNumbers: normaliseSerials(line.serialNumbers),
+              referenceType,
+              referenceId,
+              remarks: remarks || null,
+              createdById: req.user!.id
+            });
+          }
+        }
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        movements
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/warehouses/issues:
+ *   post:
+ *     tags:
+ *       - Warehouses
+ *     summary: Issue stock from a warehouse to a department.
+ *     description: >
+ *       Decrements StockLevel and logs an OUT StockMovement with referenceType
+ *       ISSUE for every line, all in one transaction. The whole issue is
+ *       rejected if any line would take a balance below zero.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - warehouseId
+ *               - department
+ *               - lines
+ *             properties:
+ *               warehouseId:
+ *                 type: string
+ *               department:
+ *                 type: string
+ *               requestedById:
+ *                 type: string
+ *                 description: Defaults to the authenticated user.
+ *               remarks:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - itemId
+ *                     - quantity
+ *                   properties:
+ *                     itemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     serialNumbers:
+ *                       type: array
+ *                       description: One per unit; required for trackable items.
+ *                       items:
+ *                         type: string
+ *                     lots:
+ *                       type: array
+ *                       description: >
+ *                         Lot-controlled items only. Lots to issue from;
+ *                         picked first-expired-first-out when omitted.
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           lotNumber:
+ *                             type: string
+ *                           quantity:
+ *                             type: number
+ *     responses:
+ *       201:
+ *         description: Stock issued.
+ *       400:
+ *         description: Validation error or insufficient stock.
+ */
+router.post(
+  "/issues",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { warehouseId, department, requestedById, remarks, lines } =
+      req.body as {
+        warehouseId?: string;
+        department?: string;
+        requestedById?: string;
+        remarks?: string;
+        lines?: StockLineInput[];
+      };
+
+    if (!warehouseId || !department) {
+      return res.status(400).json({
+        success: false,
+        error: "warehouseId and department are required."
+      });
+    }
+
+    const linesError = validateStockLines(lines);
+    if (linesError) {
+      return res.status(400).json({
+        success: false,
+        error: linesError
+      });
+    }
+
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: warehouseId }
+    });
+    if (!warehouse || !warehouse.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive warehouseId."
+      });
+    }
+
+    const items = await findActiveItems(
+      prisma,
+      lines!.map((line) => line.itemId)
+    );
+    if (!items) {
+      return res.status(400).json({
+        success: false,
+        error: "One or more lines reference an invalid or inactive itemId."
+      });
+    }
+
+    const serialError = validateLineSerials(lines!, items);
+    if (serialError) {
+      return res.status(400).json({
+        success: false,
+        error: serialError
+      });
+    }
+
+    const lotError = validateLineLots(lines!, items, "OUT");
+    if (lotError) {
+      return res.status(400).json({
+        success: false,
+        error: lotError
+      });
+    }
+
+    const requesterId = requestedById || req.user!.id;
+    const requester = await prisma.user.findUnique({
+      where: { id: requesterId }
+    });
+    if (!requester || !requester.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid or inactive requestedById."
+      });
+    }
+
+    try {
+      const issue = await prisma.$transaction(async (tx) => {
+        const created = await tx.stockIssue.create({
+          data: {
+            warehouseId,
+            department,
+            remarks: remarks || null,
+            requestedById: requesterId,
+            createdById: req.user!.id,
+            lines: {
+              create: lines!.map((line) => ({
+                itemId: line.itemId,
+                quantity: line.quantity
+              }))
+            }
+          },
+          include: { lines: true }
+        });
+
+        for (const line of lines!) {
+          const posting = {
+            itemId: line.itemId,
+            warehouseId,
+            quantity: line.quantity,
+            movementType: StockMovementType.OUT,
+            referenceType: "ISSUE",
+            referenceId: created.id,
+            remarks: `Issued to ${department}`,
+            createdById: req.user!.id
+          };
+          if (items.get(line.itemId)!.isLotControlled) {
+            await removeLotStock(tx, posting, line.lots);
+          } else {
+            await removeStock(tx, posting);
+          }
+
+          if (items.get(line.itemId)!.isTrackable) {
+            await moveSerials(
+              tx,
+              { status: SerialStatus.IN_STOCK, warehouseId },
+              {
+                status: SerialStatus.ISSUED,
+                warehouseId: null,
+                holderDepartment: department,
+                holderUserId: requesterId
+              },
+              {
+                itemId: line.itemId,
+                serialNumbers: normaliseSerials(line.serialNumbers),
+                referenceType: "ISSUE",
+                referenceId: created.id,
+                remarks: `Issued to ${department}`,
+                createdById: req.user!.id
+              }
+            );
+          }
+        }
+
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        issue
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * @openapi
  * /api/warehouses/stock:
@@ -258,6 +910,9 @@ router.post(
  *     tags:
  *       - Warehouses
  *     summary: List stock levels for all items per warehouse.
+ *     description: >
+ *       With asOf, quantities are rebuilt by replaying StockMovement rows up
+ *       to that timestamp instead of read from StockLevel.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -269,6 +924,11 @@ router.post(
  *         name: itemId
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
  *     responses:
  *       200:
  *         description: List of stock levels.
@@ -278,13 +938,40 @@ router.get(
   authMiddleware,
   requireAuth,
   requireNonFirstLogin,
-  requireRole(INVENTORY_ROLES),
+  requireRole([...INVENTORY_ROLES, "FINANCE"]),
   async (req: Request, res: Response) => {
-    const { warehouseId, itemId } = req.query as {
+    const { warehouseId, itemId, asOf } = req.query as {
       warehouseId?: string;
       itemId?: string;
+      asOf?: string;
     };
 
+    if (asOf !== undefined) {
+      const asOfDate = new Date(asOf);
+      if (isNaN(asOfDate.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: "asOf must be a valid date."
+        });
+      }
+
+      const report = await buildAsOfReport(asOfDate, { warehouseId, itemId });
+
+      return res.json({
+        success: true,
+        asOf: asOfDate,
+        stock: report
+          .filter((row) => !row.asOfQuantity.isZero())
+          .map(({ itemId, warehouseId, item, warehouse, asOfQuantity }) => ({
+            itemId,
+            warehouseId,
+            item,
+            warehouse,
+            quantity: asOfQuantity
+          }))
+      });
+    }
+
     const where: any = {};
 
     if (warehouseId) where.warehouseId = warehouseId;
@@ -294,7 +981,11 @@ router.get(
       where,
       include: {
         item: true,
-        warehouse: true
+        warehouse: true,
+        lots: {
+          where: { quantity: { gt: 0 } },
+          orderBy: { expiryDate: { sort: "asc", nulls: "last" } }
+        }
       },
       orderBy: [
         { warehouse: { name: "asc" } },
@@ -309,4 +1000,641 @@ router.get(
   }
 );
 
+/**
+ * @openapi
+ * /api/warehouses/stock/as-of:
+ *   get:
+ *     tags:
+ *       - Warehouses
+ *     summary: Point-in-time stock report with ledger reconciliation.
+ *     description: >
+ *       For each item/warehouse pair, asOfQuantity replays StockMovement rows
+ *       up to asOf, ledgerQuantity replays the whole ledger and storedQuantity
+ *       is the current StockLevel. Pairs where ledgerQuantity differs from
+ *       storedQuantity are flagged with mismatch.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: mismatchesOnly
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Point-in-time stock report.
+ */
+router.get(
+  "/stock/as-of",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole([...INVENTORY_ROLES, "FINANCE"]),
+  async (req: Request, res: Response) => {
+    const { asOf, warehouseId, itemId, mismatchesOnly } = req.query as {
+      asOf?: string;
+      warehouseId?: string;
+      itemId?: string;
+      mismatchesOnly?: string;
+    };
+
+    const asOfDate = asOf ? new Date(asOf) : null;
+    if (!asOfDate || isNaN(asOfDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: "asOf is required and must be a valid date."
+      });
+    }
+
+    const report = await buildAsOfReport(asOfDate, { warehouseId, itemId });
+
+    res.json({
+      success: true,
+      asOf: asOfDate,
+      mismatchCount: report.filter((row) => row.mismatch).length,
+      stock:
+        mismatchesOnly === "true"
+          ? report.filter((row) => row.mismatch)
+          : report
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/warehouses/stock/valuation:
+ *   get:
+ *     tags:
+ *       - Warehouses
+ *     summary: Current stock value by warehouse and category.
+ *     description: >
+ *       Weighted-average items are valued at their average cost per
+ *       warehouse; FIFO items at the cost of their remaining layers. Stock
+ *       received before costing was in place is valued at the average cost
+ *       it was given.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Stock valuation.
+ */
+router.get(
+  "/stock/valuation",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole([...INVENTORY_ROLES, "FINANCE"]),
+  async (req: Request, res: Response) => {
+    const { warehouseId, categoryId } = req.query as {
+      warehouseId?: string;
+      categoryId?: string;
+    };
+
+    const where: Prisma.StockLevelWhereInput = { quantity: { gt: 0 } };
+    if (warehouseId) where.warehouseId = warehouseId;
+    if (categoryId) where.item = { categoryId };
+
+    const levels = await prisma.stockLevel.findMany({
+      where,
+      include: {
+        item: { include: { category: true } },
+        warehouse: true,
+        costLayers: { where: { remaining: { gt: 0 } } }
+      },
+      orderBy: [{ warehouse: { name: "asc" } }, { item: { name: "asc" } }]
+    });
+
+    const zero = new Prisma.Decimal(0);
+    const warehouses = new Map<
+      string,
+      {
+        warehouse: (typeof levels)[number]["warehouse"];
+        value: Prisma.Decimal;
+        categories: Map<
+          string,
+          { category: (typeof levels)[number]["item"]["category"]; value: Prisma.Decimal }
+        >;
+      }
+    >();
+    const stock = [];
+    let total = zero;
+
+    for (const { costLayers, ...level } of levels) {
+      const value = valueStockLevel({ ...level, costLayers });
+      total = total.plus(value);
+
+      const byWarehouse = warehouses.get(level.warehouseId) ?? {
+        warehouse: level.warehouse,
+        value: zero,
+        categories: new Map()
+      };
+      byWarehouse.value = byWarehouse.value.plus(value);
+      const byCategory = byWarehouse.categories.get(level.item.categoryId) ?? {
+        category: level.item.category,
+        value: zero
+      };
+      byCategory.value = byCategory.value.plus(value);
+      byWarehouse.categories.set(level.item.categoryId, byCategory);
+      warehouses.set(level.warehouseId, byWarehouse);
+
+      stock.push({
+        item: level.item,
+        warehouse: level.warehouse,
+        quantity: level.quantity,
+        costingMethod: level.item.costingMethod,
+        unitCost: value.div(level.quantity),
+        value
+      });
+    }
+
+    res.json({
+      success: true,
+      totalValue: total,
+      warehouses: [...warehouses.values()].map((entry) => ({
+        ...entry,
+        categories: [...entry.categories.values()]
+      })),
+      stock
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/warehouses/stock/settings:
+ *   patch:
+ *     tags:
+ *       - Warehouses
+ *     summary: Set the replenishment settings of an item/warehouse pair.
+ *     description: >
+ *       Replenishment suggests buying when projected stock reaches
+ *       reorderLevel: up to maxStock when set, otherwise back to the reorder
+ *       level but at least reorderQuantity, from the preferred supplier.
+ *       Send null to clear maxStock or preferredSupplierId.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemId
+ *               - warehouseId
+ *             properties:
+ *               itemId:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *               reorderLevel:
+ *                 type: number
+ *               reorderQuantity:
+ *                 type: number
+ *               maxStock:
+ *                 type: number
+ *                 nullable: true
+ *               preferredSupplierId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Settings updated.
+ *       400:
+ *         description: Validation error.
+ *       404:
+ *         description: No stock record for the pair yet.
+ */
+router.patch(
+  "/stock/settings",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const {
+      itemId,
+      warehouseId,
+      reorderLevel,
+      reorderQuantity,
+      maxStock,
+      preferredSupplierId
+    } = req.body as {
+      itemId?: string;
+      warehouseId?: string;
+      reorderLevel?: number;
+      reorderQuantity?: number;
+      maxStock?: number | null;
+      preferredSupplierId?: string | null;
+    };
+
+    if (!itemId || !warehouseId) {
+      return res.status(400).json({
+        success: false,
+        error: "itemId and warehouseId are required."
+      });
+    }
+
+    const invalidQuantity = (
+      [
+        ["reorderLevel", reorderLevel],
+        ["reorderQuantity", reorderQuantity],
+        ["maxStock", maxStock]
+      ] as const
+    ).find(
+      ([, value]) =>
+        value !== undefined && value !== null && (typeof value !== "number" || value < 0)
+    );
+    if (invalidQuantity) {
+      return res.status(400).json({
+        success: false,
+        error: `${invalidQuantity[0]} must be a non-negative number.`
+      });
+    }
+
+    const stockLevel = await prisma.stockLevel.findUnique({
+      where: { itemId_warehouseId: { itemId, warehouseId } }
+    });
+    if (!stockLevel) {
+      return res.status(404).json({
+        success: false,
+        error: "No stock record for this item and warehouse; record opening stock first."
+      });
+    }
+
+    const newReorderLevel = reorderLevel ?? stockLevel.reorderLevel.toNumber();
+    const newMaxStock = maxStock === undefined ? stockLevel.maxStock?.toNumber() : maxStock;
+    if (newMaxStock !== null && newMaxStock !== undefined && newMaxStock <= newReorderLevel) {
+      return res.status(400).json({
+        success: false,
+        error: "maxStock must be above reorderLevel."
+      });
+    }
+
+    if (preferredSupplierId) {
+      const supplier = await prisma.supplier.findUnique({
+        where: { id: preferredSupplierId }
+      });
+      if (!supplier || supplier.status !== SupplierStatus.ACTIVE) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid or blocked preferredSupplierId."
+        });
+      }
+    }
+
+    const updated = await prisma.stockLevel.update({
+      where: { id: stockLevel.id },
+      data: {
+        ...(reorderLevel !== undefined ? { reorderLevel } : {}),
+        ...(reorderQuantity !== undefined ? { reorderQuantity } : {}),
+        ...(maxStock !== undefined ? { maxStock } : {}),
+        ...(preferredSupplierId !== undefined
+          ? { preferredSupplierId: preferredSupplierId || null }
+          : {})
+      },
+      include: { item: true, warehouse: true, preferredSupplier: true }
+    });
+
+    res.json({
+      success: true,
+      stockLevel: updated
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/warehouses/stock/low:
+ *   get:
+ *     tags:
+ *       - Warehouses
+ *     summary: List item/warehouse pairs at or below their reorder level.
+ *     description: >
+ *       Pairs with no reorder level set (0) are not included. shortfall is
+ *       reorderLevel minus quantity on hand.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Low stock list.
+ */
+router.get(
+  "/stock/low",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const { warehouseId, categoryId } = req.query as {
+      warehouseId?: string;
+      categoryId?: string;
+    };
+
+    const where: Prisma.StockLevelWhereInput = {};
+
+    if (warehouseId) where.warehouseId = warehouseId;
+    if (categoryId) where.item = { categoryId };
+
+    const stock = await findLowStock(prisma, where);
+
+    res.json({
+      success: true,
+      stock
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/warehouses/movements:
+ *   get:
+ *     tags:
+ *       - Warehouses
+ *     summary: List stock movements (the stock ledger).
+ *     description: >
+ *       Returns movements oldest first with cursor pagination. When both itemId
+ *       and warehouseId are given (and no type, reference or user filter), each
+ *       row also carries runningBalance, the StockLevel quantity right after
+ *       that movement.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: movementType
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - OPENING
+ *             - IN
+ *             - OUT
+ *             - ADJUSTMENT
+ *       - in: query
+ *         name: referenceType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: referenceId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: createdById
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: cursor
+ *         description: nextCursor from the previous page.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: A page of stock movements.
+ */
+router.get(
+  "/movements",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole([...INVENTORY_ROLES, "FINANCE"]),
+  async (req: Request, res: Response) => {
+    const {
+      itemId,
+      warehouseId,
+      movementType,
+      referenceType,
+      referenceId,
+      createdById,
+      from,
+      to,
+      cursor,
+      limit
+    } = req.query as Record<string, string | undefined>;
+
+    const take = Math.min(Math.max(parseInt(limit ?? "50", 10) || 50, 1), 200);
+
+    const where: Prisma.StockMovementWhereInput = {};
+
+    if (itemId) where.itemId = itemId;
+    if (warehouseId) where.warehouseId = warehouseId;
+    if (referenceType) where.referenceType = referenceType;
+    if (referenceId) where.referenceId = referenceId;
+    if (createdById) where.createdById = createdById;
+
+    if (movementType) {
+      if (!Object.values(StockMovementType).includes(movementType as any)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid movementType."
+        });
+      }
+      where.movementType = movementType as StockMovementType;
+    }
+
+    if (from || to) {
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if (
+        (fromDate && isNaN(fromDate.getTime())) ||
+        (toDate && isNaN(toDate.getTime()))
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "from and to must be valid dates."
+        });
+      }
+      where.createdAt = { gte: fromDate, lte: toDate };
+    }
+
+    const rows = await prisma.stockMovement.findMany({
+      where,
+      include: {
+        item: true,
+        warehouse: true,
+        createdBy: { select: { id: true, fullName: true, email: true } }
+      },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: take + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+
+    const hasMore = rows.length > take;
+    const page = hasMore ? rows.slice(0, take) : rows;
+
+    // Running balance only makes sense when the page is an unbroken slice
+    // of one item/warehouse ledger.
+    const withBalance =
+      itemId &&
+      warehouseId &&
+      !movementType &&
+      !referenceType &&
+      !referenceId &&
+      !createdById;
+
+    let movements: (typeof page[number] & {
+      runningBalance?: Prisma.Decimal;
+    })[] = page;
+
+    if (withBalance && page.length > 0) {
+      const first = page[0];
+      let balance = await ledgerBalance(prisma, {
+        itemId,
+        warehouseId,
+        OR: [
+          { createdAt: { lt: first.createdAt } },
+          { createdAt: first.createdAt, id: { lt: first.id } }
+        ]
+      });
+
+      movements = page.map((movement) => {
+        balance = balance.plus(
+          signedQuantity(movement.movementType, movement.quantity)
+        );
+        return { ...movement, runningBalance: balance };
+      });
+    }
+
+    res.json({
+      success: true,
+      movements,
+      nextCursor: hasMore ? page[page.length - 1].id : null
+    });
+  }
+);
+
+/**
+ * @openapi
+ * /api/warehouses/lots/expiring:
+ *   get:
+ *     tags:
+ *       - Warehouses
+ *     summary: List lots with stock that expire within N days.
+ *     description: Already expired lots with stock are included and flagged.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lots ordered by expiry date.
+ */
+router.get(
+  "/lots/expiring",
+  authMiddleware,
+  requireAuth,
+  requireNonFirstLogin,
+  requireRole(INVENTORY_ROLES),
+  async (req: Request, res: Response) => {
+    const { days, warehouseId, itemId } = req.query as {
+      days?: string;
+      warehouseId?: string;
+      itemId?: string;
+    };
+
+    const withinDays = days === undefined ? 30 : parseInt(days, 10);
+    if (isNaN(withinDays) || withinDays < 0) {
+      return res.status(400).json({
+        success: false,
+        error: "days must be zero or a positive integer."
+      });
+    }
+
+    const now = new Date();
+    const cutoff = new Date(now.getTime() + withinDays * 24 * 60 * 60 * 1000);
+
+    const where: Prisma.StockLotWhereInput = {
+      quantity: { gt: 0 },
+      expiryDate: { not: null, lte: cutoff }
+    };
+    if (warehouseId) where.warehouseId = warehouseId;
+    if (itemId) where.itemId = itemId;
+
+    const lots = await prisma.stockLot.findMany({
+      where,
+      include: {
+        stockLevel: { include: { item: true, warehouse: true } }
+      },
+      orderBy: { expiryDate: "asc" }
+    });
+
+    res.json({
+      success: true,
+      days: withinDays,
+      lots: lots.map((lot) => ({
+        ...lot,
+        expired: lot.expiryDate! <= now,
+        daysToExpiry: Math.ceil(
+          (lot.expiryDate!.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)
+        )
+      }))
+    });
+  }
+);
+
 export default router;
\ No newline at end of file
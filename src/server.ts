@@ -1,5 +1,7 @@
 import app from "./app";
 import { ENV } from "./config/env";
+import { startReorderAlertJob } from "./jobs/reorderAlerts";
+import { startReplenishmentJob } from "./jobs/replenishment";
 
 async function startServer() {
   try {
@@ -8,6 +10,9 @@ async function startServer() {
         `[server] Inventory & Procurement API running on http://localhost:${ENV.PORT}`
       );
     });
+
+    startReorderAlertJob();
+    startReplenishmentJob();
   } catch (error) {
     console.error("[server] Failed to start server", error);
     process.exit(1);
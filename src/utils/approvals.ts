@@ -0,0 +1,290 @@
+// src/utils/approvals.ts
+import {
+  ApprovalDocumentType,
+  ApprovalRequestStatus,
+  ApprovalStepStatus,
+  Prisma,
+  UserRole
+} from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+
+export interface ApprovalContext {
+  documentType: ApprovalDocumentType;
+  documentId: string;
+  department: string | null;
+  categoryIds: string[];
+  amount: Prisma.Decimal.Value;
+  requestedById: string;
+}
+
+export interface ApproverInput {
+  approverRole?: UserRole | null;
+  approverUserId?: string | null;
+}
+
+export interface ApprovalPlan {
+  ruleId: string | null;
+  steps: ApproverInput[];
+}
+
+export interface Approver {
+  id: string;
+  role: string;
+  department: string | null;
+}
+
+export const APPROVAL_REQUEST_INCLUDE = {
+  rule: { select: { id: true, name: true } },
+  requestedBy: { select: { id: true, fullName: true, email: true } },
+  steps: {
+    include: {
+      approverUser: { select: { id: true, fullName: true, email: true } },
+      decidedBy: { select: { id: true, fullName: true, email: true } }
+    },
+    orderBy: { sequence: "asc" as const }
+  }
+};
+
+//Find the active rule for a document. Among matching rules the highest
+//priority wins, then the most specific (department and category set).
+export async function findApprovalRule(
+  db: Prisma.TransactionClient,
+  context: Omit<ApprovalContext, "documentId" | "requestedById">
+) {
+  const amount = new Prisma.Decimal(context.amount);
+
+  const rules = await db.approvalRule.findMany({
+    where: {
+      documentType: context.documentType,
+      isActive: true,
+      AND: [
+        { OR: [{ department: null }, { department: context.department ?? "" }] },
+        { OR: [{ categoryId: null }, { categoryId: { in: context.categoryIds } }] },
+        { OR: [{ minAmount: null }, { minAmount: { lte: amount } }] },
+        { OR: [{ maxAmount: null }, { maxAmount: { gt: amount } }] }
+      ]
+    },
+    include: { steps: { orderBy: { sequence: "asc" } } },
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }]
+  });
+
+  const specificity = (rule: { department: string | null; categoryId: string | null }) =>
+    (rule.department ? 1 : 0) + (rule.categoryId ? 1 : 0);
+
+  return (
+    rules.sort(
+      (a, b) => b.priority - a.priority || specificity(b) - specificity(a)
+    )[0] ?? null
+  );
+}
+
+//Work out who has to approve a document: the matching rule's steps whose
+//threshold the amount exceeds, or `fallback` when no rule matches.
+export async function planApproval(
+  db: Prisma.TransactionClient,
+  context: Omit<ApprovalContext, "documentId" | "requestedById">,
+  fallback: ApproverInput[]
+): Promise<ApprovalPlan> {
+  const rule = await findApprovalRule(db, context);
+  if (!rule) {
+    return { ruleId: null, steps: fallback };
+  }
+
+  const amount = new Prisma.Decimal(context.amount);
+  return {
+    ruleId: rule.id,
+    steps: rule.steps
+      .filter((step) => !step.minAmount || amount.gt(step.minAmount))
+      .map(({ approverRole, approverUserId }) => ({ approverRole, approverUserId }))
+  };
+}
+
+//Open an approval request for a planned document. The caller decides what
+//an empty plan means (usually: approved straight away).
+export function openApproval(
+  tx: Prisma.TransactionClient,
+  context: ApprovalContext,
+  plan: ApprovalPlan
+) {
+  return tx.approvalRequest.create({
+    data: {
+      documentType: context.documentType,
+      documentId: context.documentId,
+      ruleId: plan.ruleId,
+      department: context.department,
+      amount: context.amount,
+      requestedById: context.requestedById,
+      steps: {
+        create: plan.steps.map((step, index) => ({
+          sequence: index + 1,
+          approverRole: step.approverRole ?? null,
+          approverUserId: step.approverUserId ?? null
+        }))
+      }
+    },
+    include: APPROVAL_REQUEST_INCLUDE
+  });
+}
+
+function findPendingRequest(
+  db: Prisma.TransactionClient,
+  documentType: ApprovalDocumentType,
+  documentId: string
+) {
+  return db.approvalRequest.findFirst({
+    where: { documentType, documentId, status: ApprovalRequestStatus.PENDING },
+    include: { steps: { orderBy: { sequence: "asc" } } }
+  });
+}
+
+//ADMIN may act on any step. Otherwise the step's named user, or a user
+//with its role; a DEPARTMENT_MANAGER step needs the document's department.
+export function canActOnStep(
+  user: Approver,
+  step: ApproverInput,
+  department: string | null
+): boolean {
+  if (user.role === UserRole.ADMIN) {
+    return true;
+  }
+  if (step.approverUserId) {
+    return step.approverUserId === user.id;
+  }
+  if (step.approverRole !== user.role) {
+    return false;
+  }
+  return step.approverRole !== UserRole.DEPARTMENT_MANAGER || user.department === department;
+}
+
+function describeStep(step: ApproverInput): string {
+  return step.approverUserId ? "a named approver" : `${step.approverRole}`;
+}
+
+//Record a decision on the current step of a document's pending approval.
+//Rejecting ends the request; approving moves to the next step or, on the
+//last one, approves the request. Resolves the request's new status.
+export async function decideApproval(
+  tx: Prisma.TransactionClient,
+  documentType: ApprovalDocumentType,
+  documentId: string,
+  user: Approver,
+  approve: boolean,
+  remarks?: string | null
+): Promise<{ status: ApprovalRequestStatus; sequence: number; totalSteps: number }> {
+  const request = await findPendingRequest(tx, documentType, documentId);
+  if (!request) {
+    throw createApiError(409, "There is no pending approval for this document.");
+  }
+
+  if (request.requestedById === user.id) {
+    throw createApiError(403, "You cannot approve or reject a document you raised.");
+  }
+
+  const step = request.steps.find((s) => s.sequence === request.currentStep)!;
+  if (!canActOnStep(user, step, request.department)) {
+    throw createApiError(
+      403,
+      `Step ${step.sequence} of ${request.steps.length} is waiting for ${describeStep(step)}.`
+    );
+  }
+
+  const decided = await tx.approvalStep.updateMany({
+    where: { id: step.id, status: ApprovalStepStatus.PENDING },
+    data: {
+      status: approve ? ApprovalStepStatus.APPROVED : ApprovalStepStatus.REJECTED,
+      decidedById: user.id,
+      decidedAt: new Date(),
+      remarks: remarks ?? null
+    }
+  });
+  if (decided.count === 0) {
+    throw createApiError(409, "This approval step was decided concurrently; reload.");
+  }
+
+  const isLast = step.sequence === request.steps.length;
+  let status: ApprovalRequestStatus = ApprovalRequestStatus.PENDING;
+
+  if (!approve) {
+    status = ApprovalRequestStatus.REJECTED;
+    await tx.approvalStep.updateMany({
+      where: { requestId: request.id, status: ApprovalStepStatus.PENDING },
+      data: { status: ApprovalStepStatus.SKIPPED }
+    });
+  } else if (isLast) {
+    status = ApprovalRequestStatus.APPROVED;
+  }
+
+  await tx.approvalRequest.update({
+    where: { id: request.id },
+    data:
+      status === ApprovalRequestStatus.PENDING
+        ? { currentStep: step.sequence + 1 }
+        : { status, completedAt: new Date() }
+  });
+
+  return { status, sequence: step.sequence, totalSteps: request.steps.length };
+}
+
+//Append an approver to a document's pending approval unless one with that
+//role is already waiting (e.g. escalation after a budget overrun).
+export async function escalateApproval(
+  tx: Prisma.TransactionClient,
+  documentType: ApprovalDocumentType,
+  documentId: string,
+  approverRole: UserRole
+) {
+  const request = await findPendingRequest(tx, documentType, documentId);
+  if (!request) {
+    return;
+  }
+
+  const alreadyWaiting = request.steps.some(
+    (step) =>
+      step.status === ApprovalStepStatus.PENDING && step.approverRole === approverRole
+  );
+  if (alreadyWaiting) {
+    return;
+  }
+
+  await tx.approvalStep.create({
+    data: {
+      requestId: request.id,
+      sequence: request.steps.length + 1,
+      approverRole
+    }
+  });
+}
+
+//Withdraw a document's pending approval, e.g. when it is cancelled
+export async function cancelApproval(
+  tx: Prisma.TransactionClient,
+  documentType: ApprovalDocumentType,
+  documentId: string
+) {
+  const request = await findPendingRequest(tx, documentType, documentId);
+  if (!request) {
+    return;
+  }
+
+  await tx.approvalStep.updateMany({
+    where: { requestId: request.id, status: ApprovalStepStatus.PENDING },
+    data: { status: ApprovalStepStatus.SKIPPED }
+  });
+  await tx.approvalRequest.update({
+    where: { id: request.id },
+    data: { status: ApprovalRequestStatus.CANCELLED, completedAt: new Date() }
+  });
+}
+
+//Every approval run of a document, oldest first
+export function approvalTrail(
+  db: Prisma.TransactionClient,
+  documentType: ApprovalDocumentType,
+  documentId: string
+) {
+  return db.approvalRequest.findMany({
+    where: { documentType, documentId },
+    include: APPROVAL_REQUEST_INCLUDE,
+    orderBy: { createdAt: "asc" }
+  });
+}
@@ -0,0 +1,177 @@
+// src/utils/budgets.ts
+import {
+  Budget,
+  Prisma,
+  PurchaseOrderStatus,
+  SupplierInvoiceStatus
+} from "@prisma/client";
+
+//Purchase orders that count against a budget once approved
+export const COMMITTED_PO_STATUSES = [
+  PurchaseOrderStatus.APPROVED,
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+  PurchaseOrderStatus.RECEIVED,
+  PurchaseOrderStatus.CLOSED
+];
+
+export interface BudgetSpend {
+  committed: Prisma.Decimal;
+  actual: Prisma.Decimal;
+  remaining: Prisma.Decimal;
+}
+
+export interface BudgetLine {
+  categoryId: string | null;
+  amount: Prisma.Decimal;
+}
+
+export interface BudgetOverrun extends BudgetSpend {
+  budgetId: string;
+  department: string;
+  categoryId: string | null;
+  amount: Prisma.Decimal;
+  requested: Prisma.Decimal;
+}
+
+//PO lines charged to a budget: lines raised from the department's
+//requisitions, or lines of POs assigned to the department directly,
+//narrowed to the budget's category when it has one.
+function budgetLines(budget: Budget): Prisma.PurchaseOrderLineWhereInput {
+  return {
+    AND: [
+      {
+        OR: [
+          { requisitionLine: { requisition: { department: budget.department } } },
+          {
+            requisitionLineId: null,
+            purchaseOrder: { department: budget.department }
+          }
+        ]
+      },
+      budget.categoryId ? { item: { categoryId: budget.categoryId } } : {}
+    ]
+  };
+}
+
+//Line amount in the base currency, at the rate of its document
+function lineValue(
+  line: { quantity: Prisma.Decimal; unitPrice: Prisma.Decimal },
+  exchangeRate: Prisma.Decimal
+) {
+  return line.quantity.times(line.unitPrice).times(exchangeRate);
+}
+
+function sum(values: Prisma.Decimal[]) {
+  return values.reduce((total, value) => total.plus(value), new Prisma.Decimal(0));
+}
+
+//Actual spend is matched (approved-for-payment) invoices dated in the
+//budget period. Commitments are POs approved in the period, less what has
+//been invoiced against them; closing a PO releases what was never invoiced.
+export async function budgetSpend(
+  db: Prisma.TransactionClient,
+  budget: Budget
+): Promise<BudgetSpend> {
+  const lineWhere = budgetLines(budget);
+
+  const invoiceLines = await db.supplierInvoiceLine.findMany({
+    where: {
+      purchaseOrderLine: lineWhere,
+      invoice: {
+        status: SupplierInvoiceStatus.APPROVED_FOR_PAYMENT,
+        invoiceDate: { gte: budget.periodStart, lte: budget.periodEnd }
+      }
+    },
+    select: {
+      quantity: true,
+      unitPrice: true,
+      invoice: { select: { exchangeRate: true } }
+    }
+  });
+  const actual = sum(
+    invoiceLines.map((line) => lineValue(line, line.invoice.exchangeRate))
+  );
+
+  const orderLines = await db.purchaseOrderLine.findMany({
+    where: {
+      AND: [
+        lineWhere,
+        {
+          purchaseOrder: {
+            status: { in: COMMITTED_PO_STATUSES },
+            approvedAt: { gte: budget.periodStart, lte: budget.periodEnd }
+          }
+        }
+      ]
+    },
+    select: {
+      quantity: true,
+      unitPrice: true,
+      purchaseOrder: { select: { status: true, exchangeRate: true } },
+      invoiceLines: {
+        where: { invoice: { status: SupplierInvoiceStatus.APPROVED_FOR_PAYMENT } },
+        select: { quantity: true, unitPrice: true }
+      }
+    }
+  });
+  const committed = sum(
+    orderLines.map((line) => {
+      if (line.purchaseOrder.status === PurchaseOrderStatus.CLOSED) {
+        return new Prisma.Decimal(0);
+      }
+      //Commitments stay at the order rate; FX differences show in actuals
+      const rate = line.purchaseOrder.exchangeRate;
+      const invoiced = sum(line.invoiceLines.map((invoiced) => lineValue(invoiced, rate)));
+      const open = lineValue(line, rate).minus(invoiced);
+      return Prisma.Decimal.max(open, 0);
+    })
+  );
+
+  return {
+    committed,
+    actual,
+    remaining: budget.amount.minus(committed).minus(actual)
+  };
+}
+
+//Budgets of a department in force on `at` that the given lines would
+//overrun. A category budget only sees lines of its category; a budget
+//without a category sees them all.
+export async function findBudgetOverruns(
+  db: Prisma.TransactionClient,
+  department: string,
+  lines: BudgetLine[],
+  at: Date = new Date()
+): Promise<BudgetOverrun[]> {
+  const budgets = await db.budget.findMany({
+    where: { department, periodStart: { lte: at }, periodEnd: { gte: at } }
+  });
+
+  const overruns: BudgetOverrun[] = [];
+
+  for (const budget of budgets) {
+    const requested = sum(
+      lines
+        .filter((line) => !budget.categoryId || line.categoryId === budget.categoryId)
+        .map((line) => line.amount)
+    );
+    if (requested.isZero()) {
+      continue;
+    }
+
+    const spend = await budgetSpend(db, budget);
+    if (requested.gt(spend.remaining)) {
+      overruns.push({
+        budgetId: budget.id,
+        department: budget.department,
+        categoryId: budget.categoryId,
+        amount: budget.amount,
+        requested,
+        ...spend
+      });
+    }
+  }
+
+  return overruns;
+}
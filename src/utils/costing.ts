@@ -0,0 +1,217 @@
+// src/utils/costing.ts
+import { CostingMethod, Prisma } from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+
+export interface MovementCost {
+  unitCost: Prisma.Decimal;
+  totalCost: Prisma.Decimal;
+}
+
+export interface InboundCost extends MovementCost {
+  method: CostingMethod;
+  averageCost: Prisma.Decimal; // the pair's average once the quantity is in
+}
+
+async function costingMethodOf(db: Prisma.TransactionClient, itemId: string) {
+  const item = await db.item.findUnique({
+    where: { id: itemId },
+    select: { costingMethod: true }
+  });
+  if (!item) {
+    throw createApiError(400, `Item ${itemId} not found.`);
+  }
+  return item.costingMethod;
+}
+
+//Value an inbound quantity before it is added to the pair. Without a unit
+//cost (found stock, count surpluses) it comes in at the current average.
+export async function costInbound(
+  db: Prisma.TransactionClient,
+  itemId: string,
+  warehouseId: string,
+  quantity: Prisma.Decimal,
+  unitCost?: Prisma.Decimal.Value | null
+): Promise<InboundCost> {
+  const method = await costingMethodOf(db, itemId);
+  const level = await db.stockLevel.findUnique({
+    where: { itemId_warehouseId: { itemId, warehouseId } }
+  });
+
+  const onHand = level?.quantity ?? new Prisma.Decimal(0);
+  const currentAverage = level?.averageCost ?? new Prisma.Decimal(0);
+  const cost =
+    unitCost === undefined || unitCost === null
+      ? currentAverage
+      : new Prisma.Decimal(unitCost);
+
+  const newQuantity = onHand.plus(quantity);
+  const averageCost = newQuantity.gt(0)
+    ? onHand.times(currentAverage).plus(quantity.times(cost)).div(newQuantity)
+    : currentAverage;
+
+  return {
+    method,
+    unitCost: cost,
+    totalCost: cost.times(quantity),
+    averageCost
+  };
+}
+
+//Open the FIFO layer for an inbound movement; weighted-average items keep
+//no layers.
+export async function openCostLayer(
+  tx: Prisma.TransactionClient,
+  movement: { id: string; itemId: string; warehouseId: string; quantity: Prisma.Decimal },
+  cost: InboundCost
+) {
+  if (cost.method !== CostingMethod.FIFO || movement.quantity.lte(0)) {
+    return;
+  }
+
+  const level = await tx.stockLevel.findUniqueOrThrow({
+    where: {
+      itemId_warehouseId: { itemId: movement.itemId, warehouseId: movement.warehouseId }
+    }
+  });
+
+  await tx.costLayer.create({
+    data: {
+      stockLevelId: level.id,
+      itemId: movement.itemId,
+      warehouseId: movement.warehouseId,
+      movementId: movement.id,
+      unitCost: cost.unitCost,
+      quantity: movement.quantity,
+      remaining: movement.quantity
+    }
+  });
+}
+
+//Cost of goods issued for an outbound quantity, taken after the balance
+//has been decremented. Weighted-average items go out at the average; FIFO items consume
+//layers oldest first, and any quantity not covered by layers (stock from
+//before FIFO was switched on) goes out at the average.
+export async function costOutbound(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  warehouseId: string,
+  quantity: Prisma.Decimal
+): Promise<MovementCost> {
+  const method = await costingMethodOf(tx, itemId);
+  const level = await tx.stockLevel.findUniqueOrThrow({
+    where: { itemId_warehouseId: { itemId, warehouseId } }
+  });
+
+  let totalCost = new Prisma.Decimal(0);
+  let remaining = quantity;
+
+  if (method === CostingMethod.FIFO) {
+    const layers = await tx.costLayer.findMany({
+      where: { itemId, warehouseId, remaining: { gt: 0 } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+    });
+
+    for (const layer of layers) {
+      if (remaining.lte(0)) break;
+      const take = Prisma.Decimal.min(remaining, layer.remaining);
+
+      // Conditional decrement so concurrent issues cannot use a layer twice
+      const result = await tx.costLayer.updateMany({
+        where: { id: layer.id, remaining: { gte: take } },
+        data: { remaining: { decrement: take } }
+      });
+      if (result.count === 0) {
+        throw createApiError(409, "Stock was issued concurrently; retry.");
+      }
+
+      totalCost = totalCost.plus(take.times(layer.unitCost));
+      remaining = remaining.minus(take);
+    }
+  }
+
+  totalCost = totalCost.plus(remaining.times(level.averageCost));
+
+  //Keep a FIFO pair's average in line with the layers that are left
+  if (method === CostingMethod.FIFO && level.quantity.gt(0)) {
+    const costLayers = await tx.costLayer.findMany({
+      where: { stockLevelId: level.id, remaining: { gt: 0 } }
+    });
+    await tx.stockLevel.update({
+      where: { id: level.id },
+      data: { averageCost: valueStockLevel({ ...level, costLayers }).div(level.quantity) }
+    });
+  }
+
+  return {
+    unitCost: quantity.gt(0) ? totalCost.div(quantity) : level.averageCost,
+    totalCost
+  };
+}
+
+//Value of one item/warehouse pair: FIFO layers at their own cost, the rest
+//(weighted-average items, or FIFO stock without layers) at the average.
+export function valueStockLevel(level: {
+  quantity: Prisma.Decimal;
+  averageCost: Prisma.Decimal;
+  costLayers: { unitCost: Prisma.Decimal; remaining: Prisma.Decimal }[];
+}): Prisma.Decimal {
+  let value = new Prisma.Decimal(0);
+  let covered = new Prisma.Decimal(0);
+
+  for (const layer of level.costLayers) {
+    value = value.plus(layer.remaining.times(layer.unitCost));
+    covered = covered.plus(layer.remaining);
+  }
+
+  const uncovered = Prisma.Decimal.max(level.quantity.minus(covered), 0);
+  return value.plus(uncovered.times(level.averageCost));
+}
+
+//Switch an item's costing method, carrying its stock value over. Going to
+//FIFO opens one layer per warehouse at the average cost; going back to the
+//weighted average folds the remaining layers into the average.
+export async function changeCostingMethod(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  method: CostingMethod
+) {
+  const levels = await tx.stockLevel.findMany({
+    where: { itemId },
+    include: { costLayers: { where: { remaining: { gt: 0 } } } }
+  });
+
+  for (const level of levels) {
+    if (method === CostingMethod.FIFO) {
+      if (level.quantity.gt(0) && level.costLayers.length === 0) {
+        await tx.costLayer.create({
+          data: {
+            stockLevelId: level.id,
+            itemId,
+            warehouseId: level.warehouseId,
+            unitCost: level.averageCost,
+            quantity: level.quantity,
+            remaining: level.quantity
+          }
+        });
+      }
+      continue;
+    }
+
+    const averageCost = level.quantity.gt(0)
+      ? valueStockLevel(level).div(level.quantity)
+      : level.averageCost;
+    await tx.stockLevel.update({
+      where: { id: level.id },
+      data: { averageCost }
+    });
+    await tx.costLayer.updateMany({
+      where: { stockLevelId: level.id, remaining: { gt: 0 } },
+      data: { remaining: 0 }
+    });
+  }
+
+  return tx.item.update({
+    where: { id: itemId },
+    data: { costingMethod: method }
+  });
+}
@@ -0,0 +1,100 @@
+// src/utils/currency.ts
+import { Prisma } from "@prisma/client";
+import { ENV } from "../config/env";
+import { createApiError } from "../middleware/errorHandler";
+
+export interface RateRow {
+  currency: string;
+  rate: number;
+  effectiveDate: Date;
+}
+
+//ISO 4217 style code, stored upper case
+export function normaliseCurrency(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function isValidCurrency(code: unknown): code is string {
+  return typeof code === "string" && /^[A-Z]{3}$/.test(normaliseCurrency(code));
+}
+
+//Units of base currency per one unit of `currency` on `date`: the latest
+//rate effective on or before it. The base currency is always 1.
+export async function exchangeRateOn(
+  db: Prisma.TransactionClient,
+  currency: string,
+  date: Date
+): Promise<Prisma.Decimal> {
+  if (currency === ENV.BASE_CURRENCY) {
+    return new Prisma.Decimal(1);
+  }
+
+  const rate = await db.exchangeRate.findFirst({
+    where: { currency, effectiveDate: { lte: date } },
+    orderBy: { effectiveDate: "desc" }
+  });
+  if (!rate) {
+    throw createApiError(
+      400,
+      `No ${currency} exchange rate effective on ${date.toISOString().slice(0, 10)}.`
+    );
+  }
+
+  return rate.rate;
+}
+
+//Parse an exchange-rate CSV with a header row naming the columns
+//currency, rate and effectiveDate (any order). Blank lines are skipped.
+//Returns the rows, or the first error with its line number.
+export function parseRateCsv(text: string): { rows: RateRow[] } | { error: string } {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const headerIndex = lines.findIndex((line) => line !== "");
+  if (headerIndex === -1) {
+    return { error: "The file is empty." };
+  }
+
+  const split = (line: string) =>
+    line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1").trim());
+
+  const header = split(lines[headerIndex]).map((cell) => cell.toLowerCase());
+  const columns = {
+    currency: header.indexOf("currency"),
+    rate: header.indexOf("rate"),
+    effectiveDate: header.indexOf("effectivedate")
+  };
+  if (Object.values(columns).some((index) => index === -1)) {
+    return { error: "The header must name the columns currency, rate and effectiveDate." };
+  }
+
+  const rows: RateRow[] = [];
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    if (!lines[index]) continue;
+
+    const cells = split(lines[index]);
+    const lineNumber = index + 1;
+    const currency = cells[columns.currency] ?? "";
+    const rate = Number(cells[columns.rate]);
+    const effectiveDate = new Date(cells[columns.effectiveDate] ?? "");
+
+    if (!isValidCurrency(currency)) {
+      return { error: `Line ${lineNumber}: currency must be a 3-letter code.` };
+    }
+    if (normaliseCurrency(currency) === ENV.BASE_CURRENCY) {
+      return { error: `Line ${lineNumber}: ${ENV.BASE_CURRENCY} is the base currency.` };
+    }
+    if (!cells[columns.rate] || !(rate > 0)) {
+      return { error: `Line ${lineNumber}: rate must be a positive number.` };
+    }
+    if (isNaN(effectiveDate.getTime())) {
+      return { error: `Line ${lineNumber}: effectiveDate must be a valid date.` };
+    }
+
+    rows.push({ currency: normaliseCurrency(currency), rate, effectiveDate });
+  }
+
+  if (rows.length === 0) {
+    return { error: "The file has no rate rows." };
+  }
+
+  return { rows };
+}
@@ -0,0 +1,109 @@
+// src/utils/invoiceMatching.ts
+import { Prisma, SupplierInvoiceStatus } from "@prisma/client";
+import { ENV } from "../config/env";
+import { createApiError } from "../middleware/errorHandler";
+
+//Three-way match every line of an invoice against its purchase order line
+//(ordered quantity and price) and the goods received so far. Quantities
+//are compared cumulatively through the PO line's invoicedQuantity, which
+//already includes this invoice. Stores the per-line result and moves the invoice to
+//APPROVED_FOR_PAYMENT when every line matches, EXCEPTION otherwise.
+export async function matchInvoice(
+  tx: Prisma.TransactionClient,
+  invoiceId: string
+): Promise<boolean> {
+  const lines = await tx.supplierInvoiceLine.findMany({
+    where: { invoiceId },
+    include: { purchaseOrderLine: true }
+  });
+
+  const priceTolerance = ENV.INVOICE_PRICE_TOLERANCE_PERCENT / 100;
+  const quantityFactor = 1 + ENV.INVOICE_QUANTITY_TOLERANCE_PERCENT / 100;
+  let allMatched = true;
+
+  for (const line of lines) {
+    const poLine = line.purchaseOrderLine;
+
+    const totalInvoiced = poLine.invoicedQuantity;
+
+    const priceVariance = line.unitPrice.minus(poLine.unitPrice);
+    const quantityVariance = totalInvoiced.minus(poLine.receivedQuantity);
+    const issues: string[] = [];
+
+    if (priceVariance.abs().gt(poLine.unitPrice.times(priceTolerance))) {
+      issues.push(
+        `Unit price ${line.unitPrice} differs from PO price ${poLine.unitPrice} by ${priceVariance}.`
+      );
+    }
+    if (totalInvoiced.gt(poLine.quantity.times(quantityFactor))) {
+      issues.push(
+        `Invoiced quantity ${totalInvoiced} exceeds ordered quantity ${poLine.quantity}.`
+      );
+    }
+    if (totalInvoiced.gt(poLine.receivedQuantity.times(quantityFactor))) {
+      issues.push(
+        `Invoiced quantity ${totalInvoiced} exceeds received quantity ${poLine.receivedQuantity}.`
+      );
+    }
+
+    await tx.supplierInvoiceLine.update({
+      where: { id: line.id },
+      data: {
+        matched: issues.length === 0,
+        priceVariance,
+        quantityVariance,
+        matchIssues: issues.length > 0 ? issues : Prisma.DbNull
+      }
+    });
+
+    if (issues.length > 0) {
+      allMatched = false;
+    }
+  }
+
+  await tx.supplierInvoice.update({
+    where: { id: invoiceId },
+    data: {
+      status: allMatched
+        ? SupplierInvoiceStatus.APPROVED_FOR_PAYMENT
+        : SupplierInvoiceStatus.EXCEPTION,
+      matchedAt: new Date()
+    }
+  });
+
+  return allMatched;
+}
+
+//Add a new invoice's quantities to its PO lines before it is matched.
+//Conditional increment, as for receivedQuantity on goods receipts, so two
+//invoices captured at once cannot both pass the quantity tolerance.
+export async function addInvoicedQuantities(
+  tx: Prisma.TransactionClient,
+  lines: { purchaseOrderLineId: string; quantity: number }[],
+  poLines: Map<string, { id: string; invoicedQuantity: Prisma.Decimal }>
+) {
+  for (const line of lines) {
+    const poLine = poLines.get(line.purchaseOrderLineId)!;
+    const updated = await tx.purchaseOrderLine.updateMany({
+      where: { id: poLine.id, invoicedQuantity: poLine.invoicedQuantity },
+      data: { invoicedQuantity: { increment: line.quantity } }
+    });
+    if (updated.count === 0) {
+      throw createApiError(409, "The purchase order was invoiced concurrently; retry.");
+    }
+  }
+}
+
+//Take a rejected invoice's quantities back off its PO lines
+export async function releaseInvoicedQuantities(
+  tx: Prisma.TransactionClient,
+  invoiceId: string
+) {
+  const lines = await tx.supplierInvoiceLine.findMany({ where: { invoiceId } });
+  for (const line of lines) {
+    await tx.purchaseOrderLine.update({
+      where: { id: line.purchaseOrderLineId },
+      data: { invoicedQuantity: { decrement: line.quantity } }
+    });
+  }
+}
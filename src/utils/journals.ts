@@ -0,0 +1,476 @@
+// src/utils/journals.ts
+import {
+  AccountMapping,
+  JournalAccount,
+  JournalSource,
+  Prisma,
+  StockMovement,
+  StockMovementType,
+  SupplierInvoiceStatus
+} from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+import { costPerUnit, roundMoney } from "./tax";
+
+//One side of a journal in the base currency: positive amounts are debits,
+//negative ones credits
+interface Posting {
+  account: JournalAccount;
+  amount: Prisma.Decimal;
+  categoryId?: string | null;
+  warehouseId?: string | null;
+  movementType?: StockMovementType | null;
+}
+
+export interface JournalDimensions {
+  categoryId: string | null;
+  warehouseId: string | null;
+  movementType: StockMovementType | null;
+}
+
+//Create the journal for a source document. Postings to the same account
+//and dimensions are merged and amounts rounded to cents; a journal that
+//does not balance is a bug, never something to export. Nothing is written
+//when every amount is zero.
+async function createJournal(
+  tx: Prisma.TransactionClient,
+  source: { sourceType: JournalSource; sourceId: string; entryDate: Date; description: string },
+  postings: Posting[]
+) {
+  const merged = new Map<string, Posting>();
+  for (const posting of postings) {
+    const key = [
+      posting.account,
+      posting.categoryId ?? "",
+      posting.warehouseId ?? "",
+      posting.movementType ?? ""
+    ].join("|");
+    const existing = merged.get(key);
+    if (existing) {
+      existing.amount = existing.amount.plus(posting.amount);
+    } else {
+      merged.set(key, { ...posting });
+    }
+  }
+
+  const lines = [...merged.values()]
+    .map((posting) => ({ ...posting, amount: roundMoney(posting.amount) }))
+    .filter((posting) => !posting.amount.isZero());
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const imbalance = lines.reduce((sum, line) => sum.plus(line.amount), new Prisma.Decimal(0));
+  if (!imbalance.isZero()) {
+    throw createApiError(
+      500,
+      `Journal for ${source.sourceType} ${source.sourceId} is out of balance by ${imbalance.toFixed(2)}.`
+    );
+  }
+
+  return tx.journal.create({
+    data: {
+      ...source,
+      lines: {
+        create: lines.map((line) => ({
+          account: line.account,
+          categoryId: line.categoryId ?? null,
+          warehouseId: line.warehouseId ?? null,
+          movementType: line.movementType ?? null,
+          debit: line.amount.isPositive() ? line.amount : 0,
+          credit: line.amount.isNegative() ? line.amount.negated() : 0
+        }))
+      }
+    }
+  });
+}
+
+//The account on the other side of inventory for a stock movement
+function stockOffsetAccount(movement: StockMovement): JournalAccount {
+  if (movement.referenceType === "TRANSFER") {
+    return JournalAccount.STOCK_IN_TRANSIT;
+  }
+
+  switch (movement.movementType) {
+    case StockMovementType.OPENING:
+      return JournalAccount.OPENING_BALANCE;
+    case StockMovementType.IN:
+      return movement.referenceType === "PURCHASE_ORDER"
+        ? JournalAccount.GOODS_RECEIVED_NOT_INVOICED
+        : JournalAccount.STOCK_ADJUSTMENT;
+    case StockMovementType.OUT:
+      return movement.referenceType === "ISSUE"
+        ? JournalAccount.STOCK_ISSUES
+        : JournalAccount.STOCK_ADJUSTMENT;
+    default:
+      return JournalAccount.STOCK_ADJUSTMENT;
+  }
+}
+
+//Inventory against the offset account at the movement's cost. OUT
+//movements store a positive cost, so their sign is flipped here.
+export async function postStockJournal(
+  tx: Prisma.TransactionClient,
+  movement: StockMovement
+) {
+  if (!movement.totalCost) {
+    return null;
+  }
+
+  const item = await tx.item.findUniqueOrThrow({
+    where: { id: movement.itemId },
+    select: { name: true, categoryId: true }
+  });
+  const value =
+    movement.movementType === StockMovementType.OUT
+      ? movement.totalCost.negated()
+      : movement.totalCost;
+  const dimensions = {
+    categoryId: item.categoryId,
+    warehouseId: movement.warehouseId,
+    movementType: movement.movementType
+  };
+
+  return createJournal(
+    tx,
+    {
+      sourceType: JournalSource.STOCK_MOVEMENT,
+      sourceId: movement.id,
+      entryDate: movement.createdAt,
+      description: `${movement.movementType} ${movement.referenceType ?? ""} ${item.name}`
+        .replace(/\s+/g, " ")
+        .trim()
+    },
+    [
+      { account: JournalAccount.INVENTORY, amount: value, ...dimensions },
+      { account: stockOffsetAccount(movement), amount: value.negated(), ...dimensions }
+    ]
+  );
+}
+
+//Clear what a transfer line left in stock in transit when less (or more)
+//arrived than was dispatched: the difference is a stock loss (or gain) at
+//the dispatch cost, booked at the destination warehouse.
+export async function postTransferDiscrepancyJournal(
+  tx: Prisma.TransactionClient,
+  lineId: string
+) {
+  const line = await tx.stockTransferLine.findUniqueOrThrow({
+    where: { id: lineId },
+    include: {
+      item: { select: { name: true, categoryId: true } },
+      transfer: { select: { toWarehouseId: true, receivedAt: true } }
+    }
+  });
+  if (!line.discrepancyCost) {
+    return null;
+  }
+
+  const dimensions = {
+    categoryId: line.item.categoryId,
+    warehouseId: line.transfer.toWarehouseId
+  };
+
+  return createJournal(
+    tx,
+    {
+      sourceType: JournalSource.TRANSFER_DISCREPANCY,
+      sourceId: line.id,
+      entryDate: line.transfer.receivedAt ?? new Date(),
+      description: `Transfer discrepancy ${line.item.name}`
+    },
+    [
+      { account: JournalAccount.STOCK_IN_TRANSIT, amount: line.discrepancyCost, ...dimensions },
+      {
+        account: JournalAccount.STOCK_ADJUSTMENT,
+        amount: line.discrepancyCost.negated(),
+        ...dimensions
+      }
+    ]
+  );
+}
+
+//Clear goods received not invoiced at the value the goods were received
+//at, put the difference to the invoice value on price variance, claim
+//recoverable tax and owe the supplier the invoice total. Only invoices
+//approved for payment are posted, once.
+export async function postInvoiceJournal(tx: Prisma.TransactionClient, invoiceId: string) {
+  const invoice = await tx.supplierInvoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: {
+      supplier: { select: { name: true } },
+      purchaseOrder: { select: { warehouseId: true, exchangeRate: true } },
+      lines: {
+        include: {
+          item: { select: { categoryId: true } },
+          taxCode: true,
+          purchaseOrderLine: { include: { taxCode: true } }
+        }
+      }
+    }
+  });
+
+  if (invoice.status !== SupplierInvoiceStatus.APPROVED_FOR_PAYMENT) {
+    return null;
+  }
+  const existing = await tx.journal.findUnique({
+    where: {
+      sourceType_sourceId: {
+        sourceType: JournalSource.SUPPLIER_INVOICE,
+        sourceId: invoice.id
+      }
+    }
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const postings: Posting[] = [];
+  for (const line of invoice.lines) {
+    const dimensions = {
+      categoryId: line.item.categoryId,
+      warehouseId: invoice.purchaseOrder.warehouseId
+    };
+    const recoverable = line.taxCode?.isRecoverable ?? true;
+
+    const received = roundMoney(
+      costPerUnit(line.purchaseOrderLine)
+        .times(line.quantity)
+        .times(invoice.purchaseOrder.exchangeRate)
+    );
+    const invoiced = roundMoney(
+      (recoverable ? line.netAmount : line.netAmount.plus(line.taxAmount)).times(
+        invoice.exchangeRate
+      )
+    );
+
+    postings.push(
+      { account: JournalAccount.GOODS_RECEIVED_NOT_INVOICED, amount: received, ...dimensions },
+      {
+        account: JournalAccount.PURCHASE_PRICE_VARIANCE,
+        amount: invoiced.minus(received),
+        ...dimensions
+      }
+    );
+    if (recoverable) {
+      postings.push({
+        account: JournalAccount.INPUT_TAX,
+        amount: roundMoney(line.taxAmount.times(invoice.exchangeRate))
+      });
+    }
+  }
+
+  const debits = postings.reduce((sum, posting) => sum.plus(posting.amount), new Prisma.Decimal(0));
+  postings.push({ account: JournalAccount.ACCOUNTS_PAYABLE, amount: debits.negated() });
+
+  return createJournal(
+    tx,
+    {
+      sourceType: JournalSource.SUPPLIER_INVOICE,
+      sourceId: invoice.id,
+      entryDate: invoice.invoiceDate,
+      description: `Invoice ${invoice.invoiceNumber} from ${invoice.supplier.name}`
+    },
+    postings
+  );
+}
+
+//Pay the supplier from the bank. What is owed is released at the rate
+//each invoice was booked at, any unallocated part at the payment rate;
+//the difference to the bank amount is a realised exchange difference.
+export async function postPaymentJournal(tx: Prisma.TransactionClient, paymentId: string) {
+  const payment = await tx.supplierPayment.findUniqueOrThrow({
+    where: { id: paymentId },
+    include: {
+      supplier: { select: { name: true } },
+      allocations: { include: { invoice: { select: { exchangeRate: true } } } }
+    }
+  });
+
+  const zero = new Prisma.Decimal(0);
+  const allocated = payment.allocations.reduce(
+    (sum, allocation) => sum.plus(allocation.amount),
+    zero
+  );
+  const payable = payment.allocations
+    .reduce(
+      (sum, allocation) =>
+        sum.plus(roundMoney(allocation.amount.times(allocation.invoice.exchangeRate))),
+      zero
+    )
+    .plus(roundMoney(payment.amount.minus(allocated).times(payment.exchangeRate)));
+  const bank = roundMoney(payment.baseAmount);
+
+  return createJournal(
+    tx,
+    {
+      sourceType: JournalSource.SUPPLIER_PAYMENT,
+      sourceId: payment.id,
+      entryDate: payment.paymentDate,
+      description: `Payment ${payment.paymentNumber} to ${payment.supplier.name}`
+    },
+    [
+      { account: JournalAccount.ACCOUNTS_PAYABLE, amount: payable },
+      { account: JournalAccount.BANK, amount: bank.negated() },
+      { account: JournalAccount.FX_DIFFERENCE, amount: bank.minus(payable) }
+    ]
+  );
+}
+
+//A supplier credit note reduces what is owed against purchase price
+//variance. Overpayment credits were already posted with their payment.
+export async function postCreditNoteJournal(tx: Prisma.TransactionClient, creditId: string) {
+  const credit = await tx.supplierCredit.findUniqueOrThrow({
+    where: { id: creditId },
+    include: { supplier: { select: { name: true } } }
+  });
+  const amount = roundMoney(credit.baseAmount);
+
+  return createJournal(
+    tx,
+    {
+      sourceType: JournalSource.SUPPLIER_CREDIT,
+      sourceId: credit.id,
+      entryDate: credit.creditDate,
+      description: `Credit note ${credit.creditNoteNumber ?? credit.id} from ${credit.supplier.name}`
+    },
+    [
+      { account: JournalAccount.ACCOUNTS_PAYABLE, amount },
+      { account: JournalAccount.PURCHASE_PRICE_VARIANCE, amount: amount.negated() }
+    ]
+  );
+}
+
+//The account code for a journal line: among the mappings for its account
+//whose set dimensions all match the line, the most specific one. Returns
+//null when nothing matches.
+export function resolveAccountCode(
+  mappings: AccountMapping[],
+  account: JournalAccount,
+  dimensions: JournalDimensions
+): string | null {
+  let best: AccountMapping | null = null;
+  let bestScore = -1;
+
+  for (const mapping of mappings) {
+    if (mapping.account !== account) continue;
+    if (mapping.categoryId && mapping.categoryId !== dimensions.categoryId) continue;
+    if (mapping.warehouseId && mapping.warehouseId !== dimensions.warehouseId) continue;
+    if (mapping.movementType && mapping.movementType !== dimensions.movementType) continue;
+
+    const score =
+      (mapping.categoryId ? 4 : 0) +
+      (mapping.warehouseId ? 2 : 0) +
+      (mapping.movementType ? 1 : 0);
+    if (score > bestScore) {
+      best = mapping;
+      bestScore = score;
+    }
+  }
+
+  return best?.accountCode ?? null;
+}
+
+//Mark the unexported journals dated in a period as exported, resolving
+//every line's account code first. Nothing is marked if any line has no
+//mapping, so an export is always complete.
+export async function exportJournals(
+  tx: Prisma.TransactionClient,
+  from: Date,
+  to: Date,
+  batchId: string
+) {
+  const journals = await tx.journal.findMany({
+    where: { exportedAt: null, entryDate: { gte: from, lte: to } },
+    include: { lines: true },
+    orderBy: [{ entryDate: "asc" }, { createdAt: "asc" }]
+  });
+  const mappings = await tx.accountMapping.findMany();
+
+  const missing = new Set<string>();
+  const codes = new Map<string, string[]>(); // account code -> line ids
+  for (const line of journals.flatMap((journal) => journal.lines)) {
+    const code = resolveAccountCode(mappings, line.account, line);
+    if (!code) {
+      missing.add(
+        [
+          line.account,
+          line.categoryId && `category ${line.categoryId}`,
+          line.warehouseId && `warehouse ${line.warehouseId}`,
+          line.movementType && `movement ${line.movementType}`
+        ]
+          .filter(Boolean)
+          .join(", ")
+      );
+      continue;
+    }
+    line.accountCode = code;
+    codes.set(code, [...(codes.get(code) ?? []), line.id]);
+  }
+
+  if (missing.size > 0) {
+    throw createApiError(
+      400,
+      `No account mapping for: ${[...missing].join("; ")}.`
+    );
+  }
+
+  const exportedAt = new Date();
+  // Only journals still unexported are marked, so two exports never share one
+  const marked = await tx.journal.updateMany({
+    where: { id: { in: journals.map((journal) => journal.id) }, exportedAt: null },
+    data: { exportedAt, exportBatchId: batchId }
+  });
+  if (marked.count !== journals.length) {
+    throw createApiError(409, "Journals were exported concurrently; retry.");
+  }
+
+  for (const [accountCode, lineIds] of codes) {
+    await tx.journalLine.updateMany({
+      where: { id: { in: lineIds } },
+      data: { accountCode }
+    });
+  }
+
+  return journals.map((journal) => ({ ...journal, exportedAt, exportBatchId: batchId }));
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+//One row per journal line, journals kept together in date order
+export function journalsToCsv(
+  journals: Awaited<ReturnType<typeof exportJournals>>
+): string {
+  const rows = [
+    [
+      "journalId",
+      "entryDate",
+      "sourceType",
+      "sourceId",
+      "description",
+      "accountCode",
+      "account",
+      "debit",
+      "credit"
+    ]
+  ];
+
+  for (const journal of journals) {
+    for (const line of journal.lines) {
+      rows.push([
+        journal.id,
+        journal.entryDate.toISOString().slice(0, 10),
+        journal.sourceType,
+        journal.sourceId,
+        journal.description,
+        line.accountCode ?? "",
+        line.account,
+        line.debit.toFixed(2),
+        line.credit.toFixed(2)
+      ]);
+    }
+  }
+
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
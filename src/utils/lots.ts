@@ -0,0 +1,310 @@
+// src/utils/lots.ts
+import { Prisma, StockLot, StockMovementType } from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+import { StockPosting, addStock, adjustStock, removeStock } from "./stock";
+
+export interface LotPick {
+  lotNumber: string;
+  quantity: number;
+}
+
+export interface LotReceipt {
+  lotNumber: string;
+  expiryDate: Date | null;
+}
+
+export interface LotAllocation {
+  lot: StockLot;
+  quantity: Prisma.Decimal;
+  cost?: Prisma.Decimal; // cost of goods issued, set once posted
+}
+
+//Check lot fields on an inbound quantity. Lot-controlled items need a lot
+//number (expiry optional); other items must not carry lot data.
+//Returns an error message or null.
+export function validateLotReceipt(
+  item: { name: string; isLotControlled: boolean },
+  lotNumber: unknown,
+  expiryDate: unknown,
+  label: string
+): string | null {
+  if (!item.isLotControlled) {
+    if (lotNumber !== undefined || expiryDate !== undefined) {
+      return `${label} has lot data for "${item.name}", which is not lot-controlled.`;
+    }
+    return null;
+  }
+
+  if (typeof lotNumber !== "string" || !lotNumber.trim()) {
+    return `${label}.lotNumber is required for lot-controlled item "${item.name}".`;
+  }
+
+  if (
+    expiryDate !== undefined &&
+    (typeof expiryDate !== "string" || isNaN(new Date(expiryDate).getTime()))
+  ) {
+    return `${label}.expiryDate must be a valid date.`;
+  }
+
+  return null;
+}
+
+//Check a manual lot selection for an outbound quantity. Omitting it means
+//FEFO picking. Returns an error message or null.
+export function validateLotPicks(
+  item: { name: string; isLotControlled: boolean },
+  quantity: number,
+  lots: unknown,
+  label: string
+): string | null {
+  if (lots === undefined) {
+    return null;
+  }
+
+  if (!item.isLotControlled) {
+    return `${label}.lots given for "${item.name}", which is not lot-controlled.`;
+  }
+
+  if (!Array.isArray(lots) || lots.length === 0) {
+    return `${label}.lots must be a non-empty array when given.`;
+  }
+
+  let total = new Prisma.Decimal(0);
+  for (const [index, pick] of lots.entries()) {
+    if (!pick || typeof pick.lotNumber !== "string" || !pick.lotNumber) {
+      return `${label}.lots[${index}].lotNumber is required.`;
+    }
+    if (typeof pick.quantity !== "number" || !(pick.quantity > 0)) {
+      return `${label}.lots[${index}].quantity must be a positive number.`;
+    }
+    total = total.plus(pick.quantity);
+  }
+
+  if (!total.equals(quantity)) {
+    return `${label}.lots quantities must add up to ${quantity}.`;
+  }
+
+  return null;
+}
+
+//Parse the lot fields of an already validated line
+export function toLotReceipt(
+  lotNumber: string | undefined,
+  expiryDate: string | Date | null | undefined
+): LotReceipt {
+  return {
+    lotNumber: lotNumber!.trim(),
+    expiryDate: expiryDate ? new Date(expiryDate) : null
+  };
+}
+
+//Add quantity to a lot, creating it (and the StockLevel it sits under)
+//on first receipt. A lot keeps the expiry date it was first received with.
+async function receiveLot(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  warehouseId: string,
+  receipt: LotReceipt,
+  quantity: Prisma.Decimal
+) {
+  const stockLevel = await tx.stockLevel.upsert({
+    where: { itemId_warehouseId: { itemId, warehouseId } },
+    update: {},
+    create: { itemId, warehouseId, quantity: 0 }
+  });
+
+  const existing = await tx.stockLot.findUnique({
+    where: {
+      itemId_warehouseId_lotNumber: {
+        itemId,
+        warehouseId,
+        lotNumber: receipt.lotNumber
+      }
+    }
+  });
+
+  if (
+    existing?.expiryDate &&
+    receipt.expiryDate &&
+    existing.expiryDate.getTime() !== receipt.expiryDate.getTime()
+  ) {
+    throw createApiError(
+      400,
+      `Lot ${receipt.lotNumber} already exists with expiry ${existing.expiryDate.toISOString().slice(0, 10)}.`
+    );
+  }
+
+  if (existing) {
+    return tx.stockLot.update({
+      where: { id: existing.id },
+      data: {
+        quantity: { increment: quantity },
+        expiryDate: existing.expiryDate ?? receipt.expiryDate
+      }
+    });
+  }
+
+  return tx.stockLot.create({
+    data: {
+      stockLevelId: stockLevel.id,
+      itemId,
+      warehouseId,
+      lotNumber: receipt.lotNumber,
+      expiryDate: receipt.expiryDate,
+      quantity
+    }
+  });
+}
+
+//Take quantity out of lots, either the ones named in `picks` or
+//first-expired-first-out. Lots without an expiry date are used last.
+async function consumeLots(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  warehouseId: string,
+  quantity: Prisma.Decimal,
+  picks?: LotPick[]
+): Promise<LotAllocation[]> {
+  const allocations: LotAllocation[] = [];
+
+  if (picks) {
+    for (const pick of picks) {
+      const lot = await tx.stockLot.findUnique({
+        where: {
+          itemId_warehouseId_lotNumber: {
+            itemId,
+            warehouseId,
+            lotNumber: pick.lotNumber
+          }
+        }
+      });
+      if (!lot) {
+        throw createApiError(400, `Lot ${pick.lotNumber} not found in this warehouse.`);
+      }
+      allocations.push({ lot, quantity: new Prisma.Decimal(pick.quantity) });
+    }
+  } else {
+    const lots = await tx.stockLot.findMany({
+      where: { itemId, warehouseId, quantity: { gt: 0 } },
+      orderBy: [
+        { expiryDate: { sort: "asc", nulls: "last" } },
+        { createdAt: "asc" }
+      ]
+    });
+
+    let remaining = quantity;
+    for (const lot of lots) {
+      if (remaining.lte(0)) break;
+      const take = Prisma.Decimal.min(remaining, lot.quantity);
+      allocations.push({ lot, quantity: take });
+      remaining = remaining.minus(take);
+    }
+  }
+
+  for (const allocation of allocations) {
+    // Conditional decrement so concurrent picks cannot overdraw a lot
+    const result = await tx.stockLot.updateMany({
+      where: { id: allocation.lot.id, quantity: { gte: allocation.quantity } },
+      data: { quantity: { decrement: allocation.quantity } }
+    });
+    if (result.count === 0) {
+      throw createApiError(
+        400,
+        `Insufficient stock in lot ${allocation.lot.lotNumber}.`
+      );
+    }
+  }
+
+  const allocated = allocations.reduce(
+    (sum, allocation) => sum.plus(allocation.quantity),
+    new Prisma.Decimal(0)
+  );
+  if (!allocated.equals(quantity)) {
+    throw createApiError(
+      400,
+      `Insufficient lot stock for item ${itemId} in warehouse ${warehouseId}.`
+    );
+  }
+
+  return allocations;
+}
+
+//Receive a lot-controlled quantity: lot balance, StockLevel and movement.
+//ADJUSTMENT postings go through adjustStock so the movement stays signed.
+export async function addLotStock(
+  tx: Prisma.TransactionClient,
+  posting: StockPosting,
+  receipt: LotReceipt
+) {
+  const quantity = new Prisma.Decimal(posting.quantity);
+  const lot = await receiveLot(
+    tx,
+    posting.itemId,
+    posting.warehouseId,
+    receipt,
+    quantity
+  );
+
+  const lotPosting = { ...posting, quantity, lotId: lot.id };
+  return posting.movementType === StockMovementType.ADJUSTMENT
+    ? adjustStock(tx, lotPosting)
+    : addStock(tx, lotPosting);
+}
+
+//Remove a lot-controlled quantity, logging one movement per lot used.
+//posting.quantity is the positive quantity to take out. Each allocation
+//comes back with the cost it was issued at.
+export async function removeLotStock(
+  tx: Prisma.TransactionClient,
+  posting: StockPosting,
+  picks?: LotPick[]
+) {
+  const allocations = await consumeLots(
+    tx,
+    posting.itemId,
+    posting.warehouseId,
+    new Prisma.Decimal(posting.quantity),
+    picks
+  );
+
+  for (const allocation of allocations) {
+    const lotPosting = { ...posting, lotId: allocation.lot.id };
+    const movement =
+      posting.movementType === StockMovementType.ADJUSTMENT
+        ? await adjustStock(tx, {
+            ...lotPosting,
+            quantity: allocation.quantity.negated()
+          })
+        : await removeStock(tx, { ...lotPosting, quantity: allocation.quantity });
+    allocation.cost = movement.totalCost!.abs();
+  }
+
+  return allocations;
+}
+
+//Validate lot data on every line of a multi-line stock request:
+//receipt lines carry lotNumber/expiryDate, issue lines optional lot picks.
+export function validateLineLots(
+  lines: {
+    itemId: string;
+    quantity: number;
+    lotNumber?: string;
+    expiryDate?: string;
+    lots?: LotPick[];
+  }[],
+  items: Map<string, { name: string; isLotControlled: boolean }>,
+  direction: "IN" | "OUT"
+): string | null {
+  for (const [index, line] of lines.entries()) {
+    const item = items.get(line.itemId)!;
+    const label = `lines[${index}]`;
+    const error =
+      direction === "IN"
+        ? validateLotReceipt(item, line.lotNumber, line.expiryDate, label)
+        : validateLotPicks(item, line.quantity, line.lots, label);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,336 @@
+// src/utils/payables.ts
+import { Prisma, SupplierCreditSource, SupplierInvoiceStatus } from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+import { roundMoney } from "./tax";
+
+export interface AllocationInput {
+  invoiceId: string;
+  amount: number;
+}
+
+export const AGING_BUCKETS = ["current", "0-30", "31-60", "61-90", "90+"] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+//Shape checks on invoice allocations. Returns an error message or null.
+export function validateAllocations(allocations: unknown): string | null {
+  if (!Array.isArray(allocations)) {
+    return "allocations must be an array.";
+  }
+
+  const seen = new Set<string>();
+  for (const [index, allocation] of allocations.entries()) {
+    if (!allocation || typeof allocation.invoiceId !== "string" || !allocation.invoiceId) {
+      return `allocations[${index}].invoiceId is required.`;
+    }
+    if (seen.has(allocation.invoiceId)) {
+      return `allocations[${index}] repeats invoice ${allocation.invoiceId}.`;
+    }
+    seen.add(allocation.invoiceId);
+
+    if (typeof allocation.amount !== "number" || !(allocation.amount > 0)) {
+      return `allocations[${index}].amount must be a positive number.`;
+    }
+  }
+
+  return null;
+}
+
+//Apply a payment or credit to approved invoices of one supplier in the
+//same currency. No invoice can be settled beyond its total. Returns the
+//amount applied.
+export async function allocateToInvoices(
+  tx: Prisma.TransactionClient,
+  source: {
+    supplierId: string;
+    currency: string;
+    paymentId?: string;
+    creditId?: string;
+    userId: string;
+  },
+  allocations: AllocationInput[]
+): Promise<Prisma.Decimal> {
+  let applied = new Prisma.Decimal(0);
+
+  for (const allocation of allocations) {
+    const amount = roundMoney(allocation.amount);
+    const invoice = await tx.supplierInvoice.findUnique({
+      where: { id: allocation.invoiceId }
+    });
+
+    if (!invoice || invoice.supplierId !== source.supplierId) {
+      throw createApiError(400, `Invoice ${allocation.invoiceId} is not from this supplier.`);
+    }
+    if (invoice.status !== SupplierInvoiceStatus.APPROVED_FOR_PAYMENT) {
+      throw createApiError(
+        409,
+        `Invoice ${invoice.invoiceNumber} is not approved for payment.`
+      );
+    }
+    if (invoice.currency !== source.currency) {
+      throw createApiError(
+        400,
+        `Invoice ${invoice.invoiceNumber} is in ${invoice.currency}, not ${source.currency}.`
+      );
+    }
+
+    const outstanding = invoice.totalAmount.minus(invoice.paidAmount);
+    if (amount.gt(outstanding)) {
+      throw createApiError(
+        400,
+        `Only ${outstanding.toFixed(2)} ${invoice.currency} is outstanding on invoice ${invoice.invoiceNumber}.`
+      );
+    }
+
+    // Conditional increment so two payments cannot both settle the same balance
+    const updated = await tx.supplierInvoice.updateMany({
+      where: { id: invoice.id, paidAmount: invoice.paidAmount },
+      data: { paidAmount: { increment: amount } }
+    });
+    if (updated.count === 0) {
+      throw createApiError(409, "The invoice was paid concurrently; retry.");
+    }
+
+    await tx.supplierInvoiceAllocation.create({
+      data: {
+        invoiceId: invoice.id,
+        paymentId: source.paymentId ?? null,
+        creditId: source.creditId ?? null,
+        amount,
+        createdById: source.userId
+      }
+    });
+
+    applied = applied.plus(amount);
+  }
+
+  return applied;
+}
+
+export interface LedgerEntry {
+  date: Date;
+  type: "INVOICE" | "PAYMENT" | "CREDIT_NOTE";
+  id: string;
+  reference: string;
+  debit: Prisma.Decimal; // reduces what we owe
+  credit: Prisma.Decimal; // increases what we owe
+  balance: Prisma.Decimal;
+}
+
+//Running account of one supplier in one currency: approved invoices are
+//owed, payments and credit notes reduce the balance. A negative balance is
+//credit held with the supplier. Overpayment credits are already counted
+//in their payment. Entries before `from` are folded into the opening
+//balance.
+export async function supplierLedger(
+  db: Prisma.TransactionClient,
+  supplierId: string,
+  currency: string,
+  from?: Date,
+  to?: Date
+) {
+  const range = to ? { lte: to } : undefined;
+  const [invoices, payments, creditNotes] = await Promise.all([
+    db.supplierInvoice.findMany({
+      where: {
+        supplierId,
+        currency,
+        status: SupplierInvoiceStatus.APPROVED_FOR_PAYMENT,
+        invoiceDate: range
+      }
+    }),
+    db.supplierPayment.findMany({
+      where: { supplierId, currency, paymentDate: range }
+    }),
+    db.supplierCredit.findMany({
+      where: {
+        supplierId,
+        currency,
+        source: SupplierCreditSource.CREDIT_NOTE,
+        creditDate: range
+      }
+    })
+  ]);
+
+  const zero = new Prisma.Decimal(0);
+  const movements = [
+    ...invoices.map((invoice) => ({
+      date: invoice.invoiceDate,
+      createdAt: invoice.createdAt,
+      type: "INVOICE" as const,
+      id: invoice.id,
+      reference: invoice.invoiceNumber,
+      debit: zero,
+      credit: invoice.totalAmount
+    })),
+    ...payments.map((payment) => ({
+      date: payment.paymentDate,
+      createdAt: payment.createdAt,
+      type: "PAYMENT" as const,
+      id: payment.id,
+      reference: payment.paymentNumber,
+      debit: payment.amount,
+      credit: zero
+    })),
+    ...creditNotes.map((credit) => ({
+      date: credit.creditDate,
+      createdAt: credit.createdAt,
+      type: "CREDIT_NOTE" as const,
+      id: credit.id,
+      reference: credit.creditNoteNumber ?? credit.id,
+      debit: credit.amount,
+      credit: zero
+    }))
+  ].sort(
+    (a, b) =>
+      a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+
+  let openingBalance = zero;
+  let balance = zero;
+  const entries: LedgerEntry[] = [];
+
+  for (const movement of movements) {
+    balance = balance.plus(movement.credit).minus(movement.debit);
+    if (from && movement.date < from) {
+      openingBalance = balance;
+      continue;
+    }
+    entries.push({
+      date: movement.date,
+      type: movement.type,
+      id: movement.id,
+      reference: movement.reference,
+      debit: movement.debit,
+      credit: movement.credit,
+      balance
+    });
+  }
+
+  return { currency, openingBalance, entries, closingBalance: balance };
+}
+
+function agingBucket(dueDate: Date, asOf: Date): AgingBucket {
+  const daysOverdue = Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS);
+  if (daysOverdue < 0) return "current";
+  if (daysOverdue <= 30) return "0-30";
+  if (daysOverdue <= 60) return "31-60";
+  if (daysOverdue <= 90) return "61-90";
+  return "90+";
+}
+
+function emptyBuckets(): Record<AgingBucket, Prisma.Decimal> {
+  return Object.fromEntries(
+    AGING_BUCKETS.map((bucket) => [bucket, new Prisma.Decimal(0)])
+  ) as Record<AgingBucket, Prisma.Decimal>;
+}
+
+//What is owed to each supplier on `asOf`, bucketed by days past the due
+//date (invoice date plus the supplier's payment terms), in the base
+//currency at each invoice's rate. Only allocations made by `asOf` count
+//as paid. Unapplied supplier credits are shown alongside.
+export async function agingReport(
+  db: Prisma.TransactionClient,
+  asOf: Date,
+  supplierId?: string
+) {
+  const invoices = await db.supplierInvoice.findMany({
+    where: {
+      status: SupplierInvoiceStatus.APPROVED_FOR_PAYMENT,
+      invoiceDate: { lte: asOf },
+      ...(supplierId ? { supplierId } : {})
+    },
+    include: {
+      supplier: { select: { id: true, name: true, paymentTermsDays: true } },
+      allocations: { where: { createdAt: { lte: asOf } } }
+    },
+    orderBy: { dueDate: "asc" }
+  });
+
+  //Credits used up since asOf were last touched after it
+  const credits = await db.supplierCredit.findMany({
+    where: {
+      OR: [{ remaining: { gt: 0 } }, { updatedAt: { gt: asOf } }],
+      creditDate: { lte: asOf },
+      ...(supplierId ? { supplierId } : {})
+    },
+    include: {
+      supplier: { select: { id: true, name: true, paymentTermsDays: true } },
+      allocations: { where: { createdAt: { lte: asOf } } }
+    }
+  });
+
+  const zero = new Prisma.Decimal(0);
+  const suppliers = new Map<
+    string,
+    {
+      supplier: { id: string; name: string; paymentTermsDays: number };
+      buckets: Record<AgingBucket, Prisma.Decimal>;
+      invoices: unknown[];
+      unappliedCredits: Prisma.Decimal;
+    }
+  >();
+  const totals = emptyBuckets();
+
+  for (const invoice of invoices) {
+    const paid = invoice.allocations.reduce((sum, allocation) => sum.plus(allocation.amount), zero);
+    const outstanding = invoice.totalAmount.minus(paid);
+    if (outstanding.lte(0)) continue;
+
+    const bucket = agingBucket(invoice.dueDate, asOf);
+    const baseOutstanding = outstanding.times(invoice.exchangeRate);
+
+    const row = suppliers.get(invoice.supplierId) ?? {
+      supplier: invoice.supplier,
+      buckets: emptyBuckets(),
+      invoices: [],
+      unappliedCredits: zero
+    };
+    row.buckets[bucket] = row.buckets[bucket].plus(baseOutstanding);
+    row.invoices.push({
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceDate: invoice.invoiceDate,
+      dueDate: invoice.dueDate,
+      currency: invoice.currency,
+      totalAmount: invoice.totalAmount,
+      outstanding,
+      baseOutstanding,
+      bucket
+    });
+    suppliers.set(invoice.supplierId, row);
+    totals[bucket] = totals[bucket].plus(baseOutstanding);
+  }
+
+  for (const credit of credits) {
+    const used = credit.allocations.reduce((sum, allocation) => sum.plus(allocation.amount), zero);
+    const remaining = credit.amount.minus(used);
+    if (remaining.lte(0)) continue;
+
+    const row = suppliers.get(credit.supplierId) ?? {
+      supplier: credit.supplier,
+      buckets: emptyBuckets(),
+      invoices: [],
+      unappliedCredits: zero
+    };
+    row.unappliedCredits = row.unappliedCredits.plus(remaining.times(credit.exchangeRate));
+    suppliers.set(credit.supplierId, row);
+  }
+
+  const rows = [...suppliers.values()].map((row) => {
+    const total = AGING_BUCKETS.reduce((sum, bucket) => sum.plus(row.buckets[bucket]), zero);
+    return { ...row, total, net: total.minus(row.unappliedCredits) };
+  });
+
+  return {
+    asOf,
+    buckets: AGING_BUCKETS,
+    suppliers: rows.sort((a, b) => b.total.comparedTo(a.total)),
+    totals: {
+      ...totals,
+      total: AGING_BUCKETS.reduce((sum, bucket) => sum.plus(totals[bucket]), zero)
+    }
+  };
+}
@@ -0,0 +1,135 @@
+// src/utils/purchaseOrderDocument.ts
+import { Prisma } from "@prisma/client";
+import { ENV } from "../config/env";
+import { sendEmail } from "../config/email";
+
+export interface PurchaseOrderDocument {
+  poNumber: string;
+  createdAt: Date;
+  expectedDeliveryDate: Date | null;
+  netAmount: Prisma.Decimal;
+  taxAmount: Prisma.Decimal;
+  totalAmount: Prisma.Decimal;
+  currency: string;
+  remarks: string | null;
+  supplier: {
+    name: string;
+    email: string | null;
+    address: string | null;
+    taxId: string | null;
+    paymentTermsDays: number;
+  };
+  warehouse: { name: string; location: string | null };
+  lines: {
+    quantity: Prisma.Decimal;
+    unitPrice: Prisma.Decimal;
+    netAmount: Prisma.Decimal;
+    taxAmount: Prisma.Decimal;
+    taxCode: { code: string } | null;
+    item: { name: string; sku: string | null; unit: string };
+  }[];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+//Render a purchase order as a standalone, printable HTML page
+export function renderPurchaseOrderHtml(po: PurchaseOrderDocument): string {
+  const rows = po.lines
+    .map(
+      (line, index) => `<tr>
+<td>${index + 1}</td>
+<td>${escapeHtml(line.item.name)}${line.item.sku ? ` (${escapeHtml(line.item.sku)})` : ""}</td>
+<td class="num">${line.quantity.toString()} ${escapeHtml(line.item.unit)}</td>
+<td class="num">${line.unitPrice.toFixed(2)}</td>
+<td>${line.taxCode ? escapeHtml(line.taxCode.code) : ""}</td>
+<td class="num">${line.taxAmount.toFixed(2)}</td>
+<td class="num">${line.netAmount.toFixed(2)}</td>
+</tr>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Purchase Order ${escapeHtml(po.poNumber)}</title>
+<style>
+body { font-family: Arial, sans-serif; font-size: 13px; margin: 32px; }
+table { border-collapse: collapse; width: 100%; margin-top: 16px; }
+th, td { border: 1px solid #999; padding: 6px; text-align: left; }
+td.num, th.num { text-align: right; }
+.meta td { border: none; padding: 2px 8px 2px 0; }
+</style>
+</head>
+<body>
+<h1>Purchase Order ${escapeHtml(po.poNumber)}</h1>
+<p><strong>${escapeHtml(ENV.COMPANY_NAME)}</strong></p>
+<table class="meta">
+<tr><td>Date:</td><td>${formatDate(po.createdAt)}</td></tr>
+<tr><td>Supplier:</td><td>${escapeHtml(po.supplier.name)}</td></tr>
+${po.supplier.taxId ? `<tr><td>Supplier tax ID:</td><td>${escapeHtml(po.supplier.taxId)}</td></tr>` : ""}
+${po.supplier.address ? `<tr><td>Supplier address:</td><td>${escapeHtml(po.supplier.address)}</td></tr>` : ""}
+<tr><td>Deliver to:</td><td>${escapeHtml(po.warehouse.name)}${po.warehouse.location ? `, ${escapeHtml(po.warehouse.location)}` : ""}</td></tr>
+${po.expectedDeliveryDate ? `<tr><td>Expected delivery:</td><td>${formatDate(po.expectedDeliveryDate)}</td></tr>` : ""}
+<tr><td>Payment terms:</td><td>${po.supplier.paymentTermsDays} days</td></tr>
+</table>
+<table>
+<thead>
+<tr><th>#</th><th>Item</th><th class="num">Quantity</th><th class="num">Unit price</th><th>Tax code</th><th class="num">Tax</th><th class="num">Net amount</th></tr>
+</thead>
+<tbody>
+${rows}
+</tbody>
+<tfoot>
+<tr><th colspan="6" class="num">Subtotal</th><th class="num">${po.netAmount.toFixed(2)}</th></tr>
+<tr><th colspan="6" class="num">Tax</th><th class="num">${po.taxAmount.toFixed(2)}</th></tr>
+<tr><th colspan="6" class="num">Total (${escapeHtml(po.currency)})</th><th class="num">${po.totalAmount.toFixed(2)}</th></tr>
+</tfoot>
+</table>
+${po.remarks ? `<p>Remarks: ${escapeHtml(po.remarks)}</p>` : ""}
+<p>Please quote ${escapeHtml(po.poNumber)} on all delivery notes and invoices.</p>
+</body>
+</html>`;
+}
+
+//Email the purchase order document to the supplier. Resolves false when
+//the supplier has no email address or email is not configured.
+export async function emailPurchaseOrder(
+  po: PurchaseOrderDocument
+): Promise<boolean> {
+  if (!po.supplier.email) {
+    return false;
+  }
+
+  const html = renderPurchaseOrderHtml(po);
+
+  return sendEmail({
+    to: po.supplier.email,
+    subject: `Purchase Order ${po.poNumber} from ${ENV.COMPANY_NAME}`,
+    text: `Dear ${po.supplier.name},
+
+Please find attached purchase order ${po.poNumber} for a total of ${po.currency} ${po.totalAmount.toFixed(2)}.
+
+Kindly confirm receipt and the expected delivery date.
+
+${ENV.COMPANY_NAME}`,
+    html,
+    attachments: [
+      {
+        filename: `${po.poNumber}.html`,
+        content: html,
+        contentType: "text/html"
+      }
+    ]
+  });
+}
@@ -0,0 +1,152 @@
+// src/utils/purchaseOrders.ts
+import { Prisma, PurchaseOrderStatus } from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+import { nextDocumentNumber } from "./sequence";
+import { exchangeRateOn } from "./currency";
+import { computeLineTax, documentTotals, loadTaxCodes, pickTaxCode } from "./tax";
+
+export const USER_SUMMARY = {
+  select: { id: true, fullName: true, email: true }
+};
+
+export const PO_INCLUDE = {
+  supplier: true,
+  warehouse: true,
+  lines: { include: { item: true, taxCode: true } },
+  createdBy: USER_SUMMARY
+};
+
+export interface PurchaseOrderLineInput {
+  itemId: string;
+  quantity: number;
+  unitPrice: number;
+  remarks?: string;
+  requisitionLineId?: string;
+  taxCodeId?: string | null; // null: no tax; omitted: the item's, else the supplier's
+}
+
+export interface PurchaseOrderHeader {
+  supplierId?: string;
+  warehouseId?: string;
+  expectedDeliveryDate?: string;
+  remarks?: string;
+  department?: string;
+}
+
+export function logPurchaseOrderEvent(
+  tx: Prisma.TransactionClient,
+  purchaseOrderId: string,
+  status: PurchaseOrderStatus,
+  createdById: string,
+  remarks?: string | null
+) {
+  return tx.purchaseOrderEvent.create({
+    data: { purchaseOrderId, status, createdById, remarks: remarks ?? null }
+  });
+}
+
+//Move a purchase order from one of the `from` statuses to `to` and log
+//the event. The conditional update makes concurrent transitions fail
+//with 409 instead of both succeeding.
+export async function transitionPurchaseOrder(
+  tx: Prisma.TransactionClient,
+  purchaseOrderId: string,
+  from: PurchaseOrderStatus[],
+  to: PurchaseOrderStatus,
+  userId: string,
+  remarks?: string | null,
+  data: Prisma.PurchaseOrderUpdateManyMutationInput = {}
+) {
+  const updated = await tx.purchaseOrder.updateMany({
+    where: { id: purchaseOrderId, status: { in: from } },
+    data: { ...data, status: to }
+  });
+  if (updated.count === 0) {
+    throw createApiError(
+      409,
+      `Only ${from.join(" or ")} purchase orders can be moved to ${to}.`
+    );
+  }
+
+  await logPurchaseOrderEvent(tx, purchaseOrderId, to, userId, remarks);
+}
+
+//Create a DRAFT purchase order with its lines and first event. The
+//header is expected to be validated already. The order is priced in the
+//supplier's currency and converted at today's rate; tax is worked out per
+//line from its tax code.
+export async function createPurchaseOrder(
+  tx: Prisma.TransactionClient,
+  header: PurchaseOrderHeader,
+  lines: PurchaseOrderLineInput[],
+  userId: string
+) {
+  const supplier = await tx.supplier.findUniqueOrThrow({
+    where: { id: header.supplierId! },
+    select: { currency: true, taxCodeId: true }
+  });
+  const exchangeRate = await exchangeRateOn(tx, supplier.currency, new Date());
+
+  const items = await tx.item.findMany({
+    where: { id: { in: lines.map((line) => line.itemId) } },
+    select: { id: true, taxCodeId: true }
+  });
+  const itemTaxCodes = new Map(items.map((item) => [item.id, item.taxCodeId]));
+  const taxCodes = await loadTaxCodes(
+    tx,
+    lines.map((line) => line.taxCodeId),
+    [...itemTaxCodes.values(), supplier.taxCodeId]
+  );
+
+  const taxedLines = lines.map((line) => {
+    const taxCode = pickTaxCode(
+      taxCodes,
+      line.taxCodeId,
+      itemTaxCodes.get(line.itemId),
+      supplier.taxCodeId
+    );
+    return {
+      ...line,
+      taxCodeId: taxCode?.id ?? null,
+      ...computeLineTax(line.quantity, line.unitPrice, taxCode)
+    };
+  });
+  const { netAmount, taxAmount, totalAmount } = documentTotals(taxedLines);
+
+  const po = await tx.purchaseOrder.create({
+    data: {
+      poNumber: await nextDocumentNumber(tx, "PO"),
+      supplierId: header.supplierId!,
+      warehouseId: header.warehouseId!,
+      expectedDeliveryDate: header.expectedDeliveryDate
+        ? new Date(header.expectedDeliveryDate)
+        : null,
+      remarks: header.remarks || null,
+      department: header.department?.trim() || null,
+      netAmount,
+      taxAmount,
+      totalAmount,
+      currency: supplier.currency,
+      exchangeRate,
+      baseTotalAmount: totalAmount.times(exchangeRate),
+      createdById: userId,
+      lines: {
+        create: taxedLines.map((line) => ({
+          itemId: line.itemId,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          taxCodeId: line.taxCodeId,
+          netAmount: line.netAmount,
+          taxAmount: line.taxAmount,
+          requisitionLineId: line.requisitionLineId ?? null,
+          remarks: line.remarks || null
+        }))
+      }
+    },
+    include: PO_INCLUDE
+  });
+
+  await logPurchaseOrderEvent(tx, po.id, po.status, userId);
+
+  return po;
+}
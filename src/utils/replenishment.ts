@@ -0,0 +1,129 @@
+// src/utils/replenishment.ts
+import {
+  Prisma,
+  PurchaseOrderStatus,
+  StockTransferStatus
+} from "@prisma/client";
+import { pairKey } from "./stock";
+
+//Purchase orders whose unreceived quantities are already on the way (or
+//about to be); drafts count so a confirmed suggestion isn't suggested again
+export const OPEN_PO_STATUSES = [
+  PurchaseOrderStatus.DRAFT,
+  PurchaseOrderStatus.SUBMITTED,
+  PurchaseOrderStatus.APPROVED,
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED
+];
+
+export interface ReplenishmentNeed {
+  itemId: string;
+  warehouseId: string;
+  supplierId: string | null;
+  onHand: Prisma.Decimal;
+  onOrder: Prisma.Decimal;
+  inboundTransfers: Prisma.Decimal;
+  pendingTransfers: Prisma.Decimal;
+  reorderLevel: Prisma.Decimal;
+  suggestedQuantity: Prisma.Decimal;
+}
+
+function addTo(totals: Map<string, Prisma.Decimal>, key: string, quantity: Prisma.Decimal) {
+  totals.set(key, (totals.get(key) ?? new Prisma.Decimal(0)).plus(quantity));
+}
+
+//Work out what to buy for every item/warehouse pair with a reorder level.
+//Stock on hand, open PO quantities not yet received and transfers in
+//transit to the warehouse count as supply; draft transfers out of it are
+//stock already spoken for. (Issues post immediately, so they are already
+//reflected in stock on hand.) When the projected balance is at or below
+//the reorder level, buy up to maxStock if set, otherwise back up to the
+//reorder level but at least reorderQuantity.
+export async function computeReplenishmentNeeds(
+  db: Prisma.TransactionClient
+): Promise<ReplenishmentNeed[]> {
+  const levels = await db.stockLevel.findMany({
+    where: {
+      reorderLevel: { gt: 0 },
+      item: { isActive: true },
+      warehouse: { isActive: true }
+    }
+  });
+
+  const onOrder = new Map<string, Prisma.Decimal>();
+  const orderLines = await db.purchaseOrderLine.findMany({
+    where: { purchaseOrder: { status: { in: OPEN_PO_STATUSES } } },
+    select: {
+      itemId: true,
+      quantity: true,
+      receivedQuantity: true,
+      purchaseOrder: { select: { warehouseId: true } }
+    }
+  });
+  for (const line of orderLines) {
+    const open = line.quantity.minus(line.receivedQuantity);
+    if (open.gt(0)) {
+      addTo(onOrder, pairKey(line.itemId, line.purchaseOrder.warehouseId), open);
+    }
+  }
+
+  const inbound = new Map<string, Prisma.Decimal>();
+  const pending = new Map<string, Prisma.Decimal>();
+  const transferLines = await db.stockTransferLine.findMany({
+    where: {
+      transfer: {
+        status: { in: [StockTransferStatus.DRAFT, StockTransferStatus.IN_TRANSIT] }
+      }
+    },
+    select: {
+      itemId: true,
+      quantity: true,
+      transfer: {
+        select: { status: true, fromWarehouseId: true, toWarehouseId: true }
+      }
+    }
+  });
+  for (const line of transferLines) {
+    if (line.transfer.status === StockTransferStatus.IN_TRANSIT) {
+      addTo(inbound, pairKey(line.itemId, line.transfer.toWarehouseId), line.quantity);
+    } else {
+      addTo(pending, pairKey(line.itemId, line.transfer.fromWarehouseId), line.quantity);
+    }
+  }
+
+  const zero = new Prisma.Decimal(0);
+  const needs: ReplenishmentNeed[] = [];
+
+  for (const level of levels) {
+    const key = pairKey(level.itemId, level.warehouseId);
+    const need = {
+      itemId: level.itemId,
+      warehouseId: level.warehouseId,
+      supplierId: level.preferredSupplierId,
+      onHand: level.quantity,
+      onOrder: onOrder.get(key) ?? zero,
+      inboundTransfers: inbound.get(key) ?? zero,
+      pendingTransfers: pending.get(key) ?? zero,
+      reorderLevel: level.reorderLevel
+    };
+
+    const projected = need.onHand
+      .plus(need.onOrder)
+      .plus(need.inboundTransfers)
+      .minus(need.pendingTransfers);
+    if (projected.gt(level.reorderLevel)) {
+      continue;
+    }
+
+    const suggestedQuantity = level.maxStock
+      ? level.maxStock.minus(projected)
+      : Prisma.Decimal.max(level.reorderLevel.minus(projected), level.reorderQuantity);
+    if (suggestedQuantity.lte(0)) {
+      continue;
+    }
+
+    needs.push({ ...need, suggestedQuantity });
+  }
+
+  return needs;
+}
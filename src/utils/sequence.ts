@@ -0,0 +1,19 @@
+// src/utils/sequence.ts
+import { Prisma } from "@prisma/client";
+
+//Issue the next document number in a yearly series, e.g. PO-2026-000042.
+//The counter row is incremented atomically, so concurrent callers never
+//receive the same number.
+export async function nextDocumentNumber(
+  tx: Prisma.TransactionClient,
+  prefix: string,
+  date: Date = new Date()
+): Promise<string> {
+  const key = `${prefix}-${date.getFullYear()}`;
+  const sequence = await tx.documentSequence.upsert({
+    where: { key },
+    update: { lastValue: { increment: 1 } },
+    create: { key, lastValue: 1 }
+  });
+  return `${key}-${String(sequence.lastValue).padStart(6, "0")}`;
+}
@@ -0,0 +1,191 @@
+// src/utils/serials.ts
+import { Prisma, SerialStatus } from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+
+export interface SerialLocation {
+  status: SerialStatus;
+  warehouseId: string | null;
+  holderDepartment?: string | null;
+  holderUserId?: string | null;
+}
+
+export interface SerialPosting {
+  itemId: string;
+  serialNumbers: string[];
+  referenceType: string;
+  referenceId: string | null;
+  remarks?: string | null;
+  createdById: string;
+}
+
+//Check the serials given for a quantity of an item. Trackable items need
+//exactly one unique serial per unit; other items must not carry serials.
+//Returns an error message or null.
+export function validateSerials(
+  item: { name: string; isTrackable: boolean },
+  quantity: number,
+  serialNumbers: unknown,
+  label: string
+): string | null {
+  if (!item.isTrackable) {
+    if (Array.isArray(serialNumbers) && serialNumbers.length > 0) {
+      return `${label}.serialNumbers given for "${item.name}", which is not trackable.`;
+    }
+    return null;
+  }
+
+  if (!Array.isArray(serialNumbers)) {
+    return `${label}.serialNumbers is required for trackable item "${item.name}".`;
+  }
+
+  if (serialNumbers.some((sn) => typeof sn !== "string" || !sn.trim())) {
+    return `${label}.serialNumbers must be non-empty strings.`;
+  }
+
+  if (new Set(serialNumbers.map((sn: string) => sn.trim())).size !== serialNumbers.length) {
+    return `${label}.serialNumbers contains duplicates.`;
+  }
+
+  if (serialNumbers.length !== quantity) {
+    return `${label}.serialNumbers must list one serial per unit (${quantity}).`;
+  }
+
+  return null;
+}
+
+//Validate serials on every line of a multi-line stock request
+export function validateLineSerials(
+  lines: { itemId: string; quantity: number; serialNumbers?: string[] }[],
+  items: Map<string, { name: string; isTrackable: boolean }>
+): string | null {
+  for (const [index, line] of lines.entries()) {
+    const error = validateSerials(
+      items.get(line.itemId)!,
+      line.quantity,
+      line.serialNumbers,
+      `lines[${index}]`
+    );
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+export function normaliseSerials(serialNumbers: string[] | undefined): string[] {
+  return (serialNumbers ?? []).map((sn) => sn.trim());
+}
+
+function logEvents(
+  tx: Prisma.TransactionClient,
+  unitIds: string[],
+  location: SerialLocation,
+  posting: SerialPosting
+) {
+  return tx.serialEvent.createMany({
+    data: unitIds.map((serialUnitId) => ({
+      serialUnitId,
+      status: location.status,
+      warehouseId: location.warehouseId,
+      holderDepartment: location.holderDepartment ?? null,
+      holderUserId: location.holderUserId ?? null,
+      referenceType: posting.referenceType,
+      referenceId: posting.referenceId,
+      remarks: posting.remarks ?? null,
+      createdById: posting.createdById
+    }))
+  });
+}
+
+//Bring serials into stock at a warehouse. New serials are registered;
+//serials that previously left (issued, missing, written off) come back.
+export async function receiveSerials(
+  tx: Prisma.TransactionClient,
+  warehouseId: string,
+  posting: SerialPosting
+) {
+  const location: SerialLocation = {
+    status: SerialStatus.IN_STOCK,
+    warehouseId,
+    holderDepartment: null,
+    holderUserId: null
+  };
+  const unitIds: string[] = [];
+
+  for (const serialNumber of posting.serialNumbers) {
+    const existing = await tx.serialUnit.findUnique({
+      where: {
+        itemId_serialNumber: { itemId: posting.itemId, serialNumber }
+      }
+    });
+
+    if (
+      existing &&
+      (existing.status === SerialStatus.IN_STOCK ||
+        existing.status === SerialStatus.IN_TRANSIT)
+    ) {
+      throw createApiError(
+        400,
+        `Serial ${serialNumber} is already ${existing.status === SerialStatus.IN_STOCK ? "in stock" : "in transit"}.`
+      );
+    }
+
+    const unit = existing
+      ? await tx.serialUnit.update({
+          where: { id: existing.id },
+          data: location
+        })
+      : await tx.serialUnit.create({
+          data: { itemId: posting.itemId, serialNumber, ...location }
+        });
+
+    unitIds.push(unit.id);
+  }
+
+  await logEvents(tx, unitIds, location, posting);
+}
+
+//Move serials that are currently at `from` to `to`. Fails unless every
+//named serial is exactly where it is expected to be.
+export async function moveSerials(
+  tx: Prisma.TransactionClient,
+  from: SerialLocation,
+  to: SerialLocation,
+  posting: SerialPosting
+) {
+  const where = {
+    itemId: posting.itemId,
+    serialNumber: { in: posting.serialNumbers },
+    status: from.status,
+    warehouseId: from.warehouseId
+  };
+
+  const units = await tx.serialUnit.findMany({ where });
+
+  // Conditional update so a concurrent posting cannot move the same unit
+  const updated = await tx.serialUnit.updateMany({
+    where: { ...where, id: { in: units.map((unit) => unit.id) } },
+    data: {
+      status: to.status,
+      warehouseId: to.warehouseId,
+      holderDepartment: to.holderDepartment ?? null,
+      holderUserId: to.holderUserId ?? null
+    }
+  });
+
+  if (updated.count !== posting.serialNumbers.length) {
+    const found = new Set(units.map((unit) => unit.serialNumber));
+    const missing = posting.serialNumbers.filter((sn) => !found.has(sn));
+    throw createApiError(
+      400,
+      `Serial(s) not available for this movement: ${missing.join(", ") || "concurrent update"}.`
+    );
+  }
+
+  await logEvents(
+    tx,
+    units.map((unit) => unit.id),
+    to,
+    posting
+  );
+}
@@ -0,0 +1,316 @@
+// src/utils/stock.ts
+import { Item, Prisma, StockMovementType } from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+import { LotPick } from "./lots";
+import { MovementCost, costInbound, costOutbound, openCostLayer } from "./costing";
+import { postStockJournal } from "./journals";
+
+export interface StockLineInput {
+  itemId: string;
+  quantity: number;
+  serialNumbers?: string[]; // required for trackable items
+  lotNumber?: string; // receipts of lot-controlled items
+  expiryDate?: string;
+  lots?: LotPick[]; // issues of lot-controlled items; FEFO when omitted
+  unitCost?: number; // receipts: cost per unit; defaults to the current average cost
+}
+
+export interface StockPosting {
+  itemId: string;
+  warehouseId: string;
+  quantity: number | Prisma.Decimal;
+  movementType: StockMovementType;
+  referenceType: string;
+  referenceId: string | null;
+  remarks?: string | null;
+  lotId?: string | null;
+  unitCost?: number | Prisma.Decimal | null; // inbound only; defaults to the current average cost
+  createdById: string;
+}
+
+//Check a multi-line stock request body. Returns an error message or null.
+export function validateStockLines(lines: unknown): string | null {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return "lines must be a non-empty array.";
+  }
+
+  for (const [index, line] of lines.entries()) {
+    if (!line || typeof line.itemId !== "string" || !line.itemId) {
+      return `lines[${index}].itemId is required.`;
+    }
+    if (typeof line.quantity !== "number" || !(line.quantity > 0)) {
+      return `lines[${index}].quantity must be a positive number.`;
+    }
+  }
+
+  return null;
+}
+
+//Load the active items referenced by stock lines, keyed by id.
+//Returns null if any id is unknown or inactive.
+export async function findActiveItems(
+  db: Prisma.TransactionClient,
+  itemIds: string[]
+): Promise<Map<string, Item> | null> {
+  const uniqueIds = [...new Set(itemIds)];
+  const items = await db.item.findMany({
+    where: { id: { in: uniqueIds }, isActive: true }
+  });
+
+  if (items.length !== uniqueIds.length) {
+    return null;
+  }
+
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+//Record the movement and its journal
+async function logMovement(
+  tx: Prisma.TransactionClient,
+  posting: StockPosting,
+  cost: MovementCost
+) {
+  const movement = await tx.stockMovement.create({
+    data: {
+      itemId: posting.itemId,
+      warehouseId: posting.warehouseId,
+      quantity: posting.quantity,
+      movementType: posting.movementType,
+      referenceType: posting.referenceType,
+      referenceId: posting.referenceId,
+      remarks: posting.remarks ?? null,
+      lotId: posting.lotId ?? null,
+      unitCost: cost.unitCost,
+      totalCost: cost.totalCost,
+      createdById: posting.createdById
+    }
+  });
+  await postStockJournal(tx, movement);
+  return movement;
+}
+
+//The balance check and the decrement happen in one statement, so
+//concurrent postings cannot take the balance below zero.
+async function decrementLevel(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  warehouseId: string,
+  quantity: Prisma.Decimal
+) {
+  const result = await tx.stockLevel.updateMany({
+    where: {
+      itemId,
+      warehouseId,
+      quantity: { gte: quantity }
+    },
+    data: {
+      quantity: { decrement: quantity }
+    }
+  });
+
+  if (result.count === 0) {
+    throw createApiError(
+      400,
+      `Insufficient stock for item ${itemId} in warehouse ${warehouseId}.`
+    );
+  }
+}
+
+async function incrementLevel(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  warehouseId: string,
+  quantity: Prisma.Decimal,
+  averageCost: Prisma.Decimal
+) {
+  await tx.stockLevel.upsert({
+    where: {
+      itemId_warehouseId: {
+        itemId,
+        warehouseId
+      }
+    },
+    update: {
+      quantity: { increment: quantity },
+      averageCost
+    },
+    create: {
+      itemId,
+      warehouseId,
+      quantity,
+      averageCost
+    }
+  });
+}
+
+//Value the quantity coming in, add it to the balance, log the movement and
+//open its FIFO layer
+async function receive(
+  tx: Prisma.TransactionClient,
+  posting: StockPosting,
+  quantity: Prisma.Decimal
+) {
+  const cost = await costInbound(
+    tx,
+    posting.itemId,
+    posting.warehouseId,
+    quantity,
+    posting.unitCost
+  );
+  await incrementLevel(tx, posting.itemId, posting.warehouseId, quantity, cost.averageCost);
+
+  const movement = await logMovement(tx, posting, cost);
+  await openCostLayer(tx, movement, cost);
+  return movement;
+}
+
+//Take the quantity out of the balance and log the movement with its cost
+//of goods issued, signed like the movement quantity
+async function issue(
+  tx: Prisma.TransactionClient,
+  posting: StockPosting,
+  quantity: Prisma.Decimal
+) {
+  await decrementLevel(tx, posting.itemId, posting.warehouseId, quantity);
+
+  const cost = await costOutbound(tx, posting.itemId, posting.warehouseId, quantity);
+  const signed = new Prisma.Decimal(posting.quantity).isNegative();
+  return logMovement(tx, posting, {
+    unitCost: cost.unitCost,
+    totalCost: signed ? cost.totalCost.negated() : cost.totalCost
+  });
+}
+
+//Decrease the balance of an item/warehouse pair and log the movement
+//with its cost of goods issued.
+export async function removeStock(
+  tx: Prisma.TransactionClient,
+  posting: StockPosting
+) {
+  return issue(tx, posting, new Prisma.Decimal(posting.quantity));
+}
+
+//Increase the balance of an item/warehouse pair (creating the StockLevel
+//on first receipt) and log the movement at posting.unitCost.
+export async function addStock(
+  tx: Prisma.TransactionClient,
+  posting: StockPosting
+) {
+  return receive(tx, posting, new Prisma.Decimal(posting.quantity));
+}
+
+//Apply a signed posting: positive quantities are added, negative ones
+//removed with the same balance check as removeStock. The movement keeps
+//the sign so the ledger shows the direction.
+export async function adjustStock(
+  tx: Prisma.TransactionClient,
+  posting: StockPosting
+) {
+  const quantity = new Prisma.Decimal(posting.quantity);
+
+  return quantity.gte(0)
+    ? receive(tx, posting, quantity)
+    : issue(tx, posting, quantity.negated());
+}
+
+//Effect of a movement on the balance. OUT quantities are stored positive;
+//ADJUSTMENT quantities already carry their sign.
+export function signedQuantity(
+  movementType: StockMovementType,
+  quantity: Prisma.Decimal
+): Prisma.Decimal {
+  return movementType === StockMovementType.OUT ? quantity.negated() : quantity;
+}
+
+//Replay the movements matching `where` into a single balance
+export async function ledgerBalance(
+  db: Prisma.TransactionClient,
+  where: Prisma.StockMovementWhereInput
+): Promise<Prisma.Decimal> {
+  const groups = await db.stockMovement.groupBy({
+    by: ["movementType"],
+    where,
+    _sum: { quantity: true }
+  });
+
+  return groups.reduce(
+    (balance, group) =>
+      balance.plus(
+        signedQuantity(
+          group.movementType,
+          group._sum.quantity ?? new Prisma.Decimal(0)
+        )
+      ),
+    new Prisma.Decimal(0)
+  );
+}
+
+//Item/warehouse pairs at or below their reorder level, with the shortfall
+//needed to get back to it. Pairs without a reorder level are ignored.
+export async function findLowStock(
+  db: Prisma.TransactionClient,
+  where: Prisma.StockLevelWhereInput = {}
+) {
+  const levels = await db.stockLevel.findMany({
+    where: {
+      ...where,
+      reorderLevel: { gt: 0 },
+      quantity: { lte: db.stockLevel.fields.reorderLevel }
+    },
+    include: {
+      item: true,
+      warehouse: true
+    },
+    orderBy: [
+      { warehouse: { name: "asc" } },
+      { item: { name: "asc" } }
+    ]
+  });
+
+  return levels.map((level) => ({
+    ...level,
+    shortfall: level.reorderLevel.minus(level.quantity)
+  }));
+}
+
+export interface PairBalance {
+  itemId: string;
+  warehouseId: string;
+  quantity: Prisma.Decimal;
+}
+
+export function pairKey(itemId: string, warehouseId: string): string {
+  return `${itemId}:${warehouseId}`;
+}
+
+//Replay the movements matching `where` into one balance per
+//item/warehouse pair, keyed by pairKey()
+export async function replayBalances(
+  db: Prisma.TransactionClient,
+  where: Prisma.StockMovementWhereInput
+): Promise<Map<string, PairBalance>> {
+  const groups = await db.stockMovement.groupBy({
+    by: ["itemId", "warehouseId", "movementType"],
+    where,
+    _sum: { quantity: true }
+  });
+
+  const balances = new Map<string, PairBalance>();
+  for (const group of groups) {
+    const key = pairKey(group.itemId, group.warehouseId);
+    const balance = balances.get(key) ?? {
+      itemId: group.itemId,
+      warehouseId: group.warehouseId,
+      quantity: new Prisma.Decimal(0)
+    };
+    balance.quantity = balance.quantity.plus(
+      signedQuantity(
+        group.movementType,
+        group._sum.quantity ?? new Prisma.Decimal(0)
+      )
+    );
+    balances.set(key, balance);
+  }
+
+  return balances;
+}
@@ -0,0 +1,184 @@
+// src/utils/supplierScorecards.ts
+import {
+  Prisma,
+  PurchaseOrderStatus,
+  SupplierInvoiceStatus
+} from "@prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+//Purchase orders that were actually placed with the supplier. Cancelled
+//orders are left out: cancelling is usually the buyer's decision.
+const PLACED_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.APPROVED,
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+  PurchaseOrderStatus.RECEIVED,
+  PurchaseOrderStatus.CLOSED
+];
+
+//Orders the supplier is done with, so their fill rate is final
+const SETTLED_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.RECEIVED,
+  PurchaseOrderStatus.CLOSED
+];
+
+export interface SupplierScorecard {
+  supplier: { id: string; name: string; status: string };
+  orders: number;
+  deliveries: number;
+  leadTimeDays: { average: number | null; variance: number | null };
+  onTime: { due: number; onTime: number; rate: number | null };
+  fill: { ordered: Prisma.Decimal; delivered: Prisma.Decimal; rate: number | null };
+  rejection: { received: Prisma.Decimal; rejected: Prisma.Decimal; rate: number | null };
+  priceVariance: { poValue: Prisma.Decimal; variance: Prisma.Decimal; rate: number | null };
+}
+
+function round(value: number, places: number) {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function ratio(part: Prisma.Decimal, whole: Prisma.Decimal) {
+  return whole.gt(0) ? round(part.div(whole).toNumber(), 4) : null;
+}
+
+//End of the day a delivery was expected, so deliveries that day count as on time
+function endOfDay(date: Date) {
+  const end = new Date(date);
+  end.setUTCHours(23, 59, 59, 999);
+  return end;
+}
+
+//Score suppliers on the purchase orders placed with them between `from`
+//and `to`. An order is placed when first SENT, or when approved if it was
+//never emailed. For those orders:
+//  - lead time: days from placing the order to each goods receipt
+//  - on time: receipts on or before the order's expected delivery date
+//    (orders without one are not counted)
+//  - fill rate: accepted vs ordered quantity, for orders that are fully
+//    received, closed or past their expected delivery date
+//  - rejection rate: rejected vs all quantity delivered
+//  - price variance: invoiced vs PO price on invoices not rejected
+export async function supplierScorecards(
+  db: Prisma.TransactionClient,
+  from: Date,
+  to: Date,
+  supplierId?: string
+): Promise<SupplierScorecard[]> {
+  const now = new Date();
+
+  const orders = await db.purchaseOrder.findMany({
+    where: {
+      status: { in: PLACED_STATUSES },
+      //Placed in the range means created before its end and touched after its start
+      createdAt: { lte: to },
+      updatedAt: { gte: from },
+      ...(supplierId ? { supplierId } : {})
+    },
+    include: {
+      supplier: { select: { id: true, name: true, status: true } },
+      events: {
+        where: { status: PurchaseOrderStatus.SENT },
+        orderBy: { createdAt: "asc" },
+        take: 1
+      },
+      lines: { select: { quantity: true, receivedQuantity: true } },
+      goodsReceipts: {
+        select: {
+          createdAt: true,
+          lines: { select: { acceptedQuantity: true, rejectedQuantity: true } }
+        }
+      },
+      invoices: {
+        where: { status: { not: SupplierInvoiceStatus.REJECTED } },
+        select: {
+          lines: { select: { quantity: true, unitPrice: true, priceVariance: true } }
+        }
+      }
+    }
+  });
+
+  const zero = new Prisma.Decimal(0);
+  const cards = new Map<string, SupplierScorecard & { leadTimes: number[] }>();
+
+  for (const order of orders) {
+    const placedAt = order.events[0]?.createdAt ?? order.approvedAt ?? order.createdAt;
+    if (placedAt < from || placedAt > to) {
+      continue;
+    }
+
+    let card = cards.get(order.supplierId);
+    if (!card) {
+      card = {
+        supplier: order.supplier,
+        orders: 0,
+        deliveries: 0,
+        leadTimeDays: { average: null, variance: null },
+        onTime: { due: 0, onTime: 0, rate: null },
+        fill: { ordered: zero, delivered: zero, rate: null },
+        rejection: { received: zero, rejected: zero, rate: null },
+        priceVariance: { poValue: zero, variance: zero, rate: null },
+        leadTimes: []
+      };
+      cards.set(order.supplierId, card);
+    }
+
+    card.orders++;
+
+    const dueBy = order.expectedDeliveryDate ? endOfDay(order.expectedDeliveryDate) : null;
+    for (const receipt of order.goodsReceipts) {
+      card.deliveries++;
+      card.leadTimes.push((receipt.createdAt.getTime() - placedAt.getTime()) / DAY_MS);
+
+      if (dueBy) {
+        card.onTime.due++;
+        if (receipt.createdAt <= dueBy) card.onTime.onTime++;
+      }
+
+      for (const line of receipt.lines) {
+        card.rejection.received = card.rejection.received
+          .plus(line.acceptedQuantity)
+          .plus(line.rejectedQuantity);
+        card.rejection.rejected = card.rejection.rejected.plus(line.rejectedQuantity);
+      }
+    }
+
+    if (SETTLED_STATUSES.includes(order.status) || (dueBy && dueBy < now)) {
+      for (const line of order.lines) {
+        card.fill.ordered = card.fill.ordered.plus(line.quantity);
+        card.fill.delivered = card.fill.delivered.plus(line.receivedQuantity);
+      }
+    }
+
+    for (const invoice of order.invoices) {
+      for (const line of invoice.lines) {
+        const poPrice = line.unitPrice.minus(line.priceVariance);
+        card.priceVariance.poValue = card.priceVariance.poValue.plus(
+          poPrice.times(line.quantity)
+        );
+        card.priceVariance.variance = card.priceVariance.variance.plus(
+          line.priceVariance.times(line.quantity)
+        );
+      }
+    }
+  }
+
+  return [...cards.values()]
+    .map(({ leadTimes, ...card }) => {
+      if (leadTimes.length > 0) {
+        const average = leadTimes.reduce((sum, days) => sum + days, 0) / leadTimes.length;
+        const variance =
+          leadTimes.reduce((sum, days) => sum + (days - average) ** 2, 0) / leadTimes.length;
+        card.leadTimeDays = { average: round(average, 2), variance: round(variance, 2) };
+      }
+      if (card.onTime.due > 0) {
+        card.onTime.rate = round(card.onTime.onTime / card.onTime.due, 4);
+      }
+      card.fill.rate = ratio(card.fill.delivered, card.fill.ordered);
+      card.rejection.rate = ratio(card.rejection.rejected, card.rejection.received);
+      card.priceVariance.rate = ratio(card.priceVariance.variance, card.priceVariance.poValue);
+      return card;
+    })
+    .sort((a, b) => a.supplier.name.localeCompare(b.supplier.name));
+}
@@ -0,0 +1,106 @@
+// src/utils/tax.ts
+import { Prisma, TaxCode } from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+
+export interface LineAmounts {
+  netAmount: Prisma.Decimal;
+  taxAmount: Prisma.Decimal;
+}
+
+export interface DocumentTotals extends LineAmounts {
+  totalAmount: Prisma.Decimal;
+}
+
+//Money is rounded to cents, half up, once per line; document totals are
+//the sum of the rounded lines so they always add up on paper.
+export function roundMoney(value: Prisma.Decimal.Value): Prisma.Decimal {
+  return new Prisma.Decimal(value).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+//Net and tax of one line. With an inclusive code the line amount already
+//contains the tax, which is backed out of it; otherwise tax is added on top.
+export function computeLineTax(
+  quantity: Prisma.Decimal.Value,
+  unitPrice: Prisma.Decimal.Value,
+  taxCode: Pick<TaxCode, "rate" | "isInclusive"> | null
+): LineAmounts {
+  const amount = roundMoney(new Prisma.Decimal(quantity).times(unitPrice));
+  if (!taxCode) {
+    return { netAmount: amount, taxAmount: new Prisma.Decimal(0) };
+  }
+
+  if (taxCode.isInclusive) {
+    const taxAmount = roundMoney(
+      amount.times(taxCode.rate).div(taxCode.rate.plus(100))
+    );
+    return { netAmount: amount.minus(taxAmount), taxAmount };
+  }
+
+  return { netAmount: amount, taxAmount: roundMoney(amount.times(taxCode.rate).div(100)) };
+}
+
+export function documentTotals(lines: LineAmounts[]): DocumentTotals {
+  const zero = new Prisma.Decimal(0);
+  const netAmount = lines.reduce((sum, line) => sum.plus(line.netAmount), zero);
+  const taxAmount = lines.reduce((sum, line) => sum.plus(line.taxAmount), zero);
+  return { netAmount, taxAmount, totalAmount: netAmount.plus(taxAmount) };
+}
+
+//Load the tax codes lines may use, keyed by id. Codes given explicitly on
+//a line must exist and be active; defaults taken from items or suppliers
+//are skipped when inactive (see pickTaxCode).
+export async function loadTaxCodes(
+  db: Prisma.TransactionClient,
+  explicitIds: (string | null | undefined)[],
+  defaultIds: (string | null | undefined)[] = []
+): Promise<Map<string, TaxCode>> {
+  const ids = [...new Set([...explicitIds, ...defaultIds])].filter(
+    (id): id is string => typeof id === "string" && id !== ""
+  );
+  const codes = await db.taxCode.findMany({ where: { id: { in: ids } } });
+  const byId = new Map(codes.map((code) => [code.id, code]));
+
+  for (const id of new Set(explicitIds)) {
+    if (typeof id === "string" && !byId.get(id)?.isActive) {
+      throw createApiError(400, `Tax code ${id} is invalid or inactive.`);
+    }
+  }
+
+  return byId;
+}
+
+//The tax code a line ends up with: the one given on the line (null means
+//no tax), else the first active default in order of precedence.
+export function pickTaxCode(
+  codes: Map<string, TaxCode>,
+  explicit: string | null | undefined,
+  ...defaults: (string | null | undefined)[]
+): TaxCode | null {
+  if (explicit !== undefined) {
+    return explicit === null ? null : codes.get(explicit)!;
+  }
+
+  for (const id of defaults) {
+    const code = id ? codes.get(id) : undefined;
+    if (code?.isActive) {
+      return code;
+    }
+  }
+
+  return null;
+}
+
+//What one unit of a document line costs the business: the net price plus
+//any tax that cannot be claimed back.
+export function costPerUnit(line: {
+  quantity: Prisma.Decimal;
+  netAmount: Prisma.Decimal;
+  taxAmount: Prisma.Decimal;
+  taxCode: Pick<TaxCode, "isRecoverable"> | null;
+}): Prisma.Decimal {
+  const cost =
+    line.taxCode && !line.taxCode.isRecoverable
+      ? line.netAmount.plus(line.taxAmount)
+      : line.netAmount;
+  return cost.div(line.quantity);
+}